@@ -1,4 +1,7 @@
-import { SessionManager } from '../../../src/services/SessionManager.js';
+import {
+  SessionManager,
+  type CrossTabCoordination,
+} from '../../../src/services/SessionManager.js';
 import { SessionExpiredError } from '../../../src/errors/SessionErrors.js';
 import type { SharedStorage } from '../core/shared-storage.js';
 import type { SimAudit } from '../core/audit.js';
@@ -8,6 +11,8 @@ export interface BrowserTabConfig {
   storage: SharedStorage;
   baseUrl: string;
   audit: SimAudit;
+  /** Cross-tab refresh coordination mode (default: 'storage') */
+  crossTabCoordination?: CrossTabCoordination;
   /** Called when session expires */
   onSessionExpired?: (tabId: string, error: SessionExpiredError) => void;
 }
@@ -42,6 +47,7 @@ export class BrowserTab {
       refreshQueueTimeout: 10000,
       maxRefreshRetries: 3,
       retryBackoffBase: 1000,
+      crossTabCoordination: config.crossTabCoordination,
       onSessionExpired: (error: SessionExpiredError) => {
         this.sessionExpired = true;
         this.sessionExpiredError = error;
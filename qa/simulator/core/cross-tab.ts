@@ -0,0 +1,73 @@
+/**
+ * Browser primitives for leader-mode cross-tab simulations.
+ *
+ * Node has no Web Locks, and its BroadcastChannel delivers on real event-loop
+ * turns that fake timers never advance. These doubles keep every hand-off on
+ * microtasks so scenarios stay deterministic under `vi.useFakeTimers()`.
+ */
+
+/**
+ * Exclusive Web Locks with FIFO hand-off. Supports the
+ * `request(name, { signal }, callback)` overload used for leader election.
+ */
+export function createLeaderLocksMock() {
+  const held = new Set<string>();
+  const waiters = new Map<string, Array<() => void>>();
+
+  const release = (name: string) => {
+    held.delete(name);
+    waiters.get(name)?.shift()?.();
+  };
+
+  return {
+    request(name: string, optionsOrCallback: any, maybeCallback?: any): Promise<unknown> {
+      const callback = typeof optionsOrCallback === 'function' ? optionsOrCallback : maybeCallback;
+      const signal: AbortSignal | undefined =
+        typeof optionsOrCallback === 'function' ? undefined : optionsOrCallback?.signal;
+
+      return new Promise((resolve, reject) => {
+        const grant = () => {
+          held.add(name);
+          Promise.resolve()
+            .then(() => callback())
+            .then(resolve, reject)
+            .finally(() => release(name));
+        };
+        if (!held.has(name)) {
+          grant();
+          return;
+        }
+        const queue = waiters.get(name) ?? [];
+        queue.push(grant);
+        waiters.set(name, queue);
+        signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(grant);
+          if (index !== -1) queue.splice(index, 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    },
+  };
+}
+
+/** BroadcastChannel that delivers to every other same-name channel on a microtask. */
+export class SimBroadcastChannel {
+  static open = new Set<SimBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    SimBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of SimBroadcastChannel.open) {
+      if (channel === this || channel.name !== this.name) continue;
+      const payload = structuredClone(data);
+      queueMicrotask(() => channel.onmessage?.({ data: payload } as MessageEvent));
+    }
+  }
+
+  close(): void {
+    SimBroadcastChannel.open.delete(this);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Scenario: Multi-Tab Leader Election
+ *
+ * Opt-in `crossTabCoordination: 'leader'`. One tab holds a long-lived Web Lock
+ * and is the only one that refreshes; it broadcasts new tokens over
+ * BroadcastChannel and followers ask it for a refresh instead of calling
+ * /auth/refresh themselves. When the leader closes, the next waiting tab
+ * acquires the lock and takes over the schedule.
+ *
+ * Compared with multi-tab-contention (per-refresh lock + storage re-read),
+ * there is no window in which two tabs can put the same refresh token on the
+ * wire — every refresh token must appear in the server log at most once.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createScenarioContext,
+  cleanupScenario,
+  BASE_URL,
+  type ScenarioContext,
+} from './base-scenario.js';
+import { BrowserTab } from '../actors/browser-tab.js';
+import { createLeaderLocksMock, SimBroadcastChannel } from '../core/cross-tab.js';
+import { assertNoFalseLogout } from '../asserts/no-false-logout.js';
+
+const ONE_MINUTE = 60 * 1000;
+
+function duplicateRefreshFlights(ctx: ScenarioContext): number {
+  const seen = new Map<string, number>();
+  for (const call of ctx.server.getFetchCallLog()) {
+    seen.set(call.refreshToken, (seen.get(call.refreshToken) ?? 0) + 1);
+  }
+  return [...seen.values()].filter(count => count > 1).length;
+}
+
+describe('Scenario: Multi-Tab Leader Election', () => {
+  let ctx: ScenarioContext;
+  let tabs: BrowserTab[];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: false });
+    vi.stubGlobal('navigator', { locks: createLeaderLocksMock() });
+    vi.stubGlobal('BroadcastChannel', SimBroadcastChannel);
+    tabs = [];
+  });
+
+  afterEach(() => {
+    cleanupScenario(tabs);
+    SimBroadcastChannel.open.clear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  function openTabs(count: number, onExpired?: (tabId: string) => void): void {
+    ctx.storage.set({
+      accessToken: ctx.server.issueAccessToken(),
+      refreshToken: ctx.server.issueRefreshToken(),
+      expiresAt: Date.now() + 15 * ONE_MINUTE,
+    });
+    for (let i = 1; i <= count; i++) {
+      tabs.push(
+        new BrowserTab({
+          id: `tab-${i}`,
+          storage: ctx.storage,
+          baseUrl: BASE_URL,
+          audit: ctx.audit,
+          crossTabCoordination: 'leader',
+          onSessionExpired: onExpired,
+        })
+      );
+    }
+  }
+
+  it('three tabs over two hours: one refresh per cycle, zero duplicate flights', async () => {
+    ctx = createScenarioContext('leader-steady-state', {
+      rotateRefreshTokens: true,
+      reuseDetection: true,
+      accessTokenLifetimeMs: 15 * ONE_MINUTE,
+    });
+    const expiries: string[] = [];
+    openTabs(3, tabId => expiries.push(tabId));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(tabs.map(t => t.sessionManager.getRefreshStats().crossTabRole)).toEqual([
+      'leader',
+      'follower',
+      'follower',
+    ]);
+
+    await vi.advanceTimersByTimeAsync(120 * ONE_MINUTE);
+
+    // 14-minute cadence (15m lifetime − 60s margin) → 8 cycles in 2h.
+    expect(ctx.server.getRefreshRequestCount()).toBe(8);
+    expect(duplicateRefreshFlights(ctx)).toBe(0);
+    expect(ctx.server.hadReuseDetection()).toBe(false);
+    expect(expiries).toHaveLength(0);
+
+    const leaderToken = tabs[0].sessionManager.getAccessToken();
+    for (const tab of tabs) {
+      expect(tab.sessionManager.getAccessToken()).toBe(leaderToken);
+      expect(tab.hasValidSession()).toBe(true);
+    }
+  });
+
+  it('tabs waking together after expiry produce exactly one refresh flight', async () => {
+    ctx = createScenarioContext('leader-simultaneous-wake', {
+      rotateRefreshTokens: true,
+      reuseDetection: true,
+      accessTokenLifetimeMs: 15 * ONE_MINUTE,
+    });
+    openTabs(3);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Laptop lid closed: timers never fired, wall clock jumped past expiry.
+    vi.setSystemTime(Date.now() + 16 * ONE_MINUTE);
+
+    const results = await Promise.all(tabs.map(tab => tab.makeApiCall()));
+
+    expect(results.every(r => r.success)).toBe(true);
+    expect(new Set(results.map(r => r.token)).size).toBe(1);
+    expect(ctx.server.getRefreshRequestCount()).toBe(1);
+    expect(duplicateRefreshFlights(ctx)).toBe(0);
+    expect(assertNoFalseLogout(tabs, { expectSessionLoss: false }).passed).toBe(true);
+  });
+
+  it('leader closes: a follower takes over and the session keeps renewing', async () => {
+    ctx = createScenarioContext('leader-handoff', {
+      rotateRefreshTokens: true,
+      reuseDetection: true,
+      accessTokenLifetimeMs: 15 * ONE_MINUTE,
+    });
+    openTabs(2);
+    await vi.advanceTimersByTimeAsync(20 * ONE_MINUTE);
+    const refreshesBeforeHandoff = ctx.server.getRefreshRequestCount();
+
+    tabs[0].destroy();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(tabs[1].sessionManager.getRefreshStats().crossTabRole).toBe('leader');
+
+    await vi.advanceTimersByTimeAsync(30 * ONE_MINUTE);
+
+    expect(ctx.server.getRefreshRequestCount()).toBeGreaterThan(refreshesBeforeHandoff);
+    expect(duplicateRefreshFlights(ctx)).toBe(0);
+    expect(ctx.server.hadReuseDetection()).toBe(false);
+    expect(tabs[1].hasValidSession()).toBe(true);
+  });
+});
@@ -0,0 +1,213 @@
+import type React from 'react';
+import { useAuthActions, useAuthState } from '../providers/AuthProvider';
+import type { AccountInfo } from '../services/AccountRegistry';
+
+export interface AccountSwitcherCopy {
+  title?: string;
+  addAccountButton?: string;
+  signOutButton?: string;
+  /** Shown next to the account in use. */
+  activeLabel?: string;
+}
+
+export interface AccountSwitcherStyles {
+  container?: React.CSSProperties;
+  title?: React.CSSProperties;
+  list?: React.CSSProperties;
+  item?: React.CSSProperties;
+  itemActive?: React.CSSProperties;
+  accountButton?: React.CSSProperties;
+  accountName?: React.CSSProperties;
+  accountDetail?: React.CSSProperties;
+  activeLabel?: React.CSSProperties;
+  signOutButton?: React.CSSProperties;
+  addAccountButton?: React.CSSProperties;
+}
+
+export interface AccountSwitcherProps {
+  copy?: AccountSwitcherCopy;
+  styles?: AccountSwitcherStyles;
+  className?: string;
+  /** Show a sign-out button per account. Default true. */
+  showSignOut?: boolean;
+  /** Replaces the default account label (name, then email or user type). */
+  renderAccount?: (account: AccountInfo, isActive: boolean) => React.ReactNode;
+  /** Called after switchAccount(); e.g. navigate to the account's home page. */
+  onSwitch?: (account: AccountInfo) => void;
+  /** Called after addAccount(); e.g. navigate to the login page. */
+  onAddAccount?: () => void;
+}
+
+const defaultCopy: Required<AccountSwitcherCopy> = {
+  title: 'Accounts',
+  addAccountButton: 'Add another account',
+  signOutButton: 'Sign out',
+  activeLabel: 'Current',
+};
+
+const defaultStyles: Required<AccountSwitcherStyles> = {
+  container: {
+    minWidth: '260px',
+    padding: '0.75rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+  },
+  title: {
+    fontSize: '0.875rem',
+    fontWeight: '600',
+    color: '#6b7280',
+    margin: '0 0 0.5rem',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    padding: '0.25rem 0',
+  },
+  itemActive: {
+    fontWeight: '600',
+  },
+  accountButton: {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    padding: '0.5rem',
+    backgroundColor: 'transparent',
+    border: 'none',
+    borderRadius: '6px',
+    textAlign: 'left',
+    cursor: 'pointer',
+    font: 'inherit',
+  },
+  accountName: {
+    color: '#111827',
+  },
+  accountDetail: {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+  },
+  activeLabel: {
+    fontSize: '0.75rem',
+    color: '#3b82f6',
+  },
+  signOutButton: {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: 'transparent',
+    color: '#6b7280',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  addAccountButton: {
+    width: '100%',
+    marginTop: '0.5rem',
+    padding: '0.5rem',
+    backgroundColor: 'transparent',
+    color: '#3b82f6',
+    border: '1px dashed #3b82f6',
+    borderRadius: '6px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+};
+
+/**
+ * Lists the accounts signed in on this browser (AuthConfig.multiAccount) and
+ * lets the user switch between them, add another one or sign one out.
+ * Renders nothing when multiAccount is off.
+ *
+ * @example
+ * ```tsx
+ * <AuthProvider config={{ multiAccount: true }}>
+ *   <AccountSwitcher onAddAccount={() => navigate('/login')} />
+ * </AuthProvider>
+ * ```
+ */
+export function AccountSwitcher({
+  copy = {},
+  styles = {},
+  className,
+  showSignOut = true,
+  renderAccount,
+  onSwitch,
+  onAddAccount,
+}: AccountSwitcherProps) {
+  const { accounts, activeAccountId } = useAuthState();
+  const { switchAccount, addAccount, signOutAccount } = useAuthActions();
+
+  if (activeAccountId === null) return null;
+
+  const mergedCopy = { ...defaultCopy, ...copy };
+  const mergedStyles = { ...defaultStyles, ...styles };
+
+  const handleSwitch = (account: AccountInfo) => {
+    if (account.id !== activeAccountId) switchAccount(account.id);
+    onSwitch?.(account);
+  };
+
+  const handleAdd = () => {
+    addAccount();
+    onAddAccount?.();
+  };
+
+  const defaultRenderAccount = (account: AccountInfo, isActive: boolean) => (
+    <>
+      <span style={mergedStyles.accountName}>
+        {account.name || account.email || account.userId}
+        {isActive && <span style={mergedStyles.activeLabel}> · {mergedCopy.activeLabel}</span>}
+      </span>
+      <span style={mergedStyles.accountDetail}>
+        {account.name && account.email ? account.email : account.userType}
+      </span>
+    </>
+  );
+
+  return (
+    <nav aria-label={mergedCopy.title} style={mergedStyles.container} className={className}>
+      <h2 style={mergedStyles.title}>{mergedCopy.title}</h2>
+      <ul style={mergedStyles.list}>
+        {accounts.map(account => {
+          const isActive = account.id === activeAccountId;
+          return (
+            <li
+              key={account.id}
+              style={
+                isActive ? { ...mergedStyles.item, ...mergedStyles.itemActive } : mergedStyles.item
+              }
+            >
+              <button
+                type="button"
+                aria-current={isActive ? 'true' : undefined}
+                onClick={() => handleSwitch(account)}
+                style={mergedStyles.accountButton}
+              >
+                {(renderAccount ?? defaultRenderAccount)(account, isActive)}
+              </button>
+              {showSignOut && (
+                <button
+                  type="button"
+                  aria-label={`${mergedCopy.signOutButton} ${account.name || account.email || account.userId}`}
+                  onClick={() => signOutAccount(account.id)}
+                  style={mergedStyles.signOutButton}
+                >
+                  {mergedCopy.signOutButton}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <button type="button" onClick={handleAdd} style={mergedStyles.addAccountButton}>
+        {mergedCopy.addAccountButton}
+      </button>
+    </nav>
+  );
+}
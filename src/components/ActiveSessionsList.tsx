@@ -0,0 +1,274 @@
+import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { type ActiveSessionEntry, useActiveSessions } from '../hooks/useActiveSessions';
+
+export interface ActiveSessionsListCopy {
+  title?: string;
+  /** Shown next to the device this app is running on. */
+  currentDeviceLabel?: string;
+  /** Used when a session has neither a name nor a user agent. */
+  unknownDevice?: string;
+  /** `{time}` is replaced with the formatted last activity. */
+  lastActive?: string;
+  signOutButton?: string;
+  signOutOthersButton?: string;
+  loadingMessage?: string;
+  errorMessage?: string;
+}
+
+export interface ActiveSessionsListStyles {
+  container?: React.CSSProperties;
+  title?: React.CSSProperties;
+  list?: React.CSSProperties;
+  item?: React.CSSProperties;
+  itemCurrent?: React.CSSProperties;
+  deviceInfo?: React.CSSProperties;
+  deviceName?: React.CSSProperties;
+  deviceDetail?: React.CSSProperties;
+  currentDeviceLabel?: React.CSSProperties;
+  signOutButton?: React.CSSProperties;
+  signOutOthersButton?: React.CSSProperties;
+  message?: React.CSSProperties;
+  errorText?: React.CSSProperties;
+}
+
+export interface ActiveSessionsListProps {
+  copy?: ActiveSessionsListCopy;
+  styles?: ActiveSessionsListStyles;
+  className?: string;
+  /** Base path of the sessions API. Default '/auth/sessions'. */
+  endpoint?: string;
+  /** Replaces the default device label (name or user agent, then location and last activity). */
+  renderSession?: (session: ActiveSessionEntry) => React.ReactNode;
+  /** Formats `lastActiveAt`. Default: toLocaleString(). */
+  formatTime?: (iso: string) => string;
+  /** Called after a device (or all other devices) was signed out. */
+  onRevoke?: (deviceIds: string[]) => void;
+  /** Called when loading or signing out fails. */
+  onError?: (error: Error) => void;
+}
+
+const defaultCopy: Required<ActiveSessionsListCopy> = {
+  title: 'Where you’re signed in',
+  currentDeviceLabel: 'This device',
+  unknownDevice: 'Unknown device',
+  lastActive: 'Last active {time}',
+  signOutButton: 'Sign out',
+  signOutOthersButton: 'Sign out all other devices',
+  loadingMessage: 'Loading devices…',
+  errorMessage: 'Could not load your devices',
+};
+
+const defaultStyles: Required<ActiveSessionsListStyles> = {
+  container: {
+    maxWidth: '480px',
+    padding: '1rem',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+  },
+  title: {
+    fontSize: '1rem',
+    fontWeight: '600',
+    color: '#111827',
+    margin: '0 0 0.75rem',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    padding: '0.75rem 0',
+    borderBottom: '1px solid #f3f4f6',
+  },
+  itemCurrent: {
+    fontWeight: '600',
+  },
+  deviceInfo: {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  deviceName: {
+    color: '#111827',
+  },
+  deviceDetail: {
+    fontSize: '0.75rem',
+    fontWeight: 'normal',
+    color: '#6b7280',
+  },
+  currentDeviceLabel: {
+    fontSize: '0.75rem',
+    color: '#059669',
+  },
+  signOutButton: {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: 'transparent',
+    color: '#6b7280',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  signOutOthersButton: {
+    width: '100%',
+    marginTop: '0.75rem',
+    padding: '0.5rem',
+    backgroundColor: 'transparent',
+    color: '#ef4444',
+    border: '1px solid #ef4444',
+    borderRadius: '6px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  message: {
+    fontSize: '0.875rem',
+    color: '#6b7280',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: '0.875rem',
+  },
+};
+
+/**
+ * Lists the devices the current user is signed in on, marks this one, and
+ * lets the user sign out any other device or all of them at once. Devices
+ * are matched by the refresh token's `deviceId` claim.
+ *
+ * @example
+ * ```tsx
+ * <ActiveSessionsList onRevoke={ids => toast(`Signed out ${ids.length} device(s)`)} />
+ * ```
+ */
+export function ActiveSessionsList({
+  copy = {},
+  styles = {},
+  className,
+  endpoint,
+  renderSession,
+  formatTime = iso => new Date(iso).toLocaleString(),
+  onRevoke,
+  onError,
+}: ActiveSessionsListProps) {
+  const { sessions, isLoading, error, revokeSession, revokeOtherSessions } = useActiveSessions({
+    endpoint,
+  });
+  const [pending, setPending] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (error) onErrorRef.current?.(error);
+  }, [error]);
+
+  const mergedCopy = { ...defaultCopy, ...copy };
+  const mergedStyles = { ...defaultStyles, ...styles };
+
+  const run = async (key: string, action: () => Promise<void>, revoked: string[]) => {
+    setPending(key);
+    setActionError(null);
+    try {
+      await action();
+      onRevoke?.(revoked);
+    } catch (err) {
+      const e = err instanceof Error ? err : new Error('Failed to sign out device');
+      setActionError(e.message);
+      onError?.(e);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const others = sessions.filter(session => !session.isCurrent);
+
+  const defaultRenderSession = (session: ActiveSessionEntry) => {
+    const details = [
+      session.deviceName ? session.userAgent : null,
+      session.location ?? session.ipAddress,
+      session.lastActiveAt
+        ? mergedCopy.lastActive.replace('{time}', formatTime(session.lastActiveAt))
+        : null,
+    ].filter(Boolean);
+    return (
+      <>
+        <span style={mergedStyles.deviceName}>
+          {session.deviceName || session.userAgent || mergedCopy.unknownDevice}
+          {session.isCurrent && (
+            <span style={mergedStyles.currentDeviceLabel}> · {mergedCopy.currentDeviceLabel}</span>
+          )}
+        </span>
+        {details.length > 0 && <span style={mergedStyles.deviceDetail}>{details.join(' · ')}</span>}
+      </>
+    );
+  };
+
+  if (isLoading && sessions.length === 0) {
+    return (
+      <section aria-busy="true" style={mergedStyles.container} className={className}>
+        <h2 style={mergedStyles.title}>{mergedCopy.title}</h2>
+        <p style={mergedStyles.message}>{mergedCopy.loadingMessage}</p>
+      </section>
+    );
+  }
+
+  return (
+    <section aria-label={mergedCopy.title} style={mergedStyles.container} className={className}>
+      <h2 style={mergedStyles.title}>{mergedCopy.title}</h2>
+      {error && <div style={mergedStyles.errorText}>{mergedCopy.errorMessage}</div>}
+      <ul style={mergedStyles.list}>
+        {sessions.map(session => (
+          <li
+            key={session.deviceId}
+            aria-current={session.isCurrent ? 'true' : undefined}
+            style={
+              session.isCurrent
+                ? { ...mergedStyles.item, ...mergedStyles.itemCurrent }
+                : mergedStyles.item
+            }
+          >
+            <div style={mergedStyles.deviceInfo}>
+              {(renderSession ?? defaultRenderSession)(session)}
+            </div>
+            {!session.isCurrent && (
+              <button
+                type="button"
+                aria-label={`${mergedCopy.signOutButton} ${session.deviceName || session.userAgent || mergedCopy.unknownDevice}`}
+                onClick={() =>
+                  run(session.deviceId, () => revokeSession(session.deviceId), [session.deviceId])
+                }
+                disabled={pending !== null}
+                style={mergedStyles.signOutButton}
+              >
+                {mergedCopy.signOutButton}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {actionError && <div style={mergedStyles.errorText}>{actionError}</div>}
+      {others.length > 0 && (
+        <button
+          type="button"
+          onClick={() =>
+            run(
+              'others',
+              revokeOtherSessions,
+              others.map(session => session.deviceId)
+            )
+          }
+          disabled={pending !== null}
+          style={mergedStyles.signOutOthersButton}
+        >
+          {mergedCopy.signOutOthersButton}
+        </button>
+      )}
+    </section>
+  );
+}
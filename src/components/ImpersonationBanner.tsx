@@ -0,0 +1,130 @@
+import type React from 'react';
+import { useState } from 'react';
+import { useAuthActions, useAuthState } from '../providers/AuthProvider';
+import type { User } from '../types/api';
+
+export interface ImpersonationBannerCopy {
+  /** `{user}` is replaced with the impersonated user's name or email. */
+  message?: string;
+  stopButton?: string;
+}
+
+export interface ImpersonationBannerStyles {
+  container?: React.CSSProperties;
+  message?: React.CSSProperties;
+  stopButton?: React.CSSProperties;
+}
+
+export interface ImpersonationBannerProps {
+  copy?: ImpersonationBannerCopy;
+  styles?: ImpersonationBannerStyles;
+  className?: string;
+  /** Called after stopImpersonating() restores the superuser session. */
+  onStop?: () => void;
+  /** Called when stopImpersonating() fails (e.g. the superuser session expired). */
+  onError?: (error: Error) => void;
+}
+
+const defaultCopy: Required<ImpersonationBannerCopy> = {
+  message: 'You are acting as {user}.',
+  stopButton: 'Stop impersonating',
+};
+
+const defaultStyles: Required<ImpersonationBannerStyles> = {
+  container: {
+    position: 'sticky',
+    top: 0,
+    zIndex: 9999,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '1rem',
+    padding: '0.5rem 1rem',
+    backgroundColor: '#fef3c7',
+    borderBottom: '1px solid #f59e0b',
+    color: '#92400e',
+    fontSize: '0.875rem',
+  },
+  message: {
+    margin: 0,
+  },
+  stopButton: {
+    padding: '0.25rem 0.75rem',
+    backgroundColor: '#92400e',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '0.875rem',
+    fontWeight: '500',
+    cursor: 'pointer',
+  },
+};
+
+function describeUser(user: User | null, fallback: string): string {
+  const name = [user?.name, user?.lastName].filter(Boolean).join(' ');
+  return name || user?.email || fallback;
+}
+
+/**
+ * Sticky banner shown while a SUPERUSER is impersonating another user, with
+ * a button that restores the superuser session. Renders nothing otherwise.
+ *
+ * @example
+ * ```tsx
+ * <AuthProvider config={{ impersonationEndpoint: '/admin/impersonate' }}>
+ *   <ImpersonationBanner onStop={() => navigate('/admin/users')} />
+ *   <App />
+ * </AuthProvider>
+ * ```
+ */
+export function ImpersonationBanner({
+  copy = {},
+  styles = {},
+  className,
+  onStop,
+  onError,
+}: ImpersonationBannerProps) {
+  const { impersonation, currentUser } = useAuthState();
+  const { stopImpersonating } = useAuthActions();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!impersonation) return null;
+
+  const mergedCopy = { ...defaultCopy, ...copy };
+  const mergedStyles = { ...defaultStyles, ...styles };
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonating();
+      onStop?.();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to stop impersonating');
+      if (onError) onError(error);
+      else if (process.env.NODE_ENV === 'development') {
+        console.error('[ImpersonationBanner] Failed to stop impersonating:', error);
+      }
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div role="status" style={mergedStyles.container} className={className}>
+      <p style={mergedStyles.message}>
+        {mergedCopy.message.replace(
+          '{user}',
+          describeUser(currentUser, impersonation.targetUserId)
+        )}
+      </p>
+      <button
+        type="button"
+        onClick={handleStop}
+        disabled={isStopping}
+        style={mergedStyles.stopButton}
+      >
+        {mergedCopy.stopButton}
+      </button>
+    </div>
+  );
+}
@@ -36,7 +36,7 @@ export interface LoginFormProps {
   styles?: LoginFormStyles;
   icons?: LoginFormIcons;
   onSuccess?: (data: any) => void;
-  onError?: (error: string) => void;
+  onError?: (error: string, cause?: unknown) => void;
   onForgotPassword?: () => void;
   onSignupClick?: () => void;
   onMagicLinkClick?: () => void;
@@ -106,6 +106,7 @@ export function LoginForm({
       return missing.length === 0;
     },
     submit: () => login({ username, password }),
+    serverFields: { email: 'username', phoneNumber: 'username' },
     onSuccess,
     onError,
   });
@@ -142,6 +143,9 @@ export function LoginForm({
             style={getInputStyle('username')}
             disabled={form.loading}
           />
+          {form.fieldMessages.username && (
+            <div style={mergedStyles.fieldErrorText}>{form.fieldMessages.username}</div>
+          )}
         </div>
 
         <div style={mergedStyles.fieldGroup}>
@@ -172,6 +176,9 @@ export function LoginForm({
               {showPassword ? mergedIcons.hidePassword : mergedIcons.showPassword}
             </button>
           </div>
+          {form.fieldMessages.password && (
+            <div style={mergedStyles.fieldErrorText}>{form.fieldMessages.password}</div>
+          )}
         </div>
 
         <button type="submit" disabled={isDisabled} style={buttonStyle}>
@@ -36,7 +36,7 @@ export interface MagicLinkFormProps {
   copy?: MagicLinkFormCopy;
   styles?: MagicLinkFormStyles;
   onSuccess?: (data: any) => void;
-  onError?: (error: string) => void;
+  onError?: (error: string, cause?: unknown) => void;
   onLoginClick?: () => void;
   onSignupClick?: () => void;
   showTraditionalLinks?: boolean;
@@ -146,7 +146,7 @@ export function MagicLinkForm({
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to verify magic link';
         form.setError(message);
-        onError?.(message);
+        onError?.(message, err);
       } finally {
         setVerifying(false);
       }
@@ -199,6 +199,9 @@ export function MagicLinkForm({
             style={getInputStyle('email')}
             disabled={form.loading || verifying}
           />
+          {form.fieldMessages.email && (
+            <div style={mergedStyles.fieldErrorText}>{form.fieldMessages.email}</div>
+          )}
         </div>
 
         {!showNameFields && (
@@ -230,6 +233,9 @@ export function MagicLinkForm({
                 style={getInputStyle('name')}
                 disabled={form.loading || verifying}
               />
+              {form.fieldMessages.name && (
+                <div style={mergedStyles.fieldErrorText}>{form.fieldMessages.name}</div>
+              )}
             </div>
 
             <div style={mergedStyles.fieldGroup}>
@@ -40,7 +40,7 @@ export interface PasswordRecoveryFormProps {
   mode?: 'request' | 'reset';
   token?: string;
   onSuccess?: (data?: any) => void;
-  onError?: (error: string) => void;
+  onError?: (error: string, cause?: unknown) => void;
   onBackToLogin?: () => void;
   onModeChange?: (mode: 'request' | 'reset') => void;
   className?: string;
@@ -143,6 +143,7 @@ export function PasswordRecoveryForm({
       await confirmPasswordReset({ token, newPassword });
       setSuccess(mergedCopy.resetSuccessMessage);
     },
+    serverFields: { password: 'newPassword' },
     onSuccess: () => onSuccess?.(),
     onError,
   });
@@ -180,6 +181,9 @@ export function PasswordRecoveryForm({
               style={getInputStyle('token')}
               disabled={resetForm.loading}
             />
+            {resetForm.fieldMessages.token && (
+              <div style={mergedStyles.fieldErrorText}>{resetForm.fieldMessages.token}</div>
+            )}
           </div>
 
           <div style={mergedStyles.fieldGroup}>
@@ -195,6 +199,9 @@ export function PasswordRecoveryForm({
               style={getInputStyle('newPassword')}
               disabled={resetForm.loading}
             />
+            {resetForm.fieldMessages.newPassword && (
+              <div style={mergedStyles.fieldErrorText}>{resetForm.fieldMessages.newPassword}</div>
+            )}
           </div>
 
           <div style={mergedStyles.fieldGroup}>
@@ -213,6 +220,11 @@ export function PasswordRecoveryForm({
               style={getInputStyle('confirmPassword')}
               disabled={resetForm.loading}
             />
+            {resetForm.fieldMessages.confirmPassword && (
+              <div style={mergedStyles.fieldErrorText}>
+                {resetForm.fieldMessages.confirmPassword}
+              </div>
+            )}
           </div>
 
           <button type="submit" disabled={isDisabled} style={buttonStyle}>
@@ -272,6 +284,9 @@ export function PasswordRecoveryForm({
             style={getInputStyle('email')}
             disabled={requestForm.loading}
           />
+          {requestForm.fieldMessages.email && (
+            <div style={mergedStyles.fieldErrorText}>{requestForm.fieldMessages.email}</div>
+          )}
         </div>
 
         <button type="submit" disabled={isDisabled} style={buttonStyle}>
@@ -0,0 +1,302 @@
+import type React from 'react';
+import { type ReactNode, useState } from 'react';
+import { useAuthForm } from '../hooks/useAuthForm';
+import { useAuthActions, useAuthState } from '../providers/AuthProvider';
+
+export interface ReauthGateCopy {
+  title?: string;
+  message?: string;
+  passwordLabel?: string;
+  passwordPlaceholder?: string;
+  submitButton?: string;
+  cancelButton?: string;
+  errorMessage?: string;
+  magicLinkButton?: string;
+  /** `{email}` is replaced with the address the link was sent to. */
+  magicLinkSent?: string;
+}
+
+export interface ReauthGateStyles {
+  overlay?: React.CSSProperties;
+  dialog?: React.CSSProperties;
+  title?: React.CSSProperties;
+  message?: React.CSSProperties;
+  form?: React.CSSProperties;
+  label?: React.CSSProperties;
+  input?: React.CSSProperties;
+  errorText?: React.CSSProperties;
+  successText?: React.CSSProperties;
+  buttonContainer?: React.CSSProperties;
+  submitButton?: React.CSSProperties;
+  cancelButton?: React.CSSProperties;
+  magicLinkButton?: React.CSSProperties;
+}
+
+export interface ReauthGateProps {
+  /** Rendered as-is; the prompt is shown on top while a re-authentication is pending. */
+  children?: ReactNode;
+  copy?: ReauthGateCopy;
+  styles?: ReauthGateStyles;
+  className?: string;
+  /**
+   * Offer to email a sign-in link instead of asking for the password. The
+   * pending action continues once the link is opened (in any tab). Default false.
+   */
+  allowMagicLink?: boolean;
+  /** `frontendUrl` for the magic link (your verify route). Defaults to the current URL. */
+  magicLinkUrl?: string;
+  /** Called after the user re-authenticated with their password. */
+  onSuccess?: () => void;
+  /** Called after the user dismissed the prompt. */
+  onCancel?: () => void;
+}
+
+const defaultCopy: Required<ReauthGateCopy> = {
+  title: 'Confirm it’s you',
+  message: 'For your security, enter your password to continue.',
+  passwordLabel: 'Password',
+  passwordPlaceholder: 'Enter your password',
+  submitButton: 'Continue',
+  cancelButton: 'Cancel',
+  errorMessage: 'Invalid password',
+  magicLinkButton: 'Email me a sign-in link instead',
+  magicLinkSent: 'We sent a sign-in link to {email}. Open it to continue.',
+};
+
+const defaultStyles: Required<ReauthGateStyles> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 10000,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    maxWidth: '400px',
+    width: '100%',
+    padding: '2rem',
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+  },
+  title: {
+    fontSize: '1.25rem',
+    fontWeight: 'bold',
+    marginBottom: '0.5rem',
+    color: '#333333',
+  },
+  message: {
+    fontSize: '1rem',
+    color: '#6b7280',
+    marginBottom: '1.5rem',
+    lineHeight: '1.5',
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+  },
+  label: {
+    fontSize: '0.875rem',
+    fontWeight: '500',
+    color: '#374151',
+  },
+  input: {
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '1rem',
+    outline: 'none',
+    width: '100%',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: '0.875rem',
+  },
+  successText: {
+    color: '#059669',
+    fontSize: '0.875rem',
+  },
+  buttonContainer: {
+    display: 'flex',
+    gap: '0.75rem',
+    justifyContent: 'flex-end',
+    marginTop: '1rem',
+  },
+  submitButton: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#3b82f6',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '1rem',
+    fontWeight: '500',
+    cursor: 'pointer',
+  },
+  cancelButton: {
+    padding: '0.75rem 1rem',
+    backgroundColor: 'transparent',
+    color: '#3b82f6',
+    border: '1px solid #3b82f6',
+    borderRadius: '6px',
+    fontSize: '1rem',
+    fontWeight: '500',
+    cursor: 'pointer',
+  },
+  magicLinkButton: {
+    marginTop: '1rem',
+    padding: 0,
+    backgroundColor: 'transparent',
+    color: '#3b82f6',
+    border: 'none',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+    textDecoration: 'underline',
+  },
+};
+
+/**
+ * Step-up prompt for requireRecentAuth(). Mount it once (it can wrap the
+ * app); while a sensitive action waits for a fresh login it asks for the
+ * password — or emails a sign-in link — and the action continues once the
+ * user has confirmed. Cancelling rejects the action with
+ * ReauthenticationRequiredError.
+ *
+ * @example
+ * ```tsx
+ * <ReauthGate allowMagicLink magicLinkUrl={`${origin}/auth/verify`}>
+ *   <App />
+ * </ReauthGate>
+ *
+ * // elsewhere
+ * await requireRecentAuth(5 * 60_000);
+ * await userApi.deleteUser(id);
+ * ```
+ */
+export function ReauthGate({
+  children,
+  copy = {},
+  styles = {},
+  className,
+  allowMagicLink = false,
+  magicLinkUrl,
+  onSuccess,
+  onCancel,
+}: ReauthGateProps) {
+  const { reauthRequest, currentUser } = useAuthState();
+  const { reauthenticate, cancelReauthentication, sendMagicLink } = useAuthActions();
+  const [password, setPassword] = useState('');
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null);
+
+  const mergedCopy = { ...defaultCopy, ...copy };
+  const mergedStyles = { ...defaultStyles, ...styles };
+
+  const reset = () => {
+    setPassword('');
+    setMagicLinkSentTo(null);
+  };
+
+  const form = useAuthForm({
+    submit: () => reauthenticate({ password }),
+    defaultErrorMessage: mergedCopy.errorMessage,
+    validate: () => password.length > 0,
+    onSuccess: () => {
+      reset();
+      onSuccess?.();
+    },
+  });
+
+  const magicLinkForm = useAuthForm({
+    submit: async () => {
+      const email = currentUser?.email;
+      if (!email) throw new Error(mergedCopy.errorMessage);
+      await sendMagicLink({
+        email,
+        frontendUrl: magicLinkUrl ?? window.location.href,
+        tenantId: currentUser?.tenantId ?? undefined,
+      });
+      return email;
+    },
+    defaultErrorMessage: mergedCopy.errorMessage,
+    onSuccess: email => setMagicLinkSentTo(email),
+  });
+
+  const handleCancel = () => {
+    reset();
+    form.resetErrors();
+    magicLinkForm.resetErrors();
+    cancelReauthentication();
+    onCancel?.();
+  };
+
+  const error = form.error || magicLinkForm.error;
+
+  return (
+    <>
+      {children}
+      {reauthRequest && (
+        <div style={mergedStyles.overlay} className={className}>
+          <div
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="reauth-gate-title"
+            style={mergedStyles.dialog}
+          >
+            <h2 id="reauth-gate-title" style={mergedStyles.title}>
+              {mergedCopy.title}
+            </h2>
+            <p style={mergedStyles.message}>{mergedCopy.message}</p>
+            <form onSubmit={form.handleSubmit} style={mergedStyles.form}>
+              <label htmlFor="reauth-gate-password" style={mergedStyles.label}>
+                {mergedCopy.passwordLabel}
+              </label>
+              <input
+                id="reauth-gate-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                placeholder={mergedCopy.passwordPlaceholder}
+                disabled={form.loading}
+                style={mergedStyles.input}
+              />
+              {form.fieldMessages.password && (
+                <div style={mergedStyles.errorText}>{form.fieldMessages.password}</div>
+              )}
+              {error && <div style={mergedStyles.errorText}>{error}</div>}
+              {magicLinkSentTo && (
+                <div style={mergedStyles.successText}>
+                  {mergedCopy.magicLinkSent.replace('{email}', magicLinkSentTo)}
+                </div>
+              )}
+              <div style={mergedStyles.buttonContainer}>
+                <button type="button" onClick={handleCancel} style={mergedStyles.cancelButton}>
+                  {mergedCopy.cancelButton}
+                </button>
+                <button
+                  type="submit"
+                  disabled={form.loading || !password}
+                  style={mergedStyles.submitButton}
+                >
+                  {mergedCopy.submitButton}
+                </button>
+              </div>
+            </form>
+            {allowMagicLink && currentUser?.email && !magicLinkSentTo && (
+              <button
+                type="button"
+                onClick={() => magicLinkForm.handleSubmit()}
+                disabled={magicLinkForm.loading}
+                style={mergedStyles.magicLinkButton}
+              >
+                {mergedCopy.magicLinkButton}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,167 @@
+import type React from 'react';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import { useAuthActions } from '../providers/AuthProvider';
+
+export interface SessionTimeoutWarningCopy {
+  title?: string;
+  /** `{time}` is replaced with the remaining time as m:ss. */
+  message?: string;
+  stayButton?: string;
+  logoutButton?: string;
+}
+
+export interface SessionTimeoutWarningStyles {
+  overlay?: React.CSSProperties;
+  dialog?: React.CSSProperties;
+  title?: React.CSSProperties;
+  message?: React.CSSProperties;
+  buttonContainer?: React.CSSProperties;
+  stayButton?: React.CSSProperties;
+  logoutButton?: React.CSSProperties;
+}
+
+export interface SessionTimeoutWarningProps {
+  copy?: SessionTimeoutWarningCopy;
+  styles?: SessionTimeoutWarningStyles;
+  className?: string;
+  /** Called after the countdown is reset by "stay signed in". */
+  onStay?: () => void;
+  /** Replaces the default sign-out (useAuthActions().logout). */
+  onLogout?: () => void;
+}
+
+const defaultCopy: Required<SessionTimeoutWarningCopy> = {
+  title: 'Are you still there?',
+  message: 'For your security, you will be signed out in {time} due to inactivity.',
+  stayButton: 'Stay signed in',
+  logoutButton: 'Sign out',
+};
+
+const defaultStyles: Required<SessionTimeoutWarningStyles> = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 10000,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    maxWidth: '400px',
+    width: '100%',
+    padding: '2rem',
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: '1.25rem',
+    fontWeight: 'bold',
+    marginBottom: '1rem',
+    color: '#333333',
+  },
+  message: {
+    fontSize: '1rem',
+    color: '#6b7280',
+    marginBottom: '1.5rem',
+    lineHeight: '1.5',
+  },
+  buttonContainer: {
+    display: 'flex',
+    gap: '0.75rem',
+    justifyContent: 'center',
+  },
+  stayButton: {
+    padding: '0.75rem 1rem',
+    backgroundColor: '#3b82f6',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '1rem',
+    fontWeight: '500',
+    cursor: 'pointer',
+  },
+  logoutButton: {
+    padding: '0.75rem 1rem',
+    backgroundColor: 'transparent',
+    color: '#3b82f6',
+    border: '1px solid #3b82f6',
+    borderRadius: '6px',
+    fontSize: '1rem',
+    fontWeight: '500',
+    cursor: 'pointer',
+  },
+};
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Modal shown during the idle-timeout warning window (AuthConfig.idleTimeout
+ * + idleWarningTime). Renders nothing outside that window. "Stay signed in"
+ * resets the countdown in every tab; "Sign out" logs out immediately.
+ *
+ * @example
+ * ```tsx
+ * <AuthProvider config={{ idleTimeout: 15 * 60_000, idleWarningTime: 60_000 }}>
+ *   <SessionTimeoutWarning />
+ *   <App />
+ * </AuthProvider>
+ * ```
+ */
+export function SessionTimeoutWarning({
+  copy = {},
+  styles = {},
+  className,
+  onStay,
+  onLogout,
+}: SessionTimeoutWarningProps) {
+  const { isWarning, remainingMs, reset } = useIdleTimer();
+  const { logout } = useAuthActions();
+
+  if (!isWarning || remainingMs === null) return null;
+
+  const mergedCopy = { ...defaultCopy, ...copy };
+  const mergedStyles = { ...defaultStyles, ...styles };
+
+  const handleStay = () => {
+    reset();
+    onStay?.();
+  };
+
+  return (
+    <div style={mergedStyles.overlay} className={className}>
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-timeout-warning-title"
+        style={mergedStyles.dialog}
+      >
+        <h2 id="session-timeout-warning-title" style={mergedStyles.title}>
+          {mergedCopy.title}
+        </h2>
+        <p style={mergedStyles.message}>
+          {mergedCopy.message.replace('{time}', formatRemaining(remainingMs))}
+        </p>
+        <div style={mergedStyles.buttonContainer}>
+          <button type="button" onClick={handleStay} style={mergedStyles.stayButton}>
+            {mergedCopy.stayButton}
+          </button>
+          <button
+            type="button"
+            onClick={() => (onLogout ? onLogout() : logout())}
+            style={mergedStyles.logoutButton}
+          >
+            {mergedCopy.logoutButton}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
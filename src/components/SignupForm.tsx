@@ -44,7 +44,7 @@ export interface SignupFormProps {
   styles?: SignupFormStyles;
   signupType?: SignupType;
   onSuccess?: (data: any) => void;
-  onError?: (error: string) => void;
+  onError?: (error: string, cause?: unknown) => void;
   onLoginClick?: () => void;
   onMagicLinkClick?: () => void;
   showLoginLink?: boolean;
@@ -176,6 +176,11 @@ export function SignupForm({
     ...(form.fieldErrors[field] ? mergedStyles.inputError : {}),
   });
 
+  const renderFieldMessage = (field: SignupField) =>
+    form.fieldMessages[field] && (
+      <div style={mergedStyles.fieldErrorText}>{form.fieldMessages[field]}</div>
+    );
+
   const isDisabled = !isFormValid || form.loading;
   const buttonStyle = {
     ...mergedStyles.button,
@@ -208,6 +213,7 @@ export function SignupForm({
             style={getInputStyle('name')}
             disabled={form.loading}
           />
+          {renderFieldMessage('name')}
         </div>
 
         <div style={mergedStyles.fieldGroup}>
@@ -239,6 +245,7 @@ export function SignupForm({
             style={getInputStyle('email')}
             disabled={form.loading}
           />
+          {renderFieldMessage('email')}
         </div>
 
         <div style={mergedStyles.fieldGroup}>
@@ -256,6 +263,7 @@ export function SignupForm({
             style={getInputStyle('phoneNumber')}
             disabled={form.loading}
           />
+          {renderFieldMessage('phoneNumber')}
         </div>
 
         <div style={mergedStyles.hintText}>{mergedCopy.contactMethodHint}</div>
@@ -275,6 +283,7 @@ export function SignupForm({
             style={getInputStyle('password')}
             disabled={form.loading}
           />
+          {renderFieldMessage('password')}
         </div>
 
         <div style={mergedStyles.fieldGroup}>
@@ -295,6 +304,7 @@ export function SignupForm({
             style={getInputStyle('confirmPassword')}
             disabled={form.loading}
           />
+          {renderFieldMessage('confirmPassword')}
         </div>
 
         {signupType === 'tenant' && (
@@ -313,6 +323,7 @@ export function SignupForm({
               style={getInputStyle('tenantName')}
               disabled={form.loading}
             />
+            {renderFieldMessage('tenantName')}
           </div>
         )}
 
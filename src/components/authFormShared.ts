@@ -14,6 +14,7 @@ export interface AuthFormBaseStyles {
   buttonDisabled?: React.CSSProperties;
   buttonLoading?: React.CSSProperties;
   errorText?: React.CSSProperties;
+  fieldErrorText?: React.CSSProperties;
   linkContainer?: React.CSSProperties;
   link?: React.CSSProperties;
   divider?: React.CSSProperties;
@@ -120,6 +121,10 @@ export const baseFormStyles: Required<AuthFormBaseStyles> = {
     textAlign: 'center',
     marginTop: '0.5rem',
   },
+  fieldErrorText: {
+    color: '#ef4444',
+    fontSize: '0.75rem',
+  },
   linkContainer: {
     textAlign: 'center',
     marginTop: '1rem',
@@ -0,0 +1,133 @@
+/**
+ * Error classes for failed HttpService requests. HttpError carries the
+ * parsed ApiError body so callers can branch on `code`/`type` and forms can
+ * show the server's per-field validation messages.
+ */
+
+import type { ApiErrorType, ApiFieldError } from '../types/api';
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+}
+
+function readDetail(entry: unknown): ApiFieldError | null {
+  const record = asRecord(entry);
+  if (!record) return null;
+  const path = record.field ?? record.path ?? record.property;
+  const field = Array.isArray(path) ? path.join('.') : path;
+  if (typeof field !== 'string' || !field || typeof record.message !== 'string') return null;
+  return {
+    field,
+    message: record.message,
+    ...(typeof record.code === 'string' && { code: record.code }),
+  };
+}
+
+/**
+ * Field failures from `error.details` (ApiError), or the `details`/`errors`
+ * lists and `{ field: message | message[] }` maps other backends send.
+ */
+function readDetails(body: Record<string, unknown> | null): ApiFieldError[] {
+  const source =
+    asRecord(body?.error)?.details ??
+    body?.details ??
+    body?.errors ??
+    asRecord(body?.error)?.fields;
+  if (Array.isArray(source)) {
+    return source.map(readDetail).filter((detail): detail is ApiFieldError => detail !== null);
+  }
+  const map = asRecord(source);
+  if (!map) return [];
+  return Object.entries(map).flatMap(([field, value]) => {
+    const message = Array.isArray(value) ? value[0] : value;
+    return typeof message === 'string' ? [{ field, message }] : [];
+  });
+}
+
+/**
+ * Thrown by HttpService for every non-2xx response. `message` is
+ * `HTTP <status>: <statusText>`; the server's own message, when the body has
+ * one, is `serverMessage`. `body` is the parsed JSON (or text) body and
+ * `response` the raw Response, whose body has already been read.
+ */
+export class HttpError extends Error {
+  public readonly status: number;
+  public readonly statusText: string;
+  /** The message from the body (`message`, `error.message` or a string `error`). */
+  public readonly serverMessage?: string;
+  /** ApiError `error.code`, e.g. 'INVALID_CREDENTIALS'. */
+  public readonly code?: string;
+  public readonly type?: ApiErrorType;
+  /** Per-field validation failures; empty when the body names none. */
+  public readonly details: ApiFieldError[];
+  public readonly body: unknown;
+  public readonly response: Response;
+
+  constructor(response: Response, body: unknown) {
+    const record = asRecord(body);
+    const error = asRecord(record?.error);
+    // Older backends put the message in `error` as a plain string.
+    const serverMessage = [record?.message, error?.message, record?.error].find(
+      value => typeof value === 'string' && value !== ''
+    ) as string | undefined;
+    super(`HTTP ${response.status}: ${response.statusText}`);
+    this.name = 'HttpError';
+    this.status = response.status;
+    this.statusText = response.statusText;
+    if (serverMessage !== undefined) this.serverMessage = serverMessage;
+    const code = error?.code ?? record?.code;
+    if (typeof code === 'string') this.code = code;
+    const type = record?.type ?? error?.type;
+    if (typeof type === 'string') this.type = type as ApiErrorType;
+    this.details = readDetails(record);
+    this.body = body;
+    this.response = response;
+  }
+
+  /** The first message for each field in `details`. */
+  getFieldErrors(): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const { field, message } of this.details) fields[field] ??= message;
+    return fields;
+  }
+}
+
+/**
+ * Thrown when the caller's `RequestOptions.signal` aborts a request, in
+ * flight or while it waits to be retried. `reason` is the signal's reason.
+ * Timeouts are not aborts and keep their own error.
+ */
+export class RequestAbortedError extends Error {
+  public readonly method: string;
+  public readonly url: string;
+  public readonly reason: unknown;
+
+  constructor(method: string, url: string, reason?: unknown) {
+    super(`Request aborted: ${method} ${url}`);
+    this.name = 'RequestAbortedError';
+    this.method = method;
+    this.url = url;
+    this.reason = reason;
+  }
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+  return error instanceof HttpError;
+}
+
+/** A rejected payload: `type: 'VALIDATION'`, a 422, or a body with field details. */
+export function isValidationError(error: unknown): error is HttpError {
+  return (
+    isHttpError(error) &&
+    (error.type === 'VALIDATION' || error.status === 422 || error.details.length > 0)
+  );
+}
+
+/** Missing or rejected credentials: `type: 'AUTH'` or a 401. */
+export function isAuthError(error: unknown): error is HttpError {
+  return isHttpError(error) && (error.type === 'AUTH' || error.status === 401);
+}
+
+export function isRequestAbortedError(error: unknown): error is RequestAbortedError {
+  return error instanceof RequestAbortedError;
+}
@@ -7,7 +7,12 @@
  * - Transient refresh errors (network issues → system keeps retrying)
  */
 
-export type SessionExpiredReason = 'token_expired' | 'token_invalid' | 'user_inactive';
+export type SessionExpiredReason =
+  | 'token_expired'
+  | 'token_invalid'
+  | 'user_inactive'
+  | 'idle_timeout'
+  | 'absolute_lifetime_exceeded';
 
 /**
  * Thrown when the refresh token is definitively invalid and the session must end.
@@ -21,6 +26,8 @@ export class SessionExpiredError extends Error {
       token_expired: 'Refresh token has expired',
       token_invalid: 'Refresh token is invalid',
       user_inactive: 'User account is inactive',
+      idle_timeout: 'Session ended after a period of inactivity',
+      absolute_lifetime_exceeded: 'Session reached its maximum lifetime',
     };
     super(message || defaultMessages[reason]);
     this.name = 'SessionExpiredError';
@@ -60,6 +67,55 @@ export class TokenRefreshError extends Error {
   }
 }
 
+export type TokenVerificationFailure =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'key_unavailable'
+  | 'invalid_signature';
+
+/**
+ * Thrown (as a rejection of setVerifiedTokens) when signature verification is enabled
+ * and a token cannot be verified. The tokens are NOT stored.
+ * `key_unavailable` is the only reason that may succeed on a later attempt.
+ */
+export class TokenVerificationError extends Error {
+  public readonly reason: TokenVerificationFailure;
+
+  constructor(reason: TokenVerificationFailure, message?: string) {
+    const defaultMessages: Record<TokenVerificationFailure, string> = {
+      malformed: 'Token is not a well-formed JWT',
+      unsupported_algorithm: 'Token is signed with an unsupported algorithm',
+      key_unavailable: 'Public key for token verification is unavailable',
+      invalid_signature: 'Token signature is invalid',
+    };
+    super(message || defaultMessages[reason]);
+    this.name = 'TokenVerificationError';
+    this.reason = reason;
+  }
+}
+
+export type ReauthenticationFailure = 'no_session' | 'cancelled' | 'session_ended';
+
+/**
+ * Rejection of requireRecentAuth() when the user did not re-authenticate:
+ * there was no session to step up, the prompt was cancelled, or the session
+ * ended while the prompt was open. The guarded action must not run.
+ */
+export class ReauthenticationRequiredError extends Error {
+  public readonly reason: ReauthenticationFailure;
+
+  constructor(reason: ReauthenticationFailure, message?: string) {
+    const defaultMessages: Record<ReauthenticationFailure, string> = {
+      no_session: 'Sign in to continue',
+      cancelled: 'Re-authentication was cancelled',
+      session_ended: 'Session ended before re-authentication completed',
+    };
+    super(message || defaultMessages[reason]);
+    this.name = 'ReauthenticationRequiredError';
+    this.reason = reason;
+  }
+}
+
 /**
  * Thrown synchronously when a configuration value is invalid (wrong type,
  * out of range, dangerous scheme). Raised at construction time so callers
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuthActions, useAuthState } from '../providers/AuthProvider';
+import { SessionsApiService } from '../services/SessionsApiService';
+import type { ActiveSession } from '../types/api';
+
+interface UseActiveSessionsOptions {
+  /** Base path of the sessions API. Default '/auth/sessions'. */
+  endpoint?: string;
+}
+
+export interface ActiveSessionEntry extends ActiveSession {
+  /** True for the device this app is running on. */
+  isCurrent: boolean;
+}
+
+export interface UseActiveSessionsReturn {
+  /** The current device first, then the others as returned by the API. */
+  sessions: ActiveSessionEntry[];
+  /** This device's id (refresh token `deviceId` claim); null if the token has none. */
+  currentDeviceId: string | null;
+  isLoading: boolean;
+  error: Error | null;
+  reload: () => Promise<void>;
+  renameSession: (deviceId: string, deviceName: string) => Promise<void>;
+  /** Sign a device out. Revoking the current device is the same as logout(). */
+  revokeSession: (deviceId: string) => Promise<void>;
+  /** Sign out every device except this one. */
+  revokeOtherSessions: () => Promise<void>;
+}
+
+/**
+ * Devices the current user is signed in on ("where am I logged in?"). Loads
+ * once the session is authenticated; mutations update the list in place.
+ */
+export function useActiveSessions(options: UseActiveSessionsOptions = {}): UseActiveSessionsReturn {
+  const { endpoint } = options;
+  const { authenticatedHttpService, sessionManager, isAuthenticated } = useAuthState();
+  const { logout } = useAuthActions();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const api = useMemo(
+    () => new SessionsApiService(authenticatedHttpService, endpoint),
+    [authenticatedHttpService, endpoint]
+  );
+  const currentDeviceId = isAuthenticated ? sessionManager.getDeviceId() : null;
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSessions((await api.getSessions()).items);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load sessions'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      reload();
+    } else {
+      setSessions([]);
+    }
+  }, [isAuthenticated, reload]);
+
+  const renameSession = useCallback(
+    async (deviceId: string, deviceName: string) => {
+      const updated = await api.renameSession(deviceId, { deviceName });
+      setSessions(prev =>
+        prev.map(session =>
+          session.deviceId === deviceId ? { ...session, ...updated, deviceName } : session
+        )
+      );
+    },
+    [api]
+  );
+
+  const revokeSession = useCallback(
+    async (deviceId: string) => {
+      if (deviceId === currentDeviceId) {
+        logout();
+        return;
+      }
+      await api.revokeSession(deviceId);
+      setSessions(prev => prev.filter(session => session.deviceId !== deviceId));
+    },
+    [api, currentDeviceId, logout]
+  );
+
+  const revokeOtherSessions = useCallback(async () => {
+    if (!currentDeviceId) {
+      throw new Error('[useActiveSessions] The current token carries no deviceId');
+    }
+    await api.revokeOtherSessions({ currentDeviceId });
+    setSessions(prev => prev.filter(session => session.deviceId === currentDeviceId));
+  }, [api, currentDeviceId]);
+
+  const entries = useMemo(() => {
+    const marked = sessions.map(session => ({
+      ...session,
+      isCurrent: session.deviceId === currentDeviceId,
+    }));
+    return [...marked.filter(s => s.isCurrent), ...marked.filter(s => !s.isCurrent)];
+  }, [sessions, currentDeviceId]);
+
+  return {
+    sessions: entries,
+    currentDeviceId,
+    isLoading,
+    error,
+    reload,
+    renameSession,
+    revokeSession,
+    revokeOtherSessions,
+  };
+}
@@ -1,11 +1,18 @@
 import { useCallback, useState } from 'react';
+import { isHttpError, isValidationError } from '../errors/HttpError';
 
-export interface UseAuthFormOptions<TResult> {
+export interface UseAuthFormOptions<TResult, TField extends string = string> {
   submit: () => Promise<TResult>;
   defaultErrorMessage: string;
   validate?: () => boolean;
   onSuccess?: (result: TResult) => void;
-  onError?: (errorMessage: string) => void;
+  onError?: (errorMessage: string, error: unknown) => void;
+  /**
+   * Maps field names in a validation HttpError's `details` to form fields,
+   * e.g. `{ email: 'username' }`. Details naming a form field directly need
+   * no entry; details that match no field only show in `error`.
+   */
+  serverFields?: Partial<Record<string, TField>>;
 }
 
 export interface UseAuthFormReturn<TResult, TField extends string> {
@@ -13,42 +20,53 @@ export interface UseAuthFormReturn<TResult, TField extends string> {
   error: string;
   setError: (message: string) => void;
   fieldErrors: Partial<Record<TField, boolean>>;
+  /** Server validation messages per field, from the last failed submit. */
+  fieldMessages: Partial<Record<TField, string>>;
   setFieldError: (field: TField, value: boolean) => void;
   clearFieldError: (field: TField) => void;
   resetErrors: () => void;
   handleSubmit: (e?: React.FormEvent) => Promise<TResult | undefined>;
 }
 
+function withoutField<TField extends string, TValue>(
+  prev: Partial<Record<TField, TValue>>,
+  field: TField
+): Partial<Record<TField, TValue>> {
+  if (prev[field] === undefined) return prev;
+  const next = { ...prev };
+  delete next[field];
+  return next;
+}
+
 /**
  * Unified form state + submission handler shared across auth forms.
  * Provides loading/error state, field-level error tracking, and a handleSubmit
- * that runs validate → submit → success/error callbacks.
+ * that runs validate → submit → success/error callbacks. Validation errors
+ * from the server mark the fields they name and fill `fieldMessages`.
  */
 export function useAuthForm<TResult = unknown, TField extends string = string>(
-  options: UseAuthFormOptions<TResult>
+  options: UseAuthFormOptions<TResult, TField>
 ): UseAuthFormReturn<TResult, TField> {
-  const { submit, defaultErrorMessage, validate, onSuccess, onError } = options;
+  const { submit, defaultErrorMessage, validate, onSuccess, onError, serverFields } = options;
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<Partial<Record<TField, boolean>>>({});
+  const [fieldMessages, setFieldMessages] = useState<Partial<Record<TField, string>>>({});
 
   const setFieldError = useCallback((field: TField, value: boolean) => {
     setFieldErrors(prev => ({ ...prev, [field]: value }));
   }, []);
 
   const clearFieldError = useCallback((field: TField) => {
-    setFieldErrors(prev => {
-      if (!prev[field]) return prev;
-      const next = { ...prev };
-      delete next[field];
-      return next;
-    });
+    setFieldErrors(prev => (prev[field] ? withoutField(prev, field) : prev));
+    setFieldMessages(prev => withoutField(prev, field));
   }, []);
 
   const resetErrors = useCallback(() => {
     setError('');
     setFieldErrors({});
+    setFieldMessages({});
   }, []);
 
   const handleSubmit = useCallback(
@@ -58,21 +76,40 @@ export function useAuthForm<TResult = unknown, TField extends string = string>(
 
       setLoading(true);
       setError('');
+      setFieldMessages({});
 
       try {
         const result = await submit();
         onSuccess?.(result);
         return result;
       } catch (err) {
-        const message = err instanceof Error ? err.message : defaultErrorMessage;
+        // Users see what the server said, not the status line.
+        const message = isHttpError(err)
+          ? (err.serverMessage ?? err.message)
+          : err instanceof Error
+            ? err.message
+            : defaultErrorMessage;
+        if (isValidationError(err)) {
+          const messages: Partial<Record<TField, string>> = {};
+          for (const [name, text] of Object.entries(err.getFieldErrors())) {
+            const field = serverFields?.[name] ?? (name as TField);
+            messages[field] ??= text;
+          }
+          setFieldMessages(messages);
+          setFieldErrors(prev => {
+            const next = { ...prev };
+            for (const field of Object.keys(messages) as TField[]) next[field] = true;
+            return next;
+          });
+        }
         setError(message);
-        onError?.(message);
+        onError?.(message, err);
         return undefined;
       } finally {
         setLoading(false);
       }
     },
-    [submit, validate, defaultErrorMessage, onSuccess, onError]
+    [submit, validate, defaultErrorMessage, onSuccess, onError, serverFields]
   );
 
   return {
@@ -80,6 +117,7 @@ export function useAuthForm<TResult = unknown, TField extends string = string>(
     error,
     setError,
     fieldErrors,
+    fieldMessages,
     setFieldError,
     clearFieldError,
     resetErrors,
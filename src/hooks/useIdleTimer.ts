@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthState } from '../providers/AuthProvider';
+import type { IdleStatus } from '../services/SessionManager';
+
+interface UseIdleTimerOptions {
+  /** How often (ms) remainingMs is recomputed. Default 1000. */
+  interval?: number;
+}
+
+export interface UseIdleTimerReturn {
+  /** False when idleTimeout is not configured or there is no session. */
+  isTracking: boolean;
+  /** True once the session is inside the warning window. */
+  isWarning: boolean;
+  /** ms until the session ends for inactivity; null when not tracking. */
+  remainingMs: number | null;
+  /** Epoch ms of the idle deadline; null when not tracking. */
+  deadline: number | null;
+  /** Count as user activity and restart the countdown in every tab. */
+  reset: () => void;
+}
+
+/**
+ * Live idle-timeout countdown for the current session. Requires
+ * `AuthConfig.idleTimeout`; without it the hook reports `isTracking: false`.
+ */
+export function useIdleTimer(options: UseIdleTimerOptions = {}): UseIdleTimerReturn {
+  const { interval = 1000 } = options;
+  const { sessionManager } = useAuthState();
+  const [status, setStatus] = useState<IdleStatus | null>(() => sessionManager.getIdleStatus());
+
+  useEffect(() => {
+    const update = () => setStatus(sessionManager.getIdleStatus());
+    update();
+    const unsubscribe = sessionManager.subscribe(update);
+    const intervalId = setInterval(update, interval);
+    return () => {
+      unsubscribe();
+      clearInterval(intervalId);
+    };
+  }, [sessionManager, interval]);
+
+  const reset = useCallback(() => {
+    sessionManager.recordActivity();
+    setStatus(sessionManager.getIdleStatus());
+  }, [sessionManager]);
+
+  return {
+    isTracking: status !== null,
+    isWarning: status?.isWarning ?? false,
+    remainingMs: status?.remainingMs ?? null,
+    deadline: status?.deadline ?? null,
+    reset,
+  };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { useAuthState } from '../providers/AuthProvider';
+import type { SessionEventListener, SessionEventType } from '../services/SessionEvents';
+
+/**
+ * Run `handler` whenever the session emits `type`. The latest handler is
+ * always called, so an inline function does not resubscribe on each render.
+ *
+ * @example
+ * ```tsx
+ * useSessionEvent('expired', event => {
+ *   toast(event.reason === 'idle_timeout' ? 'Signed out for inactivity' : 'Session expired');
+ * });
+ * ```
+ */
+export function useSessionEvent<K extends SessionEventType>(
+  type: K,
+  handler: SessionEventListener<K>
+): void {
+  const { sessionManager } = useAuthState();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => sessionManager.on(type, event => handlerRef.current(event)),
+    [sessionManager, type]
+  );
+}
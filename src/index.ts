@@ -1,8 +1,26 @@
 // Export providers
 
+export type {
+  AccountSwitcherCopy,
+  AccountSwitcherProps,
+  AccountSwitcherStyles,
+} from './components/AccountSwitcher';
+export { AccountSwitcher } from './components/AccountSwitcher';
+export type {
+  ActiveSessionsListCopy,
+  ActiveSessionsListProps,
+  ActiveSessionsListStyles,
+} from './components/ActiveSessionsList';
+export { ActiveSessionsList } from './components/ActiveSessionsList';
 export type { AppLoaderProps } from './components/AppLoader';
 export { AppLoader, useAppLoaderState } from './components/AppLoader';
 export { FeatureFlag } from './components/FeatureFlag';
+export type {
+  ImpersonationBannerCopy,
+  ImpersonationBannerProps,
+  ImpersonationBannerStyles,
+} from './components/ImpersonationBanner';
+export { ImpersonationBanner } from './components/ImpersonationBanner';
 export type { LandingRouteProps } from './components/LandingRoute';
 export { LandingRoute } from './components/LandingRoute';
 export type { LoginFormCopy, LoginFormProps, LoginFormStyles } from './components/LoginForm';
@@ -31,6 +49,18 @@ export type { ProtectedProps } from './components/Protected';
 export { Protected } from './components/Protected';
 export type { ProtectedRouteProps } from './components/ProtectedRoute';
 export { ProtectedRoute } from './components/ProtectedRoute';
+export type {
+  ReauthGateCopy,
+  ReauthGateProps,
+  ReauthGateStyles,
+} from './components/ReauthGate';
+export { ReauthGate } from './components/ReauthGate';
+export type {
+  SessionTimeoutWarningCopy,
+  SessionTimeoutWarningProps,
+  SessionTimeoutWarningStyles,
+} from './components/SessionTimeoutWarning';
+export { SessionTimeoutWarning } from './components/SessionTimeoutWarning';
 export type { SignupFormCopy, SignupFormProps, SignupFormStyles } from './components/SignupForm';
 export { SignupForm } from './components/SignupForm';
 export type { SubscriptionGuardProps } from './components/SubscriptionGuard';
@@ -53,13 +83,28 @@ export {
   UserZone,
   ZoneRoute,
 } from './components/ZoneRoute';
-export type { SessionExpiredReason } from './errors/SessionErrors';
+// HTTP error class and type guards
+export {
+  HttpError,
+  isAuthError,
+  isHttpError,
+  isRequestAbortedError,
+  isValidationError,
+  RequestAbortedError,
+} from './errors/HttpError';
+export type {
+  ReauthenticationFailure,
+  SessionExpiredReason,
+  TokenVerificationFailure,
+} from './errors/SessionErrors';
 // Session error classes
 export {
   ConfigurationError,
+  ReauthenticationRequiredError,
   SessionExpiredError,
   TokenRefreshError,
   TokenRefreshTimeoutError,
+  TokenVerificationError,
 } from './errors/SessionErrors';
 export type { AppConfig } from './providers/AppProvider';
 export { AppProvider, useApi, useApp } from './providers/AppProvider';
@@ -68,6 +113,8 @@ export type {
   AuthConfig,
   AuthContextValue,
   AuthStateValue,
+  ContextHeadersConfig,
+  ReauthRequest,
 } from './providers/AuthProvider';
 export {
   AuthProvider,
@@ -95,21 +142,65 @@ export {
   useTenantOptional,
   useTenantSettings,
 } from './providers/TenantProvider';
-export type { RequestOptions } from './services/HttpService';
+export type { AccountInfo } from './services/AccountRegistry';
+export type {
+  ApiCallOptions,
+  HttpInterceptor,
+  HttpRequest,
+  HttpResponse,
+  HttpResponseType,
+  HttpRetry,
+  QueryParams,
+  QueryValue,
+  RequestOptions,
+  RetryPolicy,
+  UploadProgress,
+} from './services/HttpService';
 // Base Services
 export { HttpService } from './services/HttpService';
 export type {
+  LoginMethod,
+  SessionEvent,
+  SessionEventListener,
+  SessionEventMap,
+  SessionEventType,
+} from './services/SessionEvents';
+export type {
+  BffConfig,
+  BffSessionResponse,
+  CrossTabCoordination,
+  CsrfConfig,
+  IdleStatus,
+  ImpersonationInfo,
   JwtPayload,
+  RefreshRequestContext,
+  RefreshResponseTokens,
   RefreshStats,
+  RefreshTransport,
   SessionConfig,
   SessionState,
   TokenData,
+  TokenStorage,
 } from './services/SessionManager';
 export { SessionManager } from './services/SessionManager';
 export type { ZoneRouteProps } from './types/zoneRouting';
+export type {
+  RefreshErrorClassification,
+  RefreshErrorClassifier,
+} from './utils/refreshErrors';
+// Refresh error classification
+export { defaultClassifyRefreshError } from './utils/refreshErrors';
 
 // Main API Service - removed in favor of provider pattern
 
+export type { ActiveSessionEntry, UseActiveSessionsReturn } from './hooks/useActiveSessions';
+// Active sessions hook
+export { useActiveSessions } from './hooks/useActiveSessions';
+export type { UseIdleTimerReturn } from './hooks/useIdleTimer';
+// Idle timeout hook
+export { useIdleTimer } from './hooks/useIdleTimer';
+// Session event hook
+export { useSessionEvent } from './hooks/useSessionEvent';
 // Zone routing hooks and types (RFC-005)
 export { buildRedirectUrl, useZoneNavigation } from './hooks/useZoneNavigation';
 export { AppApiService } from './services/AppApiService';
@@ -119,6 +210,7 @@ export { FeatureFlagApiService } from './services/FeatureFlagApiService';
 export { HealthApiService } from './services/HealthApiService';
 export { PermissionApiService } from './services/PermissionApiService';
 export { RoleApiService } from './services/RoleApiService';
+export { SessionsApiService } from './services/SessionsApiService';
 export { SubscriptionApiService } from './services/SubscriptionApiService';
 export { SubscriptionPlanApiService } from './services/SubscriptionPlanApiService';
 export { TenantApiService } from './services/TenantApiService';
@@ -131,6 +223,7 @@ export type {
   ChangePasswordParams,
   ConfirmPasswordResetParams,
   LoginParams,
+  ReauthenticateParams,
   RequestPasswordResetParams,
   SendMagicLinkParams,
   SignupParams,
@@ -149,3 +242,16 @@ export type {
   ZoneRoots,
 } from './types/zoneRouting';
 export { DEFAULT_ZONE_PRESETS, DEFAULT_ZONE_ROOTS } from './types/zoneRouting';
+export type {
+  CookieTokenStorageOptions,
+  EncryptedTokenStorageOptions,
+  IndexedDbTokenStorageOptions,
+} from './utils/tokenStorage';
+// Token storage adapters
+export {
+  createCookieTokenStorage,
+  createEncryptedTokenStorage,
+  createIndexedDbTokenStorage,
+  createMemoryTokenStorage,
+  createSessionStorageTokenStorage,
+} from './utils/tokenStorage';
@@ -9,7 +9,7 @@ import {
   useState,
 } from 'react';
 import { AppApiService } from '../services/AppApiService';
-import { HttpService } from '../services/HttpService';
+import { type HttpInterceptor, HttpService, type RetryPolicy } from '../services/HttpService';
 import type { PublicAppInfo } from '../types/api';
 
 interface CachedAppInfo {
@@ -32,6 +32,18 @@ export interface AppConfig {
     ttl?: number;
     storageKey?: string;
   };
+  /**
+   * Interceptors for every HttpService created by this provider and the
+   * providers below it (Auth, Tenant, FeatureFlag, Subscription). They are
+   * attached when each service is created. Use
+   * `HttpService.addGlobalInterceptor` for services created elsewhere.
+   */
+  interceptors?: HttpInterceptor[];
+  /**
+   * Retry policy for the same services. Off by default; per-request
+   * `RequestOptions.retry` overrides it.
+   */
+  retry?: RetryPolicy;
 }
 
 interface AppContextValue {
@@ -41,6 +53,8 @@ interface AppContextValue {
   isAppLoading: boolean;
   appError: Error | null;
   retryApp: () => void;
+  /** An HttpService for `baseUrl` with the configured interceptors attached. */
+  createHttpService: () => HttpService;
 }
 
 const AppContext = createContext<AppContextValue | null>(null);
@@ -80,6 +94,20 @@ export function AppProvider({ config, children }: AppProviderProps) {
   const appInfoRef = useRef(appInfo);
   appInfoRef.current = appInfo;
 
+  // Read at creation time so an inline array does not recreate every service.
+  const interceptorsRef = useRef(config.interceptors);
+  interceptorsRef.current = config.interceptors;
+
+  const retryRef = useRef(config.retry);
+  retryRef.current = config.retry;
+
+  const createHttpService = useCallback(() => {
+    const service = new HttpService(baseUrl);
+    for (const interceptor of interceptorsRef.current ?? []) service.addInterceptor(interceptor);
+    if (retryRef.current) service.setRetryPolicy(retryRef.current);
+    return service;
+  }, [baseUrl]);
+
   const loadApp = useCallback(
     async (bypassCache = false) => {
       if (!appId) return;
@@ -89,7 +117,7 @@ export function AppProvider({ config, children }: AppProviderProps) {
         setIsAppLoading(true);
         setAppError(null);
 
-        const appApi = new AppApiService(new HttpService(baseUrl));
+        const appApi = new AppApiService(createHttpService());
         const appData = await appApi.getPublicAppInfo(appId);
         setAppInfo(appData);
 
@@ -115,7 +143,7 @@ export function AppProvider({ config, children }: AppProviderProps) {
         setIsAppLoading(false);
       }
     },
-    [baseUrl, appId, cacheEnabled, cacheStorageKey]
+    [createHttpService, appId, cacheEnabled, cacheStorageKey]
   );
 
   const backgroundRefresh = useCallback(async () => {
@@ -128,7 +156,7 @@ export function AppProvider({ config, children }: AppProviderProps) {
       const parsed: CachedAppInfo = JSON.parse(cached);
       if (Date.now() - parsed.timestamp <= cacheTtl * 0.5) return;
 
-      const appApi = new AppApiService(new HttpService(baseUrl));
+      const appApi = new AppApiService(createHttpService());
       const appData = await appApi.getPublicAppInfo(appId);
       setAppInfo(appData);
 
@@ -143,7 +171,7 @@ export function AppProvider({ config, children }: AppProviderProps) {
         console.warn('[AppProvider] Background app refresh failed:', error);
       }
     }
-  }, [baseUrl, appId, cacheEnabled, cacheTtl, cacheStorageKey]);
+  }, [createHttpService, appId, cacheEnabled, cacheTtl, cacheStorageKey]);
 
   const contextValue = useMemo<AppContextValue>(
     () => ({
@@ -155,8 +183,9 @@ export function AppProvider({ config, children }: AppProviderProps) {
       retryApp: () => {
         loadApp(true);
       },
+      createHttpService,
     }),
-    [appId, baseUrl, appInfo, isAppLoading, appError, loadApp]
+    [appId, baseUrl, appInfo, isAppLoading, appError, loadApp, createHttpService]
   );
 
   useEffect(() => {
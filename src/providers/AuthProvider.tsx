@@ -1,6 +1,7 @@
 import {
   createContext,
   type ReactNode,
+  useCallback,
   useContext,
   useEffect,
   useMemo,
@@ -8,33 +9,52 @@ import {
   useState,
   useSyncExternalStore,
 } from 'react';
-import type { SessionExpiredError } from '../errors/SessionErrors';
+import {
+  ConfigurationError,
+  ReauthenticationRequiredError,
+  type SessionExpiredError,
+} from '../errors/SessionErrors';
+import { type AccountInfo, AccountRegistry, PRIMARY_ACCOUNT_ID } from '../services/AccountRegistry';
 import { AuthApiService } from '../services/AuthApiService';
 import { HttpService } from '../services/HttpService';
 import { RoleApiService } from '../services/RoleApiService';
-import { SessionManager } from '../services/SessionManager';
+import type { SessionEventListener } from '../services/SessionEvents';
+import {
+  type BffConfig,
+  type CrossTabCoordination,
+  type CsrfConfig,
+  type ImpersonationInfo,
+  type RefreshTransport,
+  SessionManager,
+  type TokenData,
+  type TokenStorage,
+} from '../services/SessionManager';
 import { TenantApiService } from '../services/TenantApiService';
 import { UserApiService } from '../services/UserApiService';
-import type {
-  LoginResponse,
-  MagicLinkResponse,
-  Permission,
-  Role,
-  SessionStatus,
-  User,
-  UserTenantMembership,
-  VerifyMagicLinkResponse,
+import {
+  type LoginResponse,
+  type MagicLinkResponse,
+  type Permission,
+  type Role,
+  type SessionStatus,
+  type User,
+  type UserTenantMembership,
+  UserType,
+  type VerifyMagicLinkResponse,
 } from '../types/api';
 import type {
   ChangePasswordParams,
   ConfirmPasswordResetParams,
   LoginParams,
+  ReauthenticateParams,
   RequestPasswordResetParams,
   SendMagicLinkParams,
   SignupParams,
   SignupTenantAdminParams,
   VerifyMagicLinkParams,
 } from '../types/authParams';
+import { extractJwtClaim } from '../utils/jwt';
+import type { RefreshErrorClassifier } from '../utils/refreshErrors';
 import { useAppOptional } from './AppProvider';
 import { useTenantOptional } from './TenantProvider';
 
@@ -65,6 +85,41 @@ function clearUserTenants(): void {
   }
 }
 
+const NO_ACCOUNTS: AccountInfo[] = [];
+
+/** Header names for AuthConfig.contextHeaders; `false` leaves that header out. */
+export interface ContextHeadersConfig {
+  /** Carries the active tenant's id. Default 'X-Tenant-Id'. */
+  tenantHeader?: string | false;
+  /** Carries the AppProvider appId (or AuthConfig.appId). Default 'X-App-Id'. */
+  appHeader?: string | false;
+}
+
+interface ContextHeaderNames {
+  tenantHeader: string | null;
+  appHeader: string | null;
+}
+
+function resolveContextHeaders(
+  config: boolean | ContextHeadersConfig | undefined
+): ContextHeaderNames | null {
+  if (!config) return null;
+  const names: ContextHeadersConfig = config === true ? {} : config;
+  const resolved: ContextHeaderNames = { tenantHeader: null, appHeader: null };
+  for (const [field, fallback] of [
+    ['tenantHeader', 'X-Tenant-Id'],
+    ['appHeader', 'X-App-Id'],
+  ] as const) {
+    const value = names[field] ?? fallback;
+    if (value === false) continue;
+    if (typeof value !== 'string' || value === '') {
+      throw new ConfigurationError(`contextHeaders.${field}`, value, 'must be a non-empty string');
+    }
+    resolved[field] = value;
+  }
+  return resolved;
+}
+
 export interface AuthConfig {
   /** @deprecated Use onSessionExpired instead */
   onRefreshFailed?: () => void;
@@ -82,6 +137,123 @@ export interface AuthConfig {
   retryBackoffBase?: number;
   /** localStorage key used to persist the session. */
   storageKey?: string;
+  /**
+   * Where the session is persisted. Defaults to localStorage; pass one of the
+   * built-in adapters (createSessionStorageTokenStorage, createMemoryTokenStorage,
+   * createIndexedDbTokenStorage, createCookieTokenStorage) or a custom one.
+   * Binds when the SessionManager for `storageKey` is first created.
+   */
+  tokenStorage?: TokenStorage;
+  /**
+   * 'leader' elects one tab to own refreshes and broadcast tokens to the
+   * rest. Default 'storage' (every tab refreshes, serialized by Web Locks).
+   */
+  crossTabCoordination?: CrossTabCoordination;
+  /**
+   * End the session after this many ms without activity in any tab. The
+   * session is cleared and onSessionExpired receives an `idle_timeout` error.
+   * Pair with useIdleTimer() or <SessionTimeoutWarning>. Default: disabled.
+   */
+  idleTimeout?: number;
+  /** ms before the idle timeout at which the warning phase starts. Default 60000. */
+  idleWarningTime?: number;
+  /**
+   * Maximum session age in ms, counted from the original login (persisted
+   * with the tokens, so reloads and other tabs share it). When reached the
+   * session expires with an `absolute_lifetime_exceeded` error regardless of
+   * refresh. Default: disabled.
+   */
+  absoluteSessionLifetime?: number;
+  /**
+   * Receives every typed session event (login, reauthenticated, logout,
+   * refresh:start, refresh:success, refresh:failure, tenant:switched,
+   * cross-tab:sync, request:retry, expired, impersonation:start,
+   * impersonation:stop). Use for analytics and audit logging; for a single
+   * event type inside components prefer useSessionEvent().
+   */
+  onSessionEvent?: SessionEventListener;
+  /**
+   * Check every access token's RS256/ES256 signature against the public key
+   * published by the API before storing it. Failing tokens are rejected with
+   * a TokenVerificationError (login/switchToTenant reject; a refresh ends the
+   * session). Default: false.
+   */
+  verifyTokenSignatures?: boolean;
+  /** How long fetched public keys are cached, in ms. Default 3600000. */
+  publicKeyCacheTtl?: number;
+  /**
+   * Decide whether a failed `/auth/refresh` response logs the user out or is
+   * retried. Return undefined to use the default, which reads the ApiError
+   * `error.code`/`type` fields and only then the message text.
+   */
+  classifyRefreshError?: RefreshErrorClassifier;
+  /**
+   * Refresh endpoint contract: path, extra headers, request body and
+   * response mappers. Also used for the cookie session restore. Defaults to
+   * the `/auth/refresh` JSON contract.
+   */
+  refreshTransport?: RefreshTransport;
+  /**
+   * Bind tokens to this browser with DPoP: login and refresh send a proof
+   * signed by a non-extractable key, and API calls use
+   * `Authorization: DPoP <token>` plus a per-request proof. Default false.
+   */
+  dpop?: boolean;
+  /**
+   * Backend-for-frontend mode: `baseUrl` points at a same-origin proxy that
+   * keeps the tokens server-side. Requests carry the session cookie and a
+   * CSRF header; session status, user and expiry come from `/session`.
+   * No token is ever stored in JS. `true` uses the default endpoint and
+   * CSRF names.
+   */
+  bff?: boolean | BffConfig;
+  /**
+   * Send a CSRF token with the refresh and cookie-restore calls and every
+   * state-changing request that carries cookies (`credentials: 'include'`,
+   * e.g. logout with `enableCookieSession`). A 403 CSRF failure fetches a
+   * new token and retries once. Always on with `bff`. Default false.
+   */
+  csrf?: boolean | CsrfConfig;
+  /**
+   * Keep several accounts signed in at once, each in its own token slot.
+   * Enables `accounts`, `activeAccountId`, `switchAccount`, `addAccount` and
+   * `signOutAccount`. Only the active account has a live SessionManager; the
+   * others are restored (and refreshed if needed) when switched to.
+   * Default: false.
+   */
+  multiAccount?: boolean;
+  /**
+   * Storage for each account slot when `multiAccount` is on, keyed by the
+   * slot's storageKey. Defaults to localStorage for every slot (the primary
+   * slot uses `tokenStorage` when that is set).
+   */
+  accountTokenStorage?: (storageKey: string) => TokenStorage;
+  /**
+   * Endpoint impersonate() posts `{ userId, appId }` to. Must return tokens
+   * for acting as that user (accessToken, expiresIn, optional refreshToken
+   * and user). Default '/auth/impersonate'.
+   */
+  impersonationEndpoint?: string;
+  /**
+   * Endpoint logout() posts `{ refreshToken }` to so the server revokes it.
+   * The request is fire-and-forget: the local session is cleared right away
+   * whether or not it succeeds. With enableCookieSession it is credentialed
+   * so the server can clear the HttpOnly refresh cookie. `false` skips it.
+   * Default '/auth/logout'.
+   */
+  logoutEndpoint?: string | false;
+  /** Endpoint logoutEverywhere() posts to. Default '/auth/logout-all'. */
+  logoutEverywhereEndpoint?: string;
+  /** Timeout (ms) for the logout revoke request. Default 5000. */
+  logoutTimeout?: number;
+  /**
+   * Stamp the current tenant and app ids on every authenticatedHttpService
+   * request. The tenant comes from TenantProvider and follows
+   * switchToTenant() right away; the app from AppProvider or `appId`. Headers
+   * a request sets itself win. `true` uses 'X-Tenant-Id' and 'X-App-Id'.
+   * Default: off.
+   */
+  contextHeaders?: boolean | ContextHeadersConfig;
   autoSwitchSingleTenant?: boolean;
   onTenantSelectionRequired?: (tenants: UserTenantMembership[]) => void;
   enableCookieSession?: boolean;
@@ -89,6 +261,12 @@ export interface AuthConfig {
   appId?: string;
 }
 
+/** A requireRecentAuth() call waiting for the user to re-authenticate. */
+export interface ReauthRequest {
+  /** Strictest login age requested by the waiting callers, in ms. */
+  maxAgeMs: number;
+}
+
 /** Reactive auth state + permission helpers. Subscribe via useAuthState(). */
 export interface AuthStateValue {
   isAuthenticated: boolean;
@@ -110,6 +288,22 @@ export interface AuthStateValue {
   rolesLoading: boolean;
   userTenants: UserTenantMembership[];
   hasTenantContext: boolean;
+  /** Signed-in accounts, most recently used first. Empty unless multiAccount. */
+  accounts: AccountInfo[];
+  /**
+   * Slot id of the account in use; may not be in `accounts` yet while an
+   * added account is signing in. Null unless multiAccount.
+   */
+  activeAccountId: string | null;
+  /** True while a SUPERUSER is acting as another user (see impersonate()). */
+  isImpersonating: boolean;
+  /** Who is impersonating whom, and since when. Null unless impersonating. */
+  impersonation: ImpersonationInfo | null;
+  /**
+   * Set while requireRecentAuth() waits for the user to confirm their
+   * credentials. Render <ReauthGate> (or your own prompt) to handle it.
+   */
+  reauthRequest: ReauthRequest | null;
   sessionManager: SessionManager;
   authenticatedHttpService: HttpService;
   hasPermission: (permission: string | Permission) => boolean;
@@ -129,8 +323,22 @@ export interface AuthActionsValue {
   requestPasswordReset: (params: RequestPasswordResetParams) => Promise<void>;
   confirmPasswordReset: (params: ConfirmPasswordResetParams) => Promise<void>;
   refreshToken: () => Promise<void>;
+  /** Clear the session now and ask the server to revoke it in the background. */
   logout: () => void;
+  /**
+   * Revoke every session of the current user (all devices), then clear this
+   * one. The local session is cleared even if the request fails; the error
+   * is rethrown so the UI can say the other devices may still be signed in.
+   */
+  logoutEverywhere: () => Promise<void>;
+  /** Stores synchronously; throws when `verifyTokenSignatures` is on. */
   setTokens: (tokens: { accessToken: string; refreshToken: string; expiresIn: number }) => void;
+  /** Resolves once stored; rejects with TokenVerificationError when verification fails. */
+  setVerifiedTokens: (tokens: {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+  }) => Promise<void>;
   hasValidSession: () => boolean;
   clearSession: () => void;
   loadUserData: (forceRefresh?: boolean) => Promise<void>;
@@ -138,6 +346,34 @@ export interface AuthActionsValue {
   refreshRoles: () => Promise<void>;
   switchToTenant: (tenantId: string, options?: { redirectPath?: string }) => Promise<void>;
   refreshUserTenants: () => Promise<UserTenantMembership[]>;
+  /** Make another signed-in account active (multiAccount). */
+  switchAccount: (accountId: string) => void;
+  /**
+   * Open an empty slot and make it active, so the next login adds an account
+   * instead of replacing the current one (multiAccount).
+   */
+  addAccount: () => void;
+  /** Sign one account out and forget it; the active one behaves like logout() (multiAccount). */
+  signOutAccount: (accountId: string) => void;
+  /**
+   * Act as another user (SUPERUSER sessions only). The superuser session is
+   * parked and `currentUser` becomes the target user until stopImpersonating().
+   */
+  impersonate: (userId: string) => Promise<void>;
+  /** Restore the parked superuser session, refreshing it if it expired meanwhile. */
+  stopImpersonating: () => Promise<void>;
+  /**
+   * Resolves once the user has proven their credentials within `maxAgeMs`
+   * (the token's auth_time claim, else the local login time): immediately
+   * when they already have, otherwise after they re-authenticate through
+   * `reauthRequest`. Rejects with ReauthenticationRequiredError when they
+   * don't. Await it before a sensitive action.
+   */
+  requireRecentAuth: (maxAgeMs: number) => Promise<void>;
+  /** Confirm the current user's password without replacing the session. */
+  reauthenticate: (params: ReauthenticateParams) => Promise<void>;
+  /** Dismiss `reauthRequest`; waiting requireRecentAuth() calls reject with 'cancelled'. */
+  cancelReauthentication: () => void;
 }
 
 export type AuthContextValue = AuthStateValue & AuthActionsValue;
@@ -155,6 +391,7 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
   const tenantContext = useTenantOptional();
 
   const baseUrl = appContext?.baseUrl ?? config.baseUrl ?? '';
+  const createHttpService = appContext?.createHttpService;
   const appId = appContext?.appId ?? config.appId;
   const tenant = tenantContext?.tenant ?? null;
   const tenantSlug = tenantContext?.tenantSlug ?? null;
@@ -172,6 +409,56 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
   const [isUserLoading, setIsUserLoading] = useState(false);
   const [userError, setUserError] = useState<Error | null>(null);
   const [userTenants, setUserTenants] = useState<UserTenantMembership[]>(() => readUserTenants());
+  const [reauthRequest, setReauthRequest] = useState<ReauthRequest | null>(null);
+
+  const baseStorageKey = config.storageKey || 'auth_tokens';
+  const accountRegistry = useMemo(
+    () => (config.multiAccount ? new AccountRegistry(baseStorageKey) : null),
+    [config.multiAccount, baseStorageKey]
+  );
+  const [activeAccountId, setActiveAccountId] = useState(
+    () => accountRegistry?.getActiveId() ?? PRIMARY_ACCOUNT_ID
+  );
+  const activeStorageKey = accountRegistry
+    ? accountRegistry.storageKeyFor(activeAccountId)
+    : config.storageKey;
+
+  const accountsStore = useMemo(
+    () => ({
+      subscribe: (listener: () => void) => accountRegistry?.subscribe(listener) ?? (() => {}),
+      getSnapshot: () => accountRegistry?.getAccounts() ?? NO_ACCOUNTS,
+    }),
+    [accountRegistry]
+  );
+  const accounts = useSyncExternalStore(
+    accountsStore.subscribe,
+    accountsStore.getSnapshot,
+    accountsStore.getSnapshot
+  );
+
+  // Token storage for an account slot. Without accountTokenStorage every slot
+  // but the primary one uses SessionManager's localStorage default.
+  const tokenStorageFor = useCallback(
+    (accountId: string, storageKey: string): TokenStorage | undefined =>
+      config.accountTokenStorage?.(storageKey) ??
+      (accountId === PRIMARY_ACCOUNT_ID ? config.tokenStorage : undefined),
+    [config.accountTokenStorage, config.tokenStorage]
+  );
+  // Memoized so accountTokenStorage builds one adapter per slot activation.
+  const activeTokenStorage = useMemo(
+    () =>
+      accountRegistry
+        ? tokenStorageFor(activeAccountId, activeStorageKey ?? baseStorageKey)
+        : config.tokenStorage,
+    [
+      accountRegistry,
+      activeAccountId,
+      activeStorageKey,
+      baseStorageKey,
+      config.tokenStorage,
+      tokenStorageFor,
+    ]
+  );
 
   const sessionManager = useMemo(() => {
     return SessionManager.getInstance({
@@ -183,7 +470,19 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       autoRefresh: config.autoRefresh,
       maxRefreshRetries: config.maxRefreshRetries,
       retryBackoffBase: config.retryBackoffBase,
-      storageKey: config.storageKey,
+      storageKey: activeStorageKey,
+      tokenStorage: activeTokenStorage,
+      crossTabCoordination: config.crossTabCoordination,
+      idleTimeout: config.idleTimeout,
+      idleWarningTime: config.idleWarningTime,
+      absoluteSessionLifetime: config.absoluteSessionLifetime,
+      verifyTokenSignatures: config.verifyTokenSignatures,
+      publicKeyCacheTtl: config.publicKeyCacheTtl,
+      classifyRefreshError: config.classifyRefreshError,
+      refreshTransport: config.refreshTransport,
+      dpop: config.dpop,
+      bff: config.bff,
+      csrf: config.csrf,
       onSessionExpired: (error: SessionExpiredError) => {
         setCurrentUser(null);
         setUserError(null);
@@ -205,7 +504,19 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     config.autoRefresh,
     config.maxRefreshRetries,
     config.retryBackoffBase,
-    config.storageKey,
+    activeStorageKey,
+    activeTokenStorage,
+    config.crossTabCoordination,
+    config.idleTimeout,
+    config.idleWarningTime,
+    config.absoluteSessionLifetime,
+    config.verifyTokenSignatures,
+    config.publicKeyCacheTtl,
+    config.classifyRefreshError,
+    config.refreshTransport,
+    config.dpop,
+    config.bff,
+    config.csrf,
   ]);
 
   // Subscribe to SessionManager state changes so derived flags (isAuthenticated,
@@ -219,19 +530,46 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
   );
 
   // `bootstrapDone` is the single source of truth for isAuthReady. It flips
-  // true exactly once per AuthProvider mount, at the end of the bootstrap
-  // effect — regardless of whether the bootstrap ended in authenticated,
+  // true once per AuthProvider mount (and again after each account switch),
+  // at the end of the bootstrap effect — regardless of whether the bootstrap ended in authenticated,
   // unauthenticated, or expired. This is what kills the "trunco" state:
   // the consumer can never observe isAuthReady=true while a refresh that
   // could resolve the session is still pending.
   const [bootstrapDone, setBootstrapDone] = useState(false);
   const isAuthReady = bootstrapDone;
 
+  // Read per request by the context-header interceptor, so tenant switches
+  // apply without rebuilding the service. A switchToTenant() target stands in
+  // for the context tenant until TenantProvider moves off it or the session
+  // that switched ends.
+  const contextHeaderNames = resolveContextHeaders(config.contextHeaders);
+  const switchedTenantRef = useRef<{ from: string | null; to: string } | null>(null);
+  const contextTenantId = tenant?.id ?? null;
+  const contextHeadersRef = useRef({
+    tenantId: null as string | null,
+    appId: null as string | null,
+  });
+  contextHeadersRef.current = { tenantId: contextTenantId, appId: appId ?? null };
+
+  const { tenantHeader, appHeader } = contextHeaderNames ?? {};
   const authenticatedHttpService = useMemo(() => {
-    const service = new HttpService(baseUrl);
+    const service = createHttpService ? createHttpService() : new HttpService(baseUrl);
     service.setSessionManager(sessionManager);
+    if (tenantHeader || appHeader) {
+      service.addInterceptor({
+        onRequest: request => {
+          const { tenantId: contextTenant, appId } = contextHeadersRef.current;
+          const switched = switchedTenantRef.current;
+          const tenantId = switched?.from === contextTenant ? switched.to : contextTenant;
+          const headers = { ...request.headers };
+          if (tenantHeader && tenantId) headers[tenantHeader] ??= tenantId;
+          if (appHeader && appId) headers[appHeader] ??= appId;
+          return { ...request, headers };
+        },
+      });
+    }
     return service;
-  }, [baseUrl, sessionManager]);
+  }, [baseUrl, createHttpService, sessionManager, tenantHeader, appHeader]);
 
   const authApiService = useMemo(
     () => new AuthApiService(authenticatedHttpService),
@@ -279,6 +617,11 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
 
   const hasTenantContext = useMemo(() => currentUser?.tenantId != null, [currentUser]);
 
+  const impersonation = useMemo(
+    () => sessionManager.getImpersonation(),
+    [sessionManager, sessionTick]
+  );
+
   // --- Actions: stable references, read latest state via impl ref ---
 
   // Live implementation of every action. Rebuilt each render so closures
@@ -343,11 +686,14 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
 
     const shouldSwitch = targetSlug && targetSlug !== tenantSlug;
 
-    sessionManager.setTokens({
-      accessToken: loginResponse.accessToken,
-      refreshToken: loginResponse.refreshToken,
-      expiresIn: loginResponse.expiresIn,
-    });
+    await sessionManager.setVerifiedTokens(
+      {
+        accessToken: loginResponse.accessToken,
+        refreshToken: loginResponse.refreshToken,
+        expiresIn: loginResponse.expiresIn,
+      },
+      { method: 'password' }
+    );
 
     if (loginResponse.user) {
       sessionManager.setUser(loginResponse.user);
@@ -503,11 +849,14 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
 
     const shouldSwitch = targetSlug && targetSlug !== tenantSlug;
 
-    sessionManager.setTokens({
-      accessToken: verifyResponse.accessToken,
-      refreshToken: verifyResponse.refreshToken,
-      expiresIn: verifyResponse.expiresIn,
-    });
+    await sessionManager.setVerifiedTokens(
+      {
+        accessToken: verifyResponse.accessToken,
+        refreshToken: verifyResponse.refreshToken,
+        expiresIn: verifyResponse.expiresIn,
+      },
+      { method: 'magic_link' }
+    );
 
     if (verifyResponse.user) {
       sessionManager.setUser(verifyResponse.user);
@@ -539,32 +888,303 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       refreshToken: tokens.refreshToken,
     });
 
-    sessionManager.setTokens({
+    await sessionManager.setVerifiedTokens({
       accessToken: refreshResponse.accessToken,
       refreshToken: refreshResponse.refreshToken || tokens.refreshToken,
       expiresIn: refreshResponse.expiresIn,
     });
   };
 
-  const logout = () => {
+  const cookieCredentials =
+    config.enableCookieSession || config.bff ? ('include' as const) : undefined;
+
+  // Fire-and-forget server-side revocation of a session that is about to be
+  // cleared locally. Sends the access token as-is (authToken) — going through
+  // getValidAccessToken could rotate the very refresh token being revoked.
+  // Only the active session owns the refresh cookie, so other account slots
+  // pass `credentials: undefined`.
+  const revokeSession = (
+    tokens: TokenData | null,
+    credentials: RequestCredentials | undefined = cookieCredentials
+  ) => {
+    if (config.logoutEndpoint === false) return;
+    if (!tokens?.refreshToken && !tokens?.accessToken && !credentials) return;
+    authApiService
+      .logout(
+        tokens?.refreshToken ? { refreshToken: tokens.refreshToken } : {},
+        config.logoutEndpoint,
+        {
+          skipAuth: true,
+          authToken: tokens?.accessToken,
+          credentials,
+          timeout: config.logoutTimeout ?? 5000,
+        }
+      )
+      .catch(error => {
+        if (process.env.NODE_ENV === 'development') {
+          console.warn('[AuthProvider] Failed to revoke session on logout:', error);
+        }
+      });
+  };
+
+  const clearLocalSession = () => {
     // 'logout' reason suppresses onSessionExpired callbacks for any concurrent
     // in-flight refresh that races the clear — a deliberate sign-out is not an
     // expiration.
     sessionManager.clearSession('logout');
+    switchedTenantRef.current = null;
+    accountRegistry?.remove(activeAccountId);
+    setCurrentUser(null);
+    setUserError(null);
+    setUserTenants([]);
+    clearUserTenants();
+  };
+
+  const logout = () => {
+    revokeSession(sessionManager.getTokens());
+    // Logging out while impersonating also ends the parked superuser session.
+    revokeSession(sessionManager.getImpersonatorTokens(), undefined);
+    clearLocalSession();
+  };
+
+  const logoutEverywhere = async (): Promise<void> => {
+    if (sessionManager.isImpersonating()) {
+      throw new Error('[AuthProvider] logoutEverywhere is not available while impersonating');
+    }
+    try {
+      await authApiService.logoutAll(config.logoutEverywhereEndpoint, {
+        credentials: cookieCredentials,
+      });
+    } finally {
+      clearLocalSession();
+    }
+  };
+
+  const requireAccountRegistry = (action: string): AccountRegistry => {
+    if (!accountRegistry) {
+      throw new Error(`[AuthProvider] ${action} requires AuthConfig.multiAccount`);
+    }
+    return accountRegistry;
+  };
+
+  // Tear down the active account's SessionManager and re-run the bootstrap
+  // against the slot `accountId`. The old slot's tokens stay in storage.
+  const activateAccount = (registry: AccountRegistry, accountId: string) => {
+    registry.setActive(accountId);
+    if (accountId === activeAccountId) return;
+    sessionManager.destroy();
+    switchedTenantRef.current = null;
     setCurrentUser(null);
     setUserError(null);
     setUserTenants([]);
     clearUserTenants();
+    setBootstrapDone(false);
+    setActiveAccountId(accountId);
+  };
+
+  const switchAccount = (accountId: string) => {
+    const registry = requireAccountRegistry('switchAccount');
+    if (!registry.get(accountId)) {
+      throw new Error(`[AuthProvider] Unknown account: ${accountId}`);
+    }
+    activateAccount(registry, accountId);
+  };
+
+  const addAccount = () => {
+    const registry = requireAccountRegistry('addAccount');
+    activateAccount(registry, registry.createSlotId());
+  };
+
+  const clearAccountSlot = (registry: AccountRegistry, accountId: string) => {
+    const storageKey = registry.storageKeyFor(accountId);
+    const storage = tokenStorageFor(accountId, storageKey);
+    try {
+      const stored = storage
+        ? storage.get()
+        : JSON.parse(localStorage.getItem(storageKey) ?? 'null');
+      revokeSession(stored?.accessToken ? stored : null, undefined);
+      revokeSession(stored?.impersonation?.tokens ?? null, undefined);
+      if (storage) storage.clear();
+      else localStorage.removeItem(storageKey);
+    } catch {
+      // Ignore storage errors
+    }
+  };
+
+  // The upsert effect below reads this through a ref so it doesn't re-run on every render.
+  const clearAccountSlotRef = useRef(clearAccountSlot);
+  clearAccountSlotRef.current = clearAccountSlot;
+
+  const signOutAccount = (accountId: string) => {
+    const registry = requireAccountRegistry('signOutAccount');
+    if (accountId === activeAccountId) {
+      logout();
+      return;
+    }
+    // Other tabs using this slot see the storage clear as a logout.
+    clearAccountSlot(registry, accountId);
+    registry.remove(accountId);
+  };
+
+  const impersonate = async (userId: string): Promise<void> => {
+    if (sessionManager.isImpersonating()) {
+      throw new Error('[AuthProvider] Already impersonating; call stopImpersonating() first');
+    }
+    const userType = sessionManager.getTokenPayload()?.userType ?? currentUser?.userType;
+    if (userType !== UserType.SUPERUSER) {
+      throw new Error('[AuthProvider] impersonate requires a SUPERUSER session');
+    }
+
+    const response = await authApiService.impersonate(
+      { userId, appId },
+      config.impersonationEndpoint
+    );
+
+    await sessionManager.startImpersonation(
+      {
+        accessToken: response.accessToken,
+        refreshToken: response.refreshToken,
+        expiresIn: response.expiresIn,
+      },
+      { targetUserId: userId, user: response.user }
+    );
+
+    setUserError(null);
+    setCurrentUser(response.user ?? null);
+    setUserTenants([]);
+    clearUserTenants();
+    if (!response.user) await loadUserData(true);
+    refreshUserTenants().catch(() => {});
+  };
+
+  const stopImpersonating = async (): Promise<void> => {
+    sessionManager.stopImpersonation();
+
+    setUserError(null);
+    setUserTenants([]);
+    clearUserTenants();
+
+    // The superuser's access token may have expired while it was parked.
+    const result = await sessionManager.ensureValidSession();
+    if (result !== 'authenticated') return;
+    const cached = sessionManager.getUser();
+    if (cached) setCurrentUser(cached);
+    else await loadUserData(true);
+    refreshUserTenants().catch(() => {});
+  };
+
+  // Callers waiting on the pending reauthRequest share one promise. It
+  // settles when the auth time moves past its value at request time.
+  const reauthDeferredRef = useRef<{
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (error: Error) => void;
+    authTimeAtRequest: number | null;
+  } | null>(null);
+
+  const settleReauth = useCallback((error?: Error) => {
+    const deferred = reauthDeferredRef.current;
+    reauthDeferredRef.current = null;
+    setReauthRequest(null);
+    if (!deferred) return;
+    if (error) deferred.reject(error);
+    else deferred.resolve();
+  }, []);
+
+  const requireRecentAuth = async (maxAgeMs: number): Promise<void> => {
+    if (typeof maxAgeMs !== 'number' || !Number.isFinite(maxAgeMs) || maxAgeMs < 0) {
+      throw new ConfigurationError('maxAgeMs', maxAgeMs, 'must be a non-negative number');
+    }
+    if (!sessionManager.hasSession()) {
+      throw new ReauthenticationRequiredError('no_session');
+    }
+    if (sessionManager.isRecentAuth(maxAgeMs)) return;
+
+    setReauthRequest(prev => ({ maxAgeMs: prev ? Math.min(prev.maxAgeMs, maxAgeMs) : maxAgeMs }));
+    if (!reauthDeferredRef.current) {
+      let resolve: () => void = () => {};
+      let reject: (error: Error) => void = () => {};
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      reauthDeferredRef.current = {
+        promise,
+        resolve,
+        reject,
+        authTimeAtRequest: sessionManager.getAuthTime(),
+      };
+    }
+    return reauthDeferredRef.current.promise;
+  };
+
+  const reauthenticate = async ({ password, username }: ReauthenticateParams): Promise<void> => {
+    const userId = sessionManager.getUserId();
+    if (!userId || !sessionManager.hasSession()) {
+      throw new ReauthenticationRequiredError('no_session');
+    }
+    if (sessionManager.isImpersonating()) {
+      throw new Error('[AuthProvider] Stop impersonating before re-authenticating');
+    }
+    const loginName =
+      username ??
+      currentUser?.email ??
+      currentUser?.phoneNumber ??
+      sessionManager.getTokenPayload()?.email;
+    if (!loginName) {
+      throw new Error('[AuthProvider] reauthenticate needs a username for this user');
+    }
+
+    const response = await authApiService.login({
+      username: loginName,
+      password,
+      appId,
+      tenantId: currentUser?.tenantId ?? tenant?.id,
+    });
+
+    // A step-up must never swap the signed-in user. A BFF login response may
+    // carry neither a token nor the user; the session the server reports
+    // afterwards tells who signed in.
+    const reauthenticatedId =
+      (response.accessToken ? extractJwtClaim(response.accessToken, 'userId') : undefined) ??
+      response.user?.id;
+    const checkAfterSync = reauthenticatedId === undefined && sessionManager.isBffMode();
+    if (!checkAfterSync && reauthenticatedId !== userId) {
+      throw new Error('[AuthProvider] Re-authenticated as a different user');
+    }
+
+    await sessionManager.setVerifiedTokens(
+      {
+        accessToken: response.accessToken,
+        refreshToken: response.refreshToken,
+        expiresIn: response.expiresIn,
+      },
+      { method: 'password' }
+    );
+    if (checkAfterSync && sessionManager.getUserId() !== userId) {
+      throw new Error('[AuthProvider] Re-authenticated as a different user');
+    }
+  };
+
+  const cancelReauthentication = () => {
+    settleReauth(new ReauthenticationRequiredError('cancelled'));
   };
 
   const setTokens = (tokens: { accessToken: string; refreshToken: string; expiresIn: number }) => {
     sessionManager.setTokens(tokens);
   };
 
+  const setVerifiedTokens = (tokens: {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+  }) => sessionManager.setVerifiedTokens(tokens);
+
   const hasValidSession = () => sessionManager.hasValidSession();
 
   const clearSession = () => {
     sessionManager.clearSession();
+    switchedTenantRef.current = null;
     setCurrentUser(null);
     setUserError(null);
   };
@@ -573,7 +1193,7 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     if (!appId) return;
     try {
       setRolesLoading(true);
-      const { roles } = await roleApiService.getRolesByApp(appId);
+      const { items: roles } = await roleApiService.getRolesByApp(appId);
       setAvailableRoles(roles);
     } catch (error) {
       if (process.env.NODE_ENV === 'development') {
@@ -600,7 +1220,7 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       tenantId,
     });
 
-    sessionManager.setTokens({
+    await sessionManager.setVerifiedTokens({
       accessToken: response.accessToken,
       refreshToken: tokens.refreshToken,
       expiresIn: response.expiresIn,
@@ -608,6 +1228,7 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
 
     setCurrentUser(response.user);
     sessionManager.setUser(response.user);
+    switchedTenantRef.current = { from: contextTenantId, to: tenantId };
 
     const targetTenant = userTenants.find(t => t.id === tenantId);
     if (targetTenant) {
@@ -634,7 +1255,9 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     confirmPasswordReset,
     refreshToken,
     logout,
+    logoutEverywhere,
     setTokens,
+    setVerifiedTokens,
     hasValidSession,
     clearSession,
     loadUserData,
@@ -642,6 +1265,14 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     refreshRoles,
     switchToTenant,
     refreshUserTenants,
+    switchAccount,
+    addAccount,
+    signOutAccount,
+    impersonate,
+    stopImpersonating,
+    requireRecentAuth,
+    reauthenticate,
+    cancelReauthentication,
   };
 
   // Stable proxy — same reference across every render. Delegates to
@@ -658,7 +1289,9 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       confirmPasswordReset: params => actionsImplRef.current.confirmPasswordReset(params),
       refreshToken: () => actionsImplRef.current.refreshToken(),
       logout: () => actionsImplRef.current.logout(),
+      logoutEverywhere: () => actionsImplRef.current.logoutEverywhere(),
       setTokens: tokens => actionsImplRef.current.setTokens(tokens),
+      setVerifiedTokens: tokens => actionsImplRef.current.setVerifiedTokens(tokens),
       hasValidSession: () => actionsImplRef.current.hasValidSession(),
       clearSession: () => actionsImplRef.current.clearSession(),
       loadUserData: forceRefresh => actionsImplRef.current.loadUserData(forceRefresh),
@@ -667,6 +1300,14 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       switchToTenant: (tenantId, options) =>
         actionsImplRef.current.switchToTenant(tenantId, options),
       refreshUserTenants: () => actionsImplRef.current.refreshUserTenants(),
+      switchAccount: accountId => actionsImplRef.current.switchAccount(accountId),
+      addAccount: () => actionsImplRef.current.addAccount(),
+      signOutAccount: accountId => actionsImplRef.current.signOutAccount(accountId),
+      impersonate: userId => actionsImplRef.current.impersonate(userId),
+      stopImpersonating: () => actionsImplRef.current.stopImpersonating(),
+      requireRecentAuth: maxAgeMs => actionsImplRef.current.requireRecentAuth(maxAgeMs),
+      reauthenticate: params => actionsImplRef.current.reauthenticate(params),
+      cancelReauthentication: () => actionsImplRef.current.cancelReauthentication(),
     }),
     []
   );
@@ -694,6 +1335,11 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       rolesLoading,
       userTenants,
       hasTenantContext,
+      accounts,
+      activeAccountId: accountRegistry ? activeAccountId : null,
+      isImpersonating: impersonation !== null,
+      impersonation,
+      reauthRequest,
       sessionManager,
       authenticatedHttpService,
       hasPermission,
@@ -714,6 +1360,11 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     rolesLoading,
     userTenants,
     hasTenantContext,
+    accounts,
+    accountRegistry,
+    activeAccountId,
+    impersonation,
+    reauthRequest,
     sessionManager,
     authenticatedHttpService,
   ]);
@@ -727,7 +1378,7 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     setRolesLoading(true);
     roleApiService
       .getRolesByApp(appId)
-      .then(({ roles }) => {
+      .then(({ items: roles }) => {
         if (!cancelled) setAvailableRoles(roles);
       })
       .catch(error => {
@@ -753,18 +1404,30 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
   // deduplicates refreshes globally via `refreshPromise`. The `completed` ref
   // (not just "started") ensures that if the first mount's effect gets
   // cancelled before settling, the remount's effect still runs to completion.
-  const bootstrapRef = useRef<{ completed: boolean }>({ completed: false });
+  // Tracked per SessionManager so an account switch bootstraps the new slot.
+  const bootstrapRef = useRef<{ completedFor: SessionManager | null }>({ completedFor: null });
 
   useEffect(() => {
     let cancelled = false;
 
     (async () => {
       try {
-        if (bootstrapRef.current.completed) return;
+        if (bootstrapRef.current.completedFor === sessionManager) return;
+
+        // Async token storage (IndexedDB) must hydrate before we can tell
+        // "no session" apart from "session not loaded yet".
+        await sessionManager.whenStorageReady();
+        if (cancelled) return;
 
         // Cookie-session restore: only when storage has no tokens at all.
         // attemptCookieSessionRestore is a no-op if cookieSession is disabled.
-        if (!sessionManager.getTokens() && config.enableCookieSession) {
+        // The cookie belongs to whichever account signed in last, so added
+        // account slots never restore from it.
+        if (
+          !sessionManager.getTokens() &&
+          config.enableCookieSession &&
+          activeAccountId === PRIMARY_ACCOUNT_ID
+        ) {
           await sessionManager.attemptCookieSessionRestore();
           if (cancelled) return;
         }
@@ -783,10 +1446,15 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
             // loadUserData already logs in development.
           }
           if (cancelled) return;
+          // After an account switch the cached tenant list belongs to the
+          // previous account; fetch this one's in the background.
+          if (bootstrapRef.current.completedFor !== null) {
+            actionsImplRef.current.refreshUserTenants().catch(() => {});
+          }
         }
       } finally {
         if (!cancelled) {
-          bootstrapRef.current.completed = true;
+          bootstrapRef.current.completedFor = sessionManager;
           setBootstrapDone(true);
         }
       }
@@ -795,13 +1463,68 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
     return () => {
       cancelled = true;
     };
-  }, [sessionManager, config.enableCookieSession]);
+  }, [sessionManager, config.enableCookieSession, activeAccountId]);
+
+  // Record the active account once its user is known, so it shows up in
+  // `accounts` (and keeps its display data current after refreshUser()).
+  useEffect(() => {
+    if (!accountRegistry || !currentUser || !sessionManager.hasValidSession()) return;
+    // The slot belongs to the superuser, not to whoever they are acting as.
+    if (sessionManager.isImpersonating()) return;
+    const duplicates = accountRegistry.upsert({
+      id: activeAccountId,
+      userId: currentUser.id,
+      email: currentUser.email ?? null,
+      name: [currentUser.name, currentUser.lastName].filter(Boolean).join(' ') || null,
+      userType: currentUser.userType ?? null,
+      tenantId: currentUser.tenantId ?? null,
+    });
+    // Signing in again as an account that is already in another slot replaces it.
+    for (const accountId of duplicates) clearAccountSlotRef.current(accountRegistry, accountId);
+  }, [accountRegistry, activeAccountId, currentUser, sessionManager]);
+
+  // Forward session events to config.onSessionEvent. Read through a ref so an
+  // inline handler doesn't resubscribe on every render.
+  const onSessionEventRef = useRef(config.onSessionEvent);
+  onSessionEventRef.current = config.onSessionEvent;
+
+  useEffect(
+    () => sessionManager.onAny(event => onSessionEventRef.current?.(event)),
+    [sessionManager]
+  );
+
+  // A logout, expiry or new login ends the session that made the last
+  // switchToTenant(), so context headers fall back to the context tenant.
+  useEffect(
+    () =>
+      sessionManager.onAny(event => {
+        if (event.type === 'login' || event.type === 'logout' || event.type === 'expired') {
+          switchedTenantRef.current = null;
+        }
+      }),
+    [sessionManager]
+  );
+
+  // Settle a pending requireRecentAuth() once the user has re-authenticated
+  // (here, or via a magic link opened in another tab), or the session is gone.
+  useEffect(() => {
+    if (!reauthRequest) return;
+    if (!sessionManager.hasSession()) {
+      settleReauth(new ReauthenticationRequiredError('session_ended'));
+      return;
+    }
+    const authTime = sessionManager.getAuthTime();
+    const before = reauthDeferredRef.current?.authTimeAtRequest ?? null;
+    if (authTime !== null && (before === null || authTime > before)) settleReauth();
+  }, [sessionTick, reauthRequest, sessionManager, settleReauth]);
 
   // Cross-tab reconciler: when another tab clears the session (logout, expiry),
   // SessionManager's storage listener fires `notify()` which bumps sessionTick.
   // We use it to drop our local React state mirrors of user/tenants. We must
   // NOT do this before bootstrap completes — during bootstrap the session is
   // legitimately not-yet-valid and we shouldn't fire spurious cleanup.
+  const tokenUserIdRef = useRef<string | null>(null);
+
   useEffect(() => {
     if (!bootstrapDone) return;
     if (!sessionManager.hasValidSession() && currentUser !== null) {
@@ -809,6 +1532,27 @@ export function AuthProvider({ config = {}, children }: AuthProviderProps) {
       setUserError(null);
       setUserTenants([]);
       clearUserTenants();
+      return;
+    }
+    // Another tab started or stopped impersonating: the shared tokens now
+    // belong to a different user. Keyed on the token's user changing, so a
+    // user record whose id doesn't match the claim can't cause a reload loop.
+    const userId = sessionManager.getUserId();
+    const previousUserId = tokenUserIdRef.current;
+    tokenUserIdRef.current = userId;
+    if (
+      previousUserId &&
+      userId &&
+      previousUserId !== userId &&
+      currentUser !== null &&
+      currentUser.id !== userId
+    ) {
+      const cached = sessionManager.getUser();
+      if (cached?.id === userId) {
+        setCurrentUser(cached);
+      } else {
+        actionsImplRef.current.loadUserData(true).catch(() => {});
+      }
     }
   }, [sessionTick, bootstrapDone, currentUser, sessionManager]);
 
@@ -34,6 +34,7 @@ export function FeatureFlagProvider({ config = {}, children }: FeatureFlagProvid
 
   const baseUrl = appContext?.baseUrl ?? '';
   const appId = appContext?.appId ?? '';
+  const createHttpService = appContext?.createHttpService;
   const tenant = tenantContext?.tenant ?? null;
 
   const [featureFlags, setFeatureFlags] = useState<FeatureFlagItem[]>([]);
@@ -42,9 +43,9 @@ export function FeatureFlagProvider({ config = {}, children }: FeatureFlagProvid
   const [initialLoadDone, setInitialLoadDone] = useState(false);
 
   const featureFlagService = useMemo(() => {
-    const httpService = new HttpService(baseUrl);
+    const httpService = createHttpService ? createHttpService() : new HttpService(baseUrl);
     return new FeatureFlagApiService(httpService);
-  }, [baseUrl]);
+  }, [baseUrl, createHttpService]);
 
   const fetchFeatureFlags = async () => {
     if (!tenant?.id) {
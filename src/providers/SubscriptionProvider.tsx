@@ -36,6 +36,7 @@ export function SubscriptionProvider({ config = {}, children }: SubscriptionProv
   const tenantContext = useTenantOptional();
 
   const baseUrl = appContext?.baseUrl ?? '';
+  const createHttpService = appContext?.createHttpService;
   const tenant = tenantContext?.tenant ?? null;
 
   const [subscription, setSubscription] = useState<TenantSubscriptionFeatures | null>(null);
@@ -45,9 +46,9 @@ export function SubscriptionProvider({ config = {}, children }: SubscriptionProv
 
   // Create subscription service
   const subscriptionService = useMemo(() => {
-    const httpService = new HttpService(baseUrl);
+    const httpService = createHttpService ? createHttpService() : new HttpService(baseUrl);
     return new SubscriptionApiService(httpService);
-  }, [baseUrl]);
+  }, [baseUrl, createHttpService]);
 
   const fetchSubscription = async () => {
     if (!tenant?.id) {
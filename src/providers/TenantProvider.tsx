@@ -7,7 +7,6 @@ import {
   useMemo,
   useState,
 } from 'react';
-import { HttpService } from '../services/HttpService';
 import { TenantApiService } from '../services/TenantApiService';
 import type { JSONSchema, PublicTenantInfo, TenantSettings } from '../types/api';
 import { buildTenantHostname, detectTenantSlug as detectTenant } from '../utils/tenantDetection';
@@ -66,7 +65,7 @@ interface TenantProviderProps {
 }
 
 export function TenantProvider({ config, children }: TenantProviderProps) {
-  const { baseUrl, appInfo, appId } = useApp();
+  const { appInfo, appId, createHttpService } = useApp();
 
   // Detect tenant slug from URL using extracted utility
   const detectTenantSlug = useCallback((): string | null => {
@@ -153,7 +152,7 @@ export function TenantProvider({ config, children }: TenantProviderProps) {
         setIsTenantLoading(true);
         setTenantError(null);
 
-        const httpService = new HttpService(baseUrl);
+        const httpService = createHttpService();
         const tenantApi = new TenantApiService(httpService, appId);
         const tenantInfo = await tenantApi.getPublicTenantInfo(slug);
         setTenant(tenantInfo);
@@ -181,7 +180,7 @@ export function TenantProvider({ config, children }: TenantProviderProps) {
         setIsTenantLoading(false);
       }
     },
-    [baseUrl, appId, cacheConfig, tenant]
+    [createHttpService, appId, cacheConfig, tenant]
   );
 
   // Background refresh for stale-while-revalidate
@@ -197,7 +196,7 @@ export function TenantProvider({ config, children }: TenantProviderProps) {
 
       // If cache is more than 50% expired, refresh in background
       if (age > cacheConfig.ttl * 0.5) {
-        const httpService = new HttpService(baseUrl);
+        const httpService = createHttpService();
         const tenantApi = new TenantApiService(httpService, appId);
         const tenantInfo = await tenantApi.getPublicTenantInfo(tenantSlug);
 
@@ -216,7 +215,7 @@ export function TenantProvider({ config, children }: TenantProviderProps) {
       }
       // Don't update error state - keep showing cached data
     }
-  }, [baseUrl, appId, cacheConfig, tenant, tenantSlug]);
+  }, [createHttpService, appId, cacheConfig, tenant, tenantSlug]);
 
   // Load tenant settings
   const loadSettings = useCallback(async () => {
@@ -226,7 +225,7 @@ export function TenantProvider({ config, children }: TenantProviderProps) {
       setIsSettingsLoading(true);
       setSettingsError(null);
 
-      const httpService = new HttpService(baseUrl);
+      const httpService = createHttpService();
       const tenantApi = new TenantApiService(httpService, tenant.appId);
       const tenantSettings = await tenantApi.getTenantSettings(tenant.id);
       setSettings(tenantSettings);
@@ -237,7 +236,7 @@ export function TenantProvider({ config, children }: TenantProviderProps) {
     } finally {
       setIsSettingsLoading(false);
     }
-  }, [baseUrl, tenant]);
+  }, [createHttpService, tenant]);
 
   // Refresh settings
   const refreshSettings = useCallback(() => {
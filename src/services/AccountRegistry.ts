@@ -0,0 +1,202 @@
+/** Slot id of the account stored under the configured storageKey itself. */
+export const PRIMARY_ACCOUNT_ID = 'primary';
+
+/** A signed-in account kept alongside the active one (AuthConfig.multiAccount). */
+export interface AccountInfo {
+  /** Slot id. Stable for the life of the account; pass it to switchAccount(). */
+  id: string;
+  /** SessionManager storageKey holding this account's tokens. */
+  storageKey: string;
+  userId: string;
+  email: string | null;
+  name: string | null;
+  userType: string | null;
+  tenantId: string | null;
+  addedAt: number;
+  lastUsedAt: number;
+}
+
+interface RegistryData {
+  /** May name a slot that is not in `accounts` yet (an add in progress). */
+  activeId: string;
+  accounts: AccountInfo[];
+}
+
+const EMPTY: RegistryData = { activeId: PRIMARY_ACCOUNT_ID, accounts: [] };
+
+/**
+ * Persistent list of the accounts signed in on this browser, plus which slot
+ * is active. Lives in localStorage under `${storageKey}:accounts` — it holds
+ * display data and slot ids, never tokens; each account's tokens live in its
+ * own SessionManager slot (`storageKey` for the primary account,
+ * `${storageKey}:${id}` for the others).
+ *
+ * Other tabs' changes to the list are picked up through the `storage` event;
+ * the active slot is per tab once loaded (switching in one tab does not
+ * switch the others) but persisted, so a reload reopens the last account.
+ */
+export class AccountRegistry {
+  private readonly baseStorageKey: string;
+  private readonly registryKey: string;
+  private data: RegistryData;
+  private listeners = new Set<() => void>();
+  private storageListener: ((e: StorageEvent) => void) | null = null;
+
+  constructor(baseStorageKey: string) {
+    this.baseStorageKey = baseStorageKey;
+    this.registryKey = `${baseStorageKey}:accounts`;
+    this.data = this.read();
+  }
+
+  storageKeyFor(id: string): string {
+    return id === PRIMARY_ACCOUNT_ID ? this.baseStorageKey : `${this.baseStorageKey}:${id}`;
+  }
+
+  getActiveId(): string {
+    return this.data.activeId;
+  }
+
+  /** Registered accounts, most recently used first. Stable between changes. */
+  getAccounts(): AccountInfo[] {
+    return this.data.accounts;
+  }
+
+  get(id: string): AccountInfo | undefined {
+    return this.data.accounts.find(account => account.id === id);
+  }
+
+  /** Returns the id of an unused slot for a new account. */
+  createSlotId(): string {
+    const random =
+      typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID().slice(0, 8)
+        : Math.random().toString(36).slice(2, 10);
+    return `account-${random}`;
+  }
+
+  setActive(id: string): void {
+    const now = Date.now();
+    this.write({
+      activeId: id,
+      accounts: this.sorted(
+        this.data.accounts.map(account =>
+          account.id === id ? { ...account, lastUsedAt: now } : account
+        )
+      ),
+    });
+  }
+
+  /**
+   * Add or update the account in slot `account.id`. Returns the ids of other
+   * slots holding the same identity (same user and tenant); they are dropped
+   * from the list and the caller should clear their tokens.
+   */
+  upsert(account: Omit<AccountInfo, 'storageKey' | 'addedAt' | 'lastUsedAt'>): string[] {
+    const existing = this.get(account.id);
+    const duplicates = this.data.accounts
+      .filter(
+        other =>
+          other.id !== account.id &&
+          other.userId === account.userId &&
+          other.tenantId === account.tenantId
+      )
+      .map(other => other.id);
+
+    const now = Date.now();
+    const next: AccountInfo = {
+      ...account,
+      storageKey: this.storageKeyFor(account.id),
+      addedAt: existing?.addedAt ?? now,
+      lastUsedAt: account.id === this.data.activeId ? now : (existing?.lastUsedAt ?? now),
+    };
+    const unchanged =
+      existing &&
+      duplicates.length === 0 &&
+      (Object.keys(account) as (keyof typeof account)[]).every(
+        key => existing[key] === account[key]
+      );
+    if (unchanged) return [];
+
+    this.write({
+      activeId: this.data.activeId,
+      accounts: this.sorted([
+        next,
+        ...this.data.accounts.filter(
+          other => other.id !== account.id && !duplicates.includes(other.id)
+        ),
+      ]),
+    });
+    return duplicates;
+  }
+
+  remove(id: string): void {
+    if (!this.get(id)) return;
+    this.write({
+      activeId: this.data.activeId,
+      accounts: this.data.accounts.filter(account => account.id !== id),
+    });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.attachStorageListener();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.detachStorageListener();
+    };
+  }
+
+  private sorted(accounts: AccountInfo[]): AccountInfo[] {
+    return [...accounts].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  private read(): RegistryData {
+    try {
+      const raw = localStorage.getItem(this.registryKey);
+      if (!raw) return EMPTY;
+      const parsed = JSON.parse(raw);
+      if (typeof parsed?.activeId !== 'string' || !Array.isArray(parsed.accounts)) return EMPTY;
+      return parsed;
+    } catch {
+      return EMPTY;
+    }
+  }
+
+  private write(data: RegistryData): void {
+    this.data = data;
+    try {
+      localStorage.setItem(this.registryKey, JSON.stringify(data));
+    } catch {
+      // Storage unavailable — the list survives in memory for this tab only.
+    }
+    this.emit();
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch {
+        // A misbehaving listener must not break the others.
+      }
+    }
+  }
+
+  private attachStorageListener(): void {
+    if (typeof window === 'undefined' || typeof window.addEventListener !== 'function') return;
+    this.storageListener = (e: StorageEvent) => {
+      if (e.key !== this.registryKey) return;
+      // Adopt the other tab's list but keep this tab's active slot.
+      this.data = { ...this.read(), activeId: this.data.activeId };
+      this.emit();
+    };
+    window.addEventListener('storage', this.storageListener);
+  }
+
+  private detachStorageListener(): void {
+    if (this.storageListener && typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.storageListener);
+    }
+    this.storageListener = null;
+  }
+}
@@ -1,63 +1,70 @@
-import type {
-  ApiResponse,
-  App,
-  CreateAppRequest,
-  PaginationParams,
-  PublicAppInfo,
-} from '../types/api';
-import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import type { App, AppPage, CreateAppRequest, PaginationParams, PublicAppInfo } from '../types/api';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class AppApiService {
   constructor(private httpService: HttpService) {}
 
-  async createApp(request: CreateAppRequest): Promise<App> {
-    const response = await this.httpService.post<ApiResponse<App>>('/apps/', request);
-    return response.data;
+  async createApp(request: CreateAppRequest, options?: ApiCallOptions): Promise<App> {
+    const response = await this.httpService.post('/apps/', request, options);
+    return unwrapData<App>(response);
   }
 
-  async getApps(params?: PaginationParams): Promise<{ apps: App[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<App[]>>(
-      `/apps/${buildPaginationQuery(params)}`
-    );
-    return { apps: response.data, meta: response.meta };
+  async getApps(params?: PaginationParams, options?: ApiCallOptions): Promise<AppPage> {
+    const page = await this.httpService.getPaginated<App>('/apps/', { ...options, query: params });
+    return { ...page, apps: page.items };
   }
 
-  async getAppById(id: string): Promise<App> {
-    const response = await this.httpService.get<ApiResponse<App>>(`/apps/${id}`);
-    return response.data;
+  async getAppById(id: string, options?: ApiCallOptions): Promise<App> {
+    const response = await this.httpService.get(`/apps/${id}`, options);
+    return unwrapData<App>(response);
   }
 
-  async updateApp(id: string, request: Partial<CreateAppRequest>): Promise<App> {
-    const response = await this.httpService.put<ApiResponse<App>>(`/apps/${id}`, request);
-    return response.data;
+  async updateApp(
+    id: string,
+    request: Partial<CreateAppRequest>,
+    options?: ApiCallOptions
+  ): Promise<App> {
+    const response = await this.httpService.put(`/apps/${id}`, request, options);
+    return unwrapData<App>(response);
   }
 
-  async getPublicAppInfo(id: string): Promise<PublicAppInfo> {
-    const response = await this.httpService.get<ApiResponse<PublicAppInfo>>(`/apps/${id}/public`, {
+  async getPublicAppInfo(id: string, options?: ApiCallOptions): Promise<PublicAppInfo> {
+    const response = await this.httpService.get(`/apps/${id}/public`, {
+      ...options,
       skipAuth: true,
     });
-    return response.data;
+    return unwrapData<PublicAppInfo>(response);
   }
 
-  async setDefaultSubscriptionPlan(appId: string, planId: string): Promise<App> {
-    const response = await this.httpService.put<ApiResponse<App>>(
+  async setDefaultSubscriptionPlan(
+    appId: string,
+    planId: string,
+    options?: ApiCallOptions
+  ): Promise<App> {
+    const response = await this.httpService.put(
       `/apps/${appId}/default-subscription-plan`,
-      { planId }
+      { planId },
+      options
     );
-    return response.data;
+    return unwrapData<App>(response);
   }
 
-  async updateSettingsSchema(appId: string, schema: any, defaultSettings: any): Promise<App> {
-    const response = await this.httpService.put<ApiResponse<App>>(
+  async updateSettingsSchema(
+    appId: string,
+    schema: any,
+    defaultSettings: any,
+    options?: ApiCallOptions
+  ): Promise<App> {
+    const response = await this.httpService.put(
       `/apps/${appId}/settings-schema`,
-      { schema, defaultSettings }
+      { schema, defaultSettings },
+      options
     );
-    return response.data;
+    return unwrapData<App>(response);
   }
 
-  async exportConfig(appId: string): Promise<any> {
-    const response = await this.httpService.get<ApiResponse<any>>(`/apps/${appId}/export-config`);
-    return response.data;
+  async exportConfig(appId: string, options?: ApiCallOptions): Promise<any> {
+    const response = await this.httpService.get(`/apps/${appId}/export-config`, options);
+    return unwrapData<any>(response);
   }
 }
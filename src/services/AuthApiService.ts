@@ -1,8 +1,11 @@
 import type {
   ApiResponse,
   ChangePasswordRequest,
+  ImpersonateRequest,
+  ImpersonateResponse,
   LoginRequest,
   LoginResponse,
+  LogoutRequest,
   MagicLinkRequest,
   MagicLinkResponse,
   RefreshTokenRequest,
@@ -15,7 +18,7 @@ import type {
   VerifyMagicLinkRequest,
   VerifyMagicLinkResponse,
 } from '../types/api';
-import type { HttpService } from './HttpService';
+import type { ApiCallOptions, HttpService, RequestOptions } from './HttpService';
 
 interface VerificationCacheEntry {
   promise: Promise<VerifyMagicLinkResponse>;
@@ -37,53 +40,103 @@ export class AuthApiService {
   // Public endpoints - no auth required.
   // Must pass `{ skipAuth: true }` so HttpService does NOT call
   // SessionManager.getValidAccessToken (which throws when no tokens exist).
-  async login(request: LoginRequest): Promise<LoginResponse> {
-    return this.httpService.post<LoginResponse>('/auth/login', request, { skipAuth: true });
+  async login(request: LoginRequest, options?: ApiCallOptions): Promise<LoginResponse> {
+    return this.httpService.post<LoginResponse>('/auth/login', request, {
+      ...options,
+      skipAuth: true,
+    });
   }
 
-  async signup(request: SignupRequest): Promise<User> {
-    return this.httpService.post<User>('/auth/signup', request, { skipAuth: true });
+  async signup(request: SignupRequest, options?: ApiCallOptions): Promise<User> {
+    return this.httpService.post<User>('/auth/signup', request, { ...options, skipAuth: true });
   }
 
-  async signupTenantAdmin(request: {
-    email?: string;
-    phoneNumber?: string;
-    name: string;
-    lastName?: string;
-    password: string;
-    tenantName: string;
-    appId?: string;
-  }): Promise<{ user: User; tenant: any }> {
+  async signupTenantAdmin(
+    request: {
+      email?: string;
+      phoneNumber?: string;
+      name: string;
+      lastName?: string;
+      password: string;
+      tenantName: string;
+      appId?: string;
+    },
+    options?: ApiCallOptions
+  ): Promise<{ user: User; tenant: any }> {
     return this.httpService.post<{ user: User; tenant: any }>(
       '/auth/signup/tenant-admin',
       request,
-      { skipAuth: true }
+      { ...options, skipAuth: true }
     );
   }
 
-  async refreshToken(request: RefreshTokenRequest): Promise<RefreshTokenResponse> {
+  async refreshToken(
+    request: RefreshTokenRequest,
+    options?: ApiCallOptions
+  ): Promise<RefreshTokenResponse> {
     return this.httpService.post<RefreshTokenResponse>('/auth/refresh', request, {
+      ...options,
       skipAuth: true,
     });
   }
 
-  async switchTenant(request: SwitchTenantRequest): Promise<SwitchTenantResponse> {
+  /**
+   * Revoke a refresh token server-side. `endpoint` overrides the default
+   * '/auth/logout'; pass `credentials: 'include'` to clear an HttpOnly
+   * refresh cookie.
+   */
+  async logout(
+    request: LogoutRequest,
+    endpoint = '/auth/logout',
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.httpService.post<void>(endpoint, request, options);
+  }
+
+  /** Revoke every session of the current user. `endpoint` defaults to '/auth/logout-all'. */
+  async logoutAll(endpoint = '/auth/logout-all', options?: RequestOptions): Promise<void> {
+    await this.httpService.post<void>(endpoint, {}, options);
+  }
+
+  async switchTenant(
+    request: SwitchTenantRequest,
+    options?: ApiCallOptions
+  ): Promise<SwitchTenantResponse> {
     const response = await this.httpService.post<SwitchTenantResponse>(
       '/auth/switch-tenant',
-      request
+      request,
+      options
     );
     return response;
   }
 
-  async getUserTenants(): Promise<UserTenantMembership[]> {
-    return this.httpService.get<UserTenantMembership[]>('/auth/tenants');
+  /** SUPERUSER only. `endpoint` overrides the default '/auth/impersonate'. */
+  async impersonate(
+    request: ImpersonateRequest,
+    endpoint = '/auth/impersonate',
+    options?: ApiCallOptions
+  ): Promise<ImpersonateResponse> {
+    return this.httpService.post<ImpersonateResponse>(endpoint, request, options);
   }
 
-  async requestPasswordReset(request: { email: string; tenantId: string }): Promise<void> {
-    await this.httpService.post<void>('/auth/password-reset/request', request, { skipAuth: true });
+  async getUserTenants(options?: ApiCallOptions): Promise<UserTenantMembership[]> {
+    return this.httpService.get<UserTenantMembership[]>('/auth/tenants', options);
   }
 
-  async sendMagicLink(request: MagicLinkRequest): Promise<MagicLinkResponse> {
+  async requestPasswordReset(
+    request: { email: string; tenantId: string },
+    options?: ApiCallOptions
+  ): Promise<void> {
+    await this.httpService.post<void>('/auth/password-reset/request', request, {
+      ...options,
+      skipAuth: true,
+    });
+  }
+
+  async sendMagicLink(
+    request: MagicLinkRequest,
+    options?: ApiCallOptions
+  ): Promise<MagicLinkResponse> {
     const key = JSON.stringify([
       request.email,
       request.tenantId,
@@ -94,7 +147,7 @@ export class AuthApiService {
     if (pending) return pending;
 
     const promise = this.httpService
-      .post<MagicLinkResponse>('/auth/magic-link/send', request, { skipAuth: true })
+      .post<MagicLinkResponse>('/auth/magic-link/send', request, { ...options, skipAuth: true })
       .finally(() => {
         this.pendingMagicLinks.delete(key);
       });
@@ -103,7 +156,10 @@ export class AuthApiService {
     return promise;
   }
 
-  async verifyMagicLink(request: VerifyMagicLinkRequest): Promise<VerifyMagicLinkResponse> {
+  async verifyMagicLink(
+    request: VerifyMagicLinkRequest,
+    options?: ApiCallOptions
+  ): Promise<VerifyMagicLinkResponse> {
     const key = request.token;
     const cached = this.verificationCache.get(key);
     if (cached) return cached.promise;
@@ -111,7 +167,7 @@ export class AuthApiService {
     const promise = this.httpService.post<VerifyMagicLinkResponse>(
       '/auth/magic-link/verify',
       request,
-      { skipAuth: true }
+      { ...options, skipAuth: true }
     );
 
     const entry: VerificationCacheEntry = { promise };
@@ -132,11 +188,17 @@ export class AuthApiService {
     return promise;
   }
 
-  async confirmPasswordReset(request: { token: string; newPassword: string }): Promise<void> {
-    await this.httpService.post<void>('/auth/password-reset/confirm', request, { skipAuth: true });
+  async confirmPasswordReset(
+    request: { token: string; newPassword: string },
+    options?: ApiCallOptions
+  ): Promise<void> {
+    await this.httpService.post<void>('/auth/password-reset/confirm', request, {
+      ...options,
+      skipAuth: true,
+    });
   }
 
-  async changePassword(request: ChangePasswordRequest): Promise<void> {
-    await this.httpService.post<ApiResponse<null>>('/auth/change-password', request);
+  async changePassword(request: ChangePasswordRequest, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.post<ApiResponse<null>>('/auth/change-password', request, options);
   }
 }
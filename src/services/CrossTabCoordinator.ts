@@ -0,0 +1,99 @@
+import type { TokenData } from './SessionManager';
+
+/**
+ * Messages exchanged between tabs in `crossTabCoordination: 'leader'` mode.
+ * The leader owns the refresh chain; followers ask it for fresh tokens and
+ * apply whatever it broadcasts.
+ */
+export type CrossTabMessage =
+  | { type: 'tokens'; tokens: TokenData }
+  | { type: 'cleared' }
+  | { type: 'refresh-request'; force: boolean; requestId: string }
+  /** Leader's answer to one request whose refresh failed transiently. */
+  | { type: 'refresh-failed'; message: string; requestId: string }
+  /** Leader's answer to one request when it holds no session to refresh. */
+  | { type: 'no-tokens'; requestId: string };
+
+export interface CrossTabCoordinatorHandlers {
+  onMessage: (message: CrossTabMessage) => void;
+  onLeadershipAcquired: () => void;
+}
+
+/**
+ * Leader election + message bus for one storage key.
+ *
+ * Leadership is a Web Lock held for the lifetime of the tab: the first tab to
+ * request it becomes leader, the rest queue behind it, and the browser hands
+ * the lock to the next waiter when the leader closes (or crashes). Tokens and
+ * refresh requests travel over a BroadcastChannel of the same name.
+ */
+export class CrossTabCoordinator {
+  /** True when the runtime has both Web Locks and BroadcastChannel. */
+  static isSupported(): boolean {
+    return (
+      typeof navigator !== 'undefined' &&
+      !!navigator.locks &&
+      typeof BroadcastChannel !== 'undefined'
+    );
+  }
+
+  private readonly name: string;
+  private readonly handlers: CrossTabCoordinatorHandlers;
+  private channel: BroadcastChannel | null = null;
+  private abortController: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+  private leader = false;
+  private stopped = false;
+
+  constructor(storageKey: string, handlers: CrossTabCoordinatorHandlers) {
+    this.name = `session-leader:${storageKey}`;
+    this.handlers = handlers;
+  }
+
+  start(): void {
+    this.channel = new BroadcastChannel(this.name);
+    this.channel.onmessage = (event: MessageEvent<CrossTabMessage>) => {
+      if (this.stopped || !event.data || typeof event.data.type !== 'string') return;
+      this.handlers.onMessage(event.data);
+    };
+
+    this.abortController = new AbortController();
+    navigator.locks
+      .request(this.name, { signal: this.abortController.signal }, () => {
+        if (this.stopped) return undefined;
+        this.leader = true;
+        this.handlers.onLeadershipAcquired();
+        // Hold the lock until stop(); the browser releases it if the tab dies.
+        return new Promise<void>(resolve => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch(() => {
+        // AbortError when stop() runs while still queued — expected.
+      });
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  post(message: CrossTabMessage): void {
+    if (this.stopped || !this.channel) return;
+    try {
+      this.channel.postMessage(message);
+    } catch {
+      // Channel closed or payload not cloneable — other tabs fall back to
+      // storage events / their own refresh.
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.leader = false;
+    this.abortController?.abort();
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.channel?.close();
+    this.channel = null;
+  }
+}
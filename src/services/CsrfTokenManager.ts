@@ -0,0 +1,72 @@
+import { isStateChangingMethod, readCookie } from '../utils/csrf';
+import type { CsrfConfig } from './SessionManager';
+
+/**
+ * Holds the CSRF token of a cookie-authenticated session. The token is read
+ * from `cookieName` when the server sets a JS-readable cookie, otherwise it
+ * is the last value seen in the `responseHeaderName` header of any response
+ * (or the `csrfToken` field of the fetch endpoint). Either way the newest
+ * token the server issued is the one sent, so rotation needs no extra step.
+ */
+export class CsrfTokenManager {
+  private readonly config: Required<Omit<CsrfConfig, 'fetchPath'>>;
+  private readonly fetchUrl: () => string;
+  private headerToken: string | null = null;
+  private fetchPromise: Promise<boolean> | null = null;
+
+  /** `fetchUrl` resolves the token endpoint at call time, so baseUrl updates apply. */
+  constructor(config: Required<Omit<CsrfConfig, 'fetchPath'>>, fetchUrl: () => string) {
+    this.config = config;
+    this.fetchUrl = fetchUrl;
+  }
+
+  getToken(): string | null {
+    return readCookie(this.config.cookieName) ?? this.headerToken;
+  }
+
+  /** The CSRF header for `method`; empty for safe methods or without a token. */
+  getHeaders(method: string): Record<string, string> {
+    if (!isStateChangingMethod(method)) return {};
+    const token = this.getToken();
+    return token ? { [this.config.headerName]: token } : {};
+  }
+
+  /** Pick up a token the server rotated through the response header. */
+  acceptResponse(response: Response): void {
+    const token = response.headers?.get?.(this.config.responseHeaderName);
+    if (token) this.headerToken = token;
+  }
+
+  /**
+   * Ask the token endpoint for a fresh token (it may set the cookie, the
+   * response header or return `{ csrfToken }`). Resolves true when a token
+   * is available afterwards; never rejects. Concurrent calls share one
+   * request.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.fetchPromise) {
+      this.fetchPromise = this.fetchToken()
+        .catch(() => false)
+        .finally(() => {
+          this.fetchPromise = null;
+        });
+    }
+    return this.fetchPromise;
+  }
+
+  private async fetchToken(): Promise<boolean> {
+    const response = await fetch(this.fetchUrl(), {
+      method: 'GET',
+      headers: { Accept: 'application/json' },
+      credentials: 'include',
+    });
+    this.acceptResponse(response);
+    if (!response.ok) return false;
+    if (response.headers?.get?.('content-type')?.includes('application/json')) {
+      const body = await response.json();
+      const token = body?.csrfToken ?? body?.data?.csrfToken;
+      if (typeof token === 'string' && token) this.headerToken = token;
+    }
+    return this.getToken() !== null;
+  }
+}
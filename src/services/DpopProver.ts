@@ -0,0 +1,123 @@
+import { createObjectStoreRunner, getOrCreateRecord } from '../utils/indexedDb';
+import { bytesToBase64Url } from '../utils/jwt';
+
+const KEY_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+interface LoadedKey {
+  privateKey: CryptoKey;
+  /** Public half as embedded in every proof header. */
+  jwk: JsonWebKey;
+}
+
+function encodeSegment(value: Record<string, unknown>): string {
+  return bytesToBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/** `htu` is the request URL without query and fragment. */
+function targetUri(url: string): string {
+  const parsed = new URL(url, typeof location !== 'undefined' ? location.href : undefined);
+  return `${parsed.origin}${parsed.pathname}`;
+}
+
+/**
+ * Signs DPoP proofs (RFC 9449) with an ES256 key pair generated once under
+ * `keyId`. The private key is non-extractable and kept in IndexedDB so
+ * reloads and other tabs sharing the session present the same key — tokens
+ * bound to it are useless outside this browser profile. Without IndexedDB
+ * the key lives in memory and a reload needs a fresh login.
+ *
+ * The latest `DPoP-Nonce` the server sent is included in later proofs.
+ */
+export class DpopProver {
+  private readonly keyId: string;
+  private readonly now: () => number;
+  private key: Promise<LoadedKey> | null = null;
+  private nonce: string | null = null;
+
+  /** `now` is the server-aligned clock used for `iat`. */
+  constructor(keyId: string, now: () => number = Date.now) {
+    this.keyId = keyId;
+    this.now = now;
+  }
+
+  /**
+   * Build the `DPoP` header value for one request. Pass the access token
+   * sent alongside so the proof carries its hash (`ath`).
+   */
+  async createProof(method: string, url: string, accessToken?: string): Promise<string> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('DPoP requires WebCrypto (crypto.subtle)');
+    }
+    const { privateKey, jwk } = await this.loadKey();
+    const header = { typ: 'dpop+jwt', alg: 'ES256', jwk };
+    const payload = {
+      jti: bytesToBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+      htm: method.toUpperCase(),
+      htu: targetUri(url),
+      iat: Math.floor(this.now() / 1000),
+      ...(accessToken && {
+        ath: bytesToBase64Url(
+          new Uint8Array(
+            await crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessToken))
+          )
+        ),
+      }),
+      ...(this.nonce && { nonce: this.nonce }),
+    };
+    const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+    const signature = await crypto.subtle.sign(
+      SIGN_PARAMS,
+      privateKey,
+      new TextEncoder().encode(signingInput)
+    );
+    return `${signingInput}.${bytesToBase64Url(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Remember the `DPoP-Nonce` of a response. Returns true when a failed
+   * response brought a new nonce — the server is asking for a retry with a
+   * fresh proof (`use_dpop_nonce`).
+   */
+  acceptNonce(response: Response): boolean {
+    const nonce = response.headers?.get?.('DPoP-Nonce');
+    if (!nonce || nonce === this.nonce) return false;
+    this.nonce = nonce;
+    return !response.ok;
+  }
+
+  private loadKey(): Promise<LoadedKey> {
+    if (!this.key) {
+      this.key = this.loadKeyPair().then(async keyPair => {
+        const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+        return { privateKey: keyPair.privateKey, jwk: { kty, crv, x, y } };
+      });
+      // Let the next proof try again instead of caching the failure.
+      this.key.catch(() => {
+        this.key = null;
+      });
+    }
+    return this.key;
+  }
+
+  private async loadKeyPair(): Promise<CryptoKeyPair> {
+    const generate = () =>
+      crypto.subtle.generateKey(KEY_PARAMS, false, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+    if (typeof indexedDB === 'undefined') return generate();
+    try {
+      return await getOrCreateRecord(
+        createObjectStoreRunner('ria-keys', 'keys'),
+        this.keyId,
+        generate
+      );
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn(
+          '[DpopProver] Could not persist the DPoP key — using a memory-only key:',
+          error
+        );
+      }
+      return generate();
+    }
+  }
+}
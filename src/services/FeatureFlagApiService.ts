@@ -1,81 +1,88 @@
 import type {
-  ApiResponse,
   CreateFeatureFlagRequest,
   FeatureFlag,
   FeatureFlagItem,
+  FeatureFlagPage,
   FeatureFlagValueResponse,
   PaginationParams,
 } from '../types/api';
 import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class FeatureFlagApiService {
   constructor(private httpService: HttpService) {}
 
-  async createFeatureFlag(request: CreateFeatureFlagRequest): Promise<FeatureFlag> {
-    const response = await this.httpService.post<ApiResponse<FeatureFlag>>(
-      '/feature-flags/',
-      request
-    );
-    return response.data;
+  async createFeatureFlag(
+    request: CreateFeatureFlagRequest,
+    options?: ApiCallOptions
+  ): Promise<FeatureFlag> {
+    const response = await this.httpService.post('/feature-flags/', request, options);
+    return unwrapData<FeatureFlag>(response);
   }
 
   async getFeatureFlags(
-    params?: PaginationParams
-  ): Promise<{ featureFlags: FeatureFlag[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<FeatureFlag[]>>(
-      `/feature-flags/${buildPaginationQuery(params)}`
-    );
-    return { featureFlags: response.data, meta: response.meta };
+    params?: PaginationParams,
+    options?: ApiCallOptions
+  ): Promise<FeatureFlagPage> {
+    const page = await this.httpService.getPaginated<FeatureFlag>('/feature-flags/', {
+      ...options,
+      query: params,
+    });
+    return { ...page, featureFlags: page.items };
   }
 
-  async getFeatureFlagById(id: string): Promise<FeatureFlag> {
-    const response = await this.httpService.get<ApiResponse<FeatureFlag>>(`/feature-flags/${id}`);
-    return response.data;
+  async getFeatureFlagById(id: string, options?: ApiCallOptions): Promise<FeatureFlag> {
+    const response = await this.httpService.get(`/feature-flags/${id}`, options);
+    return unwrapData<FeatureFlag>(response);
   }
 
   async updateFeatureFlag(
     id: string,
-    request: Partial<CreateFeatureFlagRequest>
+    request: Partial<CreateFeatureFlagRequest>,
+    options?: ApiCallOptions
   ): Promise<FeatureFlag> {
-    const response = await this.httpService.put<ApiResponse<FeatureFlag>>(
-      `/feature-flags/${id}`,
-      request
-    );
-    return response.data;
+    const response = await this.httpService.put(`/feature-flags/${id}`, request, options);
+    return unwrapData<FeatureFlag>(response);
   }
 
-  async deleteFeatureFlag(id: string): Promise<void> {
-    await this.httpService.delete<void>(`/feature-flags/${id}`);
+  async deleteFeatureFlag(id: string, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.delete<void>(`/feature-flags/${id}`, options);
   }
 
-  async getTenantFeatureFlags(tenantId: string, appId: string): Promise<FeatureFlagItem[]> {
+  async getTenantFeatureFlags(
+    tenantId: string,
+    appId: string,
+    options?: ApiCallOptions
+  ): Promise<FeatureFlagItem[]> {
     if (!tenantId || !appId) {
       throw new Error('Tenant ID and App ID are required');
     }
 
     const query = buildPaginationQuery({ tenantId, appId });
-    const response = await this.httpService.get<ApiResponse<FeatureFlagItem[]>>(
-      `/tenant-feature-flags${query}`,
-      { headers: { 'X-Tenant-ID': tenantId }, skipAuth: true }
-    );
-    return response.data;
+    const response = await this.httpService.get(`/tenant-feature-flags${query}`, {
+      ...options,
+      headers: { 'X-Tenant-ID': tenantId },
+      skipAuth: true,
+    });
+    return unwrapData<FeatureFlagItem[]>(response);
   }
 
   async getTenantFeatureFlag(
     flagKey: string,
     tenantId: string,
-    appId: string
+    appId: string,
+    options?: ApiCallOptions
   ): Promise<FeatureFlagValueResponse> {
     if (!flagKey || !tenantId || !appId) {
       throw new Error('Flag Key, Tenant ID and App ID are required');
     }
 
     const query = buildPaginationQuery({ tenantId, appId });
-    const response = await this.httpService.get<ApiResponse<FeatureFlagValueResponse>>(
-      `/tenant-feature-flags/${flagKey}${query}`,
-      { headers: { 'X-Tenant-ID': tenantId }, skipAuth: true }
-    );
-    return response.data;
+    const response = await this.httpService.get(`/tenant-feature-flags/${flagKey}${query}`, {
+      ...options,
+      headers: { 'X-Tenant-ID': tenantId },
+      skipAuth: true,
+    });
+    return unwrapData<FeatureFlagValueResponse>(response);
   }
 }
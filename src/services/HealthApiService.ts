@@ -1,10 +1,10 @@
-import type { HttpService } from './HttpService';
+import type { ApiCallOptions, HttpService } from './HttpService';
 
 export class HealthApiService {
   constructor(private httpService: HttpService) {}
 
   // Public endpoint - no auth required
-  async checkHealth(): Promise<{ status: string }> {
-    return await this.httpService.get<{ status: string }>('/health');
+  async checkHealth(options?: ApiCallOptions): Promise<{ status: string }> {
+    return await this.httpService.get<{ status: string }>('/health', options);
   }
 }
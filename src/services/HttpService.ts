@@ -1,15 +1,283 @@
+import { HttpError, RequestAbortedError } from '../errors/HttpError';
+import { SessionExpiredError } from '../errors/SessionErrors';
+import type { Paginated, PaginationMeta, PaginationParams } from '../types/api';
+import { validateNumber } from '../utils/configValidation';
+import { isCsrfFailure } from '../utils/csrf';
+import { buildPaginationQuery } from '../utils/query';
+import { backoffDelay, parseRetryAfter, sleep } from '../utils/retry';
 import type { SessionManager } from './SessionManager';
 
 export interface RequestOptions {
   headers?: Record<string, string>;
   timeout?: number;
   skipAuth?: boolean; // Skip automatic auth header injection
+  credentials?: RequestCredentials; // 'include' to send/receive HttpOnly cookies cross-origin
+  authToken?: string; // Send this access token as-is (no refresh); combine with skipAuth
+  retry?: RetryPolicy | false; // Overrides the instance policy field by field; false disables
+  signal?: AbortSignal; // Cancels the request, including any pending retry
+  query?: QueryParams; // Appended to the endpoint; undefined, null and '' values are skipped
+  responseType?: HttpResponseType; // How to read a successful response. Default: 'json'
+  onUploadProgress?: (progress: UploadProgress) => void; // Sends the request through XMLHttpRequest
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+export type QueryParams = PaginationParams | Record<string, QueryValue>;
+
+/**
+ * 'json' parses JSON bodies and resolves {} for any other content type;
+ * 'blob' and 'text' read the body as such; 'stream' resolves the
+ * unread `ReadableStream` (null for an empty body).
+ */
+export type HttpResponseType = 'json' | 'blob' | 'text' | 'stream';
+
+/** Bytes of the request body sent so far; `total` is absent when unknown. */
+export interface UploadProgress {
+  loaded: number;
+  total?: number;
+}
+
+/** Per-call options every domain API service method accepts and forwards. */
+export type ApiCallOptions = Pick<RequestOptions, 'signal'>;
+
+/**
+ * When HttpService retries a failed request. A retry follows a response
+ * whose status is in `retryOn`, or a network failure (fetch rejecting with a
+ * TypeError); timeouts and other errors are final. 429 and 503 responses
+ * wait for their `Retry-After` header when present, and are not retried if
+ * it asks for more than `maxDelay`.
+ */
+export interface RetryPolicy {
+  /** Total attempts, the first included. Default: 3. */
+  maxAttempts?: number;
+  /** Backoff before the first retry, doubled for each later one, with full jitter. Default: 300. */
+  baseDelay?: number;
+  /** Longest wait before any retry, in ms. Default: 10000. */
+  maxDelay?: number;
+  /** Default: 408, 429, 500, 502, 503, 504. */
+  retryOn?: number[];
+  /** Methods that may be retried. Default: the idempotent GET, HEAD, OPTIONS, PUT, DELETE. */
+  methods?: string[];
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+};
+
+/** A request about to be sent. Interceptors may replace any field. */
+export interface HttpRequest {
+  method: string;
+  /** Absolute URL, baseUrl included. */
+  url: string;
+  headers: Record<string, string>;
+  /** Payload before JSON serialization; FormData and Blob bodies are sent as-is. */
+  body?: unknown;
+  options: RequestOptions;
+}
+
+/**
+ * A successful response. `data` is the body read per `responseType`: by
+ * default the parsed JSON ({} when there is none).
+ */
+export interface HttpResponse<T = unknown> {
+  request: HttpRequest;
+  response: Response;
+  data: T;
+}
+
+/** A retry about to be made, after `delay` ms. */
+export interface HttpRetry {
+  request: HttpRequest;
+  /** The attempt being scheduled; the first retry is attempt 2. */
+  attempt: number;
+  delay: number;
+  /** Why the previous attempt failed: an HttpError or a network error. */
+  error: unknown;
+}
+
+/**
+ * Hooks into every request of an HttpService; all are optional and may be
+ * async. `onRequest` runs on each attempt, after the auth and CSRF headers
+ * are set, and returns the request to send (or nothing to keep it).
+ * `onResponse` sees each successful response and may return a replacement,
+ * e.g. with a transformed `data`. `onError` sees the final failure: return
+ * a value to resolve the request with it, throw to replace the error, or
+ * return nothing to pass it on. `onRetry` is told about each retry before
+ * its wait starts.
+ *
+ * Global interceptors wrap instance ones: `onRequest` runs global first, in
+ * registration order; `onResponse` and `onError` run in reverse.
+ */
+export interface HttpInterceptor {
+  onRequest?: (
+    request: HttpRequest
+  ) => HttpRequest | void | Promise<HttpRequest | undefined> | Promise<void>;
+  onResponse?: (
+    response: HttpResponse
+  ) => HttpResponse | void | Promise<HttpResponse | undefined> | Promise<void>;
+  onError?: (error: unknown, request: HttpRequest) => unknown;
+  onRetry?: (retry: HttpRetry) => void | Promise<void>;
+}
+
+/** The last request attempted, for the error interceptors. */
+interface RequestTrace {
+  request: HttpRequest;
+}
+
+/**
+ * One-shot recoveries already spent on a request. Each is tracked on its own
+ * so, for example, a DPoP nonce retry that then gets a 401 still refreshes.
+ */
+interface SpentRetries {
+  dpopNonce?: boolean;
+  auth?: boolean;
+  csrf?: boolean;
+}
+
+/** Parsed JSON, text, or null for an error response's body. */
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    if (response.headers?.get?.('content-type')?.includes('application/json')) {
+      return await response.json();
+    }
+    return (await response.text()) || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Bodies fetch sends as-is, setting their own Content-Type (with the multipart boundary). */
+function isRawBody(body: unknown): body is FormData | Blob {
+  return (
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob)
+  );
+}
+
+function serializeBody(body: unknown): BodyInit | undefined {
+  if (isRawBody(body)) return body;
+  return body ? JSON.stringify(body) : undefined;
+}
+
+async function readBody(response: Response, responseType: HttpResponseType): Promise<unknown> {
+  switch (responseType) {
+    case 'blob':
+      return response.blob();
+    case 'text':
+      return response.text();
+    case 'stream':
+      return response.body;
+    default: {
+      const contentType = response.headers.get('content-type');
+      return contentType?.includes('application/json') ? response.json() : {};
+    }
+  }
+}
+
+/**
+ * fetch cannot report upload progress, so requests with `onUploadProgress`
+ * go through XMLHttpRequest. The result is wrapped in a Response, and network
+ * failures and aborts reject like fetch's do, so the rest of the pipeline
+ * cannot tell the difference.
+ */
+function sendWithProgress(
+  url: string,
+  init: RequestInit,
+  onProgress: (progress: UploadProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    for (const [name, value] of Object.entries(init.headers as Record<string, string>)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.upload.onprogress = event => {
+      onProgress({ loaded: event.loaded, ...(event.lengthComputable && { total: event.total }) });
+    };
+    xhr.onload = () => {
+      const headers = new Headers();
+      for (const line of xhr.getAllResponseHeaders().split(/\r?\n/)) {
+        const index = line.indexOf(':');
+        if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+      }
+      const nullBody = [101, 204, 205, 304].includes(xhr.status);
+      resolve(
+        new Response(nullBody ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers,
+        })
+      );
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (init.signal?.aborted) {
+      xhr.abort();
+      return;
+    }
+    init.signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send((init.body as XMLHttpRequestBodyInit | undefined) ?? null);
+  });
+}
+
+function isEnvelope(body: unknown): body is { data: unknown; meta?: PaginationMeta } {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) && 'data' in body;
+}
+
+/**
+ * The payload of an ApiResponse envelope, or the body itself from endpoints
+ * that skip the envelope.
+ */
+export function unwrapData<T>(body: unknown): T {
+  return (isEnvelope(body) ? body.data : body) as T;
+}
+
+/**
+ * Items and meta of a list response, enveloped or a bare array. Missing meta
+ * describes a single page.
+ */
+function readPage<T>(body: unknown, page: number): { items: T[]; meta: PaginationMeta } {
+  const data = unwrapData<unknown>(body);
+  const items = (Array.isArray(data) ? data : []) as T[];
+  const meta = (isEnvelope(body) ? body.meta : undefined) ?? {
+    total: items.length,
+    page,
+    limit: items.length,
+    totalPages: 1,
+    hasNext: false,
+    hasPrev: page > 1,
+  };
+  return { items, meta };
+}
+
+/**
+ * TypeErrors thrown by the network call itself. Interceptors and body
+ * serialization can throw TypeErrors too; those are bugs and never retried.
+ */
+const networkFailures = new WeakSet<object>();
+
+function isNetworkFailure(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && networkFailures.has(error);
+}
+
+function removeFrom<T>(list: T[], item: T): void {
+  const index = list.indexOf(item);
+  if (index !== -1) list.splice(index, 1);
 }
 
 export class HttpService {
+  private static globalInterceptors: HttpInterceptor[] = [];
+
   private baseUrl: string;
   private timeout: number;
   private sessionManager?: SessionManager;
+  private interceptors: HttpInterceptor[] = [];
+  private retryPolicy: RetryPolicy | null = null;
 
   constructor(baseUrl: string, timeout = 10000) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -24,43 +292,247 @@ export class HttpService {
     return this.baseUrl;
   }
 
+  /**
+   * Retry failed requests of this instance per `policy` (fields left out
+   * take the defaults), or never with null, the default. Requests can
+   * override it through `RequestOptions.retry`.
+   */
+  setRetryPolicy(policy: RetryPolicy | null): void {
+    validateNumber('retry.maxAttempts', policy?.maxAttempts, { min: 1 });
+    validateNumber('retry.baseDelay', policy?.baseDelay);
+    validateNumber('retry.maxDelay', policy?.maxDelay);
+    this.retryPolicy = policy;
+  }
+
+  /**
+   * Register an interceptor for every HttpService, including ones created
+   * later. Returns a function that removes it.
+   */
+  static addGlobalInterceptor(interceptor: HttpInterceptor): () => void {
+    HttpService.globalInterceptors.push(interceptor);
+    return () => removeFrom(HttpService.globalInterceptors, interceptor);
+  }
+
+  /** Register an interceptor for this instance. Returns a function that removes it. */
+  addInterceptor(interceptor: HttpInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => removeFrom(this.interceptors, interceptor);
+  }
+
+  private getInterceptors(): HttpInterceptor[] {
+    return [...HttpService.globalInterceptors, ...this.interceptors];
+  }
+
+  private buildUrl(endpoint: string, query?: QueryParams): string {
+    const url = `${this.baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+    const search = buildPaginationQuery(query);
+    return search && url.includes('?') ? `${url}&${search.slice(1)}` : `${url}${search}`;
+  }
+
+  private async request<T>(
+    method: string,
+    endpoint: string,
+    data?: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    const trace: RequestTrace = {
+      request: {
+        method,
+        url: this.buildUrl(endpoint, options?.query),
+        headers: { ...options?.headers },
+        body: data,
+        options: options ?? {},
+      },
+    };
+    try {
+      return await this.executeWithRetry<T>(method, endpoint, data, options, trace);
+    } catch (error) {
+      let current = error;
+      for (const interceptor of this.getInterceptors().reverse()) {
+        if (!interceptor.onError) continue;
+        try {
+          const recovered = await interceptor.onError(current, trace.request);
+          if (recovered !== undefined) return recovered as T;
+        } catch (replaced) {
+          current = replaced;
+        }
+      }
+      throw current;
+    }
+  }
+
+  private async executeWithRetry<T>(
+    method: string,
+    endpoint: string,
+    data: unknown,
+    options: RequestOptions | undefined,
+    trace: RequestTrace
+  ): Promise<T> {
+    const policy = this.resolveRetryPolicy(method, options);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.executeRequest<T>(method, endpoint, data, options, trace);
+      } catch (error) {
+        const delay =
+          policy && attempt < policy.maxAttempts && !options?.signal?.aborted
+            ? this.retryDelay(error, attempt, policy)
+            : null;
+        if (delay === null) throw error;
+
+        const retry: HttpRetry = { request: trace.request, attempt: attempt + 1, delay, error };
+        for (const interceptor of this.getInterceptors()) await interceptor.onRetry?.(retry);
+        this.sessionManager?.reportRequestRetry({
+          method: trace.request.method,
+          url: trace.request.url,
+          attempt: retry.attempt,
+          delayMs: delay,
+          status: error instanceof HttpError ? error.status : null,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        try {
+          await sleep(delay, options?.signal);
+        } catch (reason) {
+          throw new RequestAbortedError(trace.request.method, trace.request.url, reason);
+        }
+      }
+    }
+  }
+
+  private resolveRetryPolicy(
+    method: string,
+    options: RequestOptions | undefined
+  ): Required<RetryPolicy> | null {
+    if (options?.retry === false || (!this.retryPolicy && !options?.retry)) return null;
+    const policy = { ...DEFAULT_RETRY_POLICY, ...this.retryPolicy, ...options?.retry };
+    const retryable = policy.methods.some(m => m.toUpperCase() === method.toUpperCase());
+    return retryable && policy.maxAttempts > 1 ? policy : null;
+  }
+
+  /** ms to wait before retrying after `error`, or null when it is final. */
+  private retryDelay(error: unknown, retry: number, policy: Required<RetryPolicy>): number | null {
+    if (error instanceof HttpError) {
+      if (!policy.retryOn.includes(error.status)) return null;
+      if (error.status === 429 || error.status === 503) {
+        const retryAfter = parseRetryAfter(error.response.headers?.get?.('retry-after'));
+        if (retryAfter !== null) return retryAfter <= policy.maxDelay ? retryAfter : null;
+      }
+    } else if (!isNetworkFailure(error)) {
+      return null;
+    }
+    return backoffDelay(retry, policy.baseDelay, policy.maxDelay);
+  }
+
   private async executeRequest<T>(
     method: string,
     endpoint: string,
-    data?: any,
-    options?: RequestOptions,
-    isRetry = false
+    data: unknown,
+    options: RequestOptions | undefined,
+    trace: RequestTrace,
+    spent: SpentRetries = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+    const url = this.buildUrl(endpoint, options?.query);
     const requestTimeout = options?.timeout || this.timeout;
+    if (options?.signal?.aborted) {
+      throw new RequestAbortedError(method, url, options.signal.reason);
+    }
 
     // Inject auth headers via SessionManager.getValidAccessToken()
     // SessionManager handles refresh, queue, retry, and error classification
     let requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(!isRawBody(data) && { 'Content-Type': 'application/json' }),
       ...options?.headers,
     };
 
-    if (!options?.skipAuth && this.sessionManager) {
+    // BFF mode: the proxy holds the tokens and authenticates by cookie; the
+    // only credential JS adds is the CSRF header. Any request that sends
+    // cookies gets that header when CSRF protection is on.
+    const bff = this.sessionManager?.isBffMode() ?? false;
+    const credentials: RequestCredentials | undefined = bff ? 'include' : options?.credentials;
+    const csrf = credentials === 'include' && (this.sessionManager?.isCsrfEnabled() ?? false);
+    if (csrf && this.sessionManager) {
+      requestHeaders = { ...requestHeaders, ...this.sessionManager.getCsrfHeaders(method) };
+    }
+
+    let accessToken = bff ? undefined : options?.authToken;
+    if (!options?.skipAuth && !bff && this.sessionManager) {
       // SessionManager handles refresh, queue, retry, and error classification.
       // Throws SessionExpiredError | TokenRefreshTimeoutError | TokenRefreshError
       // which propagate to caller — they decide what to do.
-      const accessToken = await this.sessionManager.getValidAccessToken();
-      requestHeaders = { ...requestHeaders, Authorization: `Bearer ${accessToken}` };
+      accessToken = await this.sessionManager.getValidAccessToken();
+    }
+
+    // DPoP-bound tokens go out with the DPoP scheme and a proof signed for
+    // this exact request. Unauthenticated calls (login) get a proof too, so
+    // the tokens they return are bound to this browser's key.
+    const dpop = this.sessionManager?.isDpopEnabled() ?? false;
+    if (accessToken) {
+      requestHeaders = {
+        ...requestHeaders,
+        Authorization: `${dpop ? 'DPoP' : 'Bearer'} ${accessToken}`,
+      };
+    }
+
+    let request: HttpRequest = {
+      method,
+      url,
+      headers: requestHeaders,
+      body: data,
+      options: options ?? {},
+    };
+    for (const interceptor of this.getInterceptors()) {
+      if (interceptor.onRequest) request = (await interceptor.onRequest(request)) ?? request;
+    }
+    trace.request = request;
+
+    // Signed last, over the method and URL actually sent.
+    if (dpop && this.sessionManager) {
+      const proof = await this.sessionManager.createDpopProof(
+        request.method,
+        request.url,
+        accessToken
+      );
+      if (proof) request = { ...request, headers: { ...request.headers, DPoP: proof } };
     }
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
+    const abort = () => controller.abort();
+    if (options?.signal?.aborted) abort();
+    options?.signal?.addEventListener('abort', abort, { once: true });
 
     try {
-      const response = await fetch(url, {
-        method,
-        headers: requestHeaders,
-        body: data ? JSON.stringify(data) : undefined,
+      const init: RequestInit = {
+        method: request.method,
+        headers: request.headers,
+        body: serializeBody(request.body),
         signal: controller.signal,
-      });
+        ...(credentials && { credentials }),
+      };
+      let response: Response;
+      try {
+        response = options?.onUploadProgress
+          ? await sendWithProgress(request.url, init, options.onUploadProgress)
+          : await fetch(request.url, init);
+      } catch (error) {
+        if (error instanceof TypeError) networkFailures.add(error);
+        throw error;
+      }
 
       clearTimeout(timeoutId);
+      // A stream is read after we return, so the caller's signal stays
+      // connected to cancel it.
+      if (options?.responseType !== 'stream') {
+        options?.signal?.removeEventListener('abort', abort);
+      }
+      this.sessionManager?.acceptCsrfResponse(response);
+
+      // The server wants a proof carrying its new DPoP-Nonce.
+      if (dpop && this.sessionManager?.acceptDpopNonce(response) && !spent.dpopNonce) {
+        return this.executeRequest<T>(method, endpoint, data, options, trace, {
+          ...spent,
+          dpopNonce: true,
+        });
+      }
 
       // Server rejected the access token as invalid even though SessionManager
       // believed it was still valid (clock skew, backend-side revocation,
@@ -68,30 +540,62 @@ export class HttpService {
       // and retry the request exactly once. forceRefresh throws on no-refresh
       // or refresh-failed — that propagates out as the signal for the
       // provider's onSessionExpired callback to log the user out.
-      if (response.status === 401 && !options?.skipAuth && this.sessionManager && !isRetry) {
+      if (response.status === 401 && !options?.skipAuth && this.sessionManager && !spent.auth) {
         // Drain body so the connection can be released before the retry.
         try {
           await response.text();
         } catch {
           // ignore — we're discarding the payload anyway
         }
-        await this.sessionManager.forceRefresh();
-        return this.executeRequest<T>(method, endpoint, data, options, true);
+        if (!bff) {
+          await this.sessionManager.forceRefresh();
+        } else if (!(await this.sessionManager.syncSession())) {
+          // The proxy could not renew its session; syncSession expired ours.
+          throw new SessionExpiredError('token_invalid', 'Session ended on the server');
+        }
+        return this.executeRequest<T>(method, endpoint, data, options, trace, {
+          ...spent,
+          auth: true,
+        });
       }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // The server rejected the CSRF token (expired or rotated elsewhere).
+      // Fetch a fresh one and retry exactly once.
+      if (response.status === 403 && csrf && this.sessionManager && !spent.csrf) {
+        const body = await readErrorBody(response);
+        if (
+          isCsrfFailure(response.status, body) &&
+          (await this.sessionManager.refreshCsrfToken())
+        ) {
+          return this.executeRequest<T>(method, endpoint, data, options, trace, {
+            ...spent,
+            csrf: true,
+          });
+        }
+        throw new HttpError(response, body);
       }
 
-      // Handle empty responses
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        return {} as T;
+      if (!response.ok) {
+        throw new HttpError(response, await readErrorBody(response));
       }
 
-      return await response.json();
+      let result: HttpResponse = {
+        request,
+        response,
+        data: await readBody(response, options?.responseType ?? 'json'),
+      };
+      for (const interceptor of this.getInterceptors().reverse()) {
+        if (interceptor.onResponse) result = (await interceptor.onResponse(result)) ?? result;
+      }
+      return result.data as T;
     } catch (error) {
       clearTimeout(timeoutId);
+      options?.signal?.removeEventListener('abort', abort);
+
+      // Cancelled by the caller rather than by the timeout.
+      if (options?.signal?.aborted) {
+        throw new RequestAbortedError(request.method, request.url, options.signal.reason);
+      }
 
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Request timeout after ${requestTimeout}ms`);
@@ -102,18 +606,47 @@ export class HttpService {
   }
 
   async get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
-    return this.executeRequest<T>('GET', endpoint, undefined, options);
+    return this.request<T>('GET', endpoint, undefined, options);
   }
 
   async post<T>(endpoint: string, data: any, options?: RequestOptions): Promise<T> {
-    return this.executeRequest<T>('POST', endpoint, data, options);
+    return this.request<T>('POST', endpoint, data, options);
   }
 
   async put<T>(endpoint: string, data: any, options?: RequestOptions): Promise<T> {
-    return this.executeRequest<T>('PUT', endpoint, data, options);
+    return this.request<T>('PUT', endpoint, data, options);
+  }
+
+  async patch<T>(endpoint: string, data: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', endpoint, data, options);
   }
 
   async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
-    return this.executeRequest<T>('DELETE', endpoint, undefined, options);
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  /**
+   * GET a list endpoint and unwrap it into `{ items, meta }`. Page params go
+   * in `options.query`; `iterate()` repeats the request with the following
+   * `page` values, keeping the other params, headers and signal.
+   */
+  async getPaginated<T>(endpoint: string, options?: RequestOptions): Promise<Paginated<T>> {
+    const query = options?.query as PaginationParams | undefined;
+    const body = await this.request<unknown>('GET', endpoint, undefined, options);
+    const { items, meta } = readPage<T>(body, query?.page ?? 1);
+    const fetchAfter = (previous: PaginationMeta) =>
+      this.getPaginated<T>(endpoint, { ...options, query: { ...query, page: previous.page + 1 } });
+    return {
+      items,
+      meta,
+      async *iterate() {
+        let current: { items: T[]; meta: PaginationMeta } = { items, meta };
+        yield* current.items;
+        while (current.meta.hasNext) {
+          current = await fetchAfter(current.meta);
+          yield* current.items;
+        }
+      },
+    };
   }
 }
@@ -0,0 +1,106 @@
+/** DOM events that count as user activity. */
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+// Passive activity (mousemove, scroll) fires constantly; other tabs only need
+// to hear about it often enough to keep their idle deadline roughly in sync.
+const PERSIST_INTERVAL = 5000;
+
+export interface IdleTrackerHandlers {
+  /** Last-activity timestamp moved forward (this tab or another one). */
+  onActivity: () => void;
+  /** Return false to ignore DOM activity (e.g. while the warning is showing). */
+  acceptPassiveActivity: () => boolean;
+}
+
+/**
+ * Tracks the last time the user interacted with any tab of the app.
+ *
+ * DOM activity updates an in-memory timestamp and is mirrored (throttled) to
+ * localStorage under `${storageKey}:activity`; other tabs pick it up through
+ * the `storage` event, so working in one tab keeps the session alive in all
+ * of them. The mirror lives in localStorage regardless of the token backend —
+ * it holds a timestamp, not a credential.
+ */
+export class IdleTracker {
+  private readonly activityKey: string;
+  private readonly handlers: IdleTrackerHandlers;
+  private lastActivityAt: number;
+  private lastPersistedAt = 0;
+  private domListener: (() => void) | null = null;
+  private storageListener: ((e: StorageEvent) => void) | null = null;
+
+  constructor(storageKey: string, handlers: IdleTrackerHandlers) {
+    this.activityKey = `${storageKey}:activity`;
+    this.handlers = handlers;
+    this.lastActivityAt = this.readPersisted() ?? Date.now();
+  }
+
+  start(): void {
+    if (typeof window === 'undefined' || typeof window.addEventListener !== 'function') return;
+
+    this.domListener = () => {
+      if (!this.handlers.acceptPassiveActivity()) return;
+      this.record(false);
+    };
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, this.domListener, { passive: true, capture: true });
+    }
+
+    this.storageListener = (e: StorageEvent) => {
+      if (e.key !== this.activityKey || !e.newValue) return;
+      const at = Number(e.newValue);
+      if (!Number.isFinite(at) || at <= this.lastActivityAt) return;
+      this.lastActivityAt = at;
+      this.handlers.onActivity();
+    };
+    window.addEventListener('storage', this.storageListener);
+  }
+
+  stop(): void {
+    if (typeof window === 'undefined') return;
+    if (this.domListener) {
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, this.domListener, { capture: true });
+      }
+    }
+    if (this.storageListener) window.removeEventListener('storage', this.storageListener);
+    this.domListener = null;
+    this.storageListener = null;
+  }
+
+  /**
+   * Mark "now" as the last activity. `force` persists immediately instead of
+   * waiting for the throttle — used for explicit actions such as login or a
+   * "stay signed in" click, which other tabs must see right away.
+   */
+  record(force = true): void {
+    const now = Date.now();
+    this.lastActivityAt = now;
+    if (force || now - this.lastPersistedAt >= PERSIST_INTERVAL) {
+      this.lastPersistedAt = now;
+      try {
+        localStorage.setItem(this.activityKey, String(now));
+      } catch {
+        // Storage unavailable — idle tracking degrades to this tab only.
+      }
+    }
+    this.handlers.onActivity();
+  }
+
+  /** Most recent activity seen by this tab or persisted by another one. */
+  getLastActivity(): number {
+    const persisted = this.readPersisted();
+    if (persisted !== null && persisted > this.lastActivityAt) this.lastActivityAt = persisted;
+    return this.lastActivityAt;
+  }
+
+  private readPersisted(): number | null {
+    try {
+      const raw = localStorage.getItem(this.activityKey);
+      const at = raw === null ? Number.NaN : Number(raw);
+      return Number.isFinite(at) ? at : null;
+    } catch {
+      return null;
+    }
+  }
+}
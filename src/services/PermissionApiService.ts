@@ -1,57 +1,61 @@
 import type {
-  ApiResponse,
   CreatePermissionRequest,
   PaginationParams,
   Permission,
+  PermissionPage,
 } from '../types/api';
-import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class PermissionApiService {
   constructor(private httpService: HttpService) {}
 
-  async createPermission(request: CreatePermissionRequest): Promise<Permission> {
-    const response = await this.httpService.post<ApiResponse<Permission>>('/permissions/', request);
-    return response.data;
+  async createPermission(
+    request: CreatePermissionRequest,
+    options?: ApiCallOptions
+  ): Promise<Permission> {
+    const response = await this.httpService.post('/permissions/', request, options);
+    return unwrapData<Permission>(response);
   }
 
   async getPermissions(
-    params?: PaginationParams
-  ): Promise<{ permissions: Permission[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<Permission[]>>(
-      `/permissions/${buildPaginationQuery(params)}`
-    );
-    return { permissions: response.data, meta: response.meta };
+    params?: PaginationParams,
+    options?: ApiCallOptions
+  ): Promise<PermissionPage> {
+    const page = await this.httpService.getPaginated<Permission>('/permissions/', {
+      ...options,
+      query: params,
+    });
+    return { ...page, permissions: page.items };
   }
 
-  async getPermissionById(id: string): Promise<Permission> {
-    const response = await this.httpService.get<ApiResponse<Permission>>(`/permissions/${id}`);
-    return response.data;
+  async getPermissionById(id: string, options?: ApiCallOptions): Promise<Permission> {
+    const response = await this.httpService.get(`/permissions/${id}`, options);
+    return unwrapData<Permission>(response);
   }
 
   async updatePermission(
     id: string,
-    request: Partial<CreatePermissionRequest>
+    request: Partial<CreatePermissionRequest>,
+    options?: ApiCallOptions
   ): Promise<Permission> {
-    const response = await this.httpService.put<ApiResponse<Permission>>(
-      `/permissions/${id}`,
-      request
-    );
-    return response.data;
+    const response = await this.httpService.put(`/permissions/${id}`, request, options);
+    return unwrapData<Permission>(response);
   }
 
-  async deletePermission(id: string): Promise<void> {
-    await this.httpService.delete<void>(`/permissions/${id}`);
+  async deletePermission(id: string, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.delete<void>(`/permissions/${id}`, options);
   }
 
   async getAppPermissions(
     appId: string,
-    params?: PaginationParams
-  ): Promise<{ permissions: Permission[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<Permission[]>>(
-      `/permissions/apps/${appId}${buildPaginationQuery(params)}`,
-      { skipAuth: true }
-    );
-    return { permissions: response.data, meta: response.meta };
+    params?: PaginationParams,
+    options?: ApiCallOptions
+  ): Promise<PermissionPage> {
+    const page = await this.httpService.getPaginated<Permission>(`/permissions/apps/${appId}`, {
+      ...options,
+      query: params,
+      skipAuth: true,
+    });
+    return { ...page, permissions: page.items };
   }
 }
@@ -4,58 +4,74 @@ import type {
   CreateRoleRequest,
   PaginationParams,
   Role,
+  RolePage,
 } from '../types/api';
-import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class RoleApiService {
   constructor(private httpService: HttpService) {}
 
-  async createRole(request: CreateRoleRequest): Promise<Role> {
-    const response = await this.httpService.post<ApiResponse<Role>>('/roles/', request);
-    return response.data;
+  async createRole(request: CreateRoleRequest, options?: ApiCallOptions): Promise<Role> {
+    const response = await this.httpService.post('/roles/', request, options);
+    return unwrapData<Role>(response);
   }
 
-  async getRoleById(id: string): Promise<Role> {
-    const response = await this.httpService.get<ApiResponse<Role>>(`/roles/${id}`);
-    return response.data;
+  async getRoleById(id: string, options?: ApiCallOptions): Promise<Role> {
+    const response = await this.httpService.get(`/roles/${id}`, options);
+    return unwrapData<Role>(response);
   }
 
-  async updateRole(id: string, request: Partial<CreateRoleRequest>): Promise<Role> {
-    const response = await this.httpService.put<ApiResponse<Role>>(`/roles/${id}`, request);
-    return response.data;
+  async updateRole(
+    id: string,
+    request: Partial<CreateRoleRequest>,
+    options?: ApiCallOptions
+  ): Promise<Role> {
+    const response = await this.httpService.put(`/roles/${id}`, request, options);
+    return unwrapData<Role>(response);
   }
 
-  async deleteRole(id: string): Promise<void> {
-    await this.httpService.delete<void>(`/roles/${id}`);
+  async deleteRole(id: string, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.delete<void>(`/roles/${id}`, options);
   }
 
   async getRolesByApp(
     appId: string,
-    params?: PaginationParams
-  ): Promise<{ roles: Role[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<Role[]>>(
-      `/roles/app/${appId}${buildPaginationQuery(params)}`,
-      { skipAuth: true }
-    );
-    return { roles: response.data, meta: response.meta };
+    params?: PaginationParams,
+    options?: ApiCallOptions
+  ): Promise<RolePage> {
+    const page = await this.httpService.getPaginated<Role>(`/roles/app/${appId}`, {
+      ...options,
+      query: params,
+      skipAuth: true,
+    });
+    return { ...page, roles: page.items };
   }
 
-  async assignRole(roleId: string, request: AssignRoleRequest): Promise<void> {
-    await this.httpService.post<ApiResponse<null>>(`/roles/${roleId}/assign`, request);
+  async assignRole(
+    roleId: string,
+    request: AssignRoleRequest,
+    options?: ApiCallOptions
+  ): Promise<void> {
+    await this.httpService.post<ApiResponse<null>>(`/roles/${roleId}/assign`, request, options);
   }
 
-  async revokeRole(roleId: string, request: AssignRoleRequest): Promise<void> {
-    await this.httpService.post<ApiResponse<null>>(`/roles/${roleId}/revoke`, request);
+  async revokeRole(
+    roleId: string,
+    request: AssignRoleRequest,
+    options?: ApiCallOptions
+  ): Promise<void> {
+    await this.httpService.post<ApiResponse<null>>(`/roles/${roleId}/revoke`, request, options);
   }
 
   async getUserRoles(
     userId: string,
-    params?: PaginationParams
-  ): Promise<{ roles: Role[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<Role[]>>(
-      `/roles/user/${userId}${buildPaginationQuery(params)}`
-    );
-    return { roles: response.data, meta: response.meta };
+    params?: PaginationParams,
+    options?: ApiCallOptions
+  ): Promise<RolePage> {
+    const page = await this.httpService.getPaginated<Role>(`/roles/user/${userId}`, {
+      ...options,
+      query: params,
+    });
+    return { ...page, roles: page.items };
   }
 }
@@ -0,0 +1,154 @@
+import type { SessionExpiredError, SessionExpiredReason } from '../errors/SessionErrors';
+
+/** How a session was established. 'tokens' = setTokens called directly. */
+export type LoginMethod = 'password' | 'magic_link' | 'cookie_restore' | 'tokens';
+
+/**
+ * Payloads for every session event, keyed by event type. All payloads carry
+ * `timestamp` (epoch ms when the event was emitted).
+ */
+export interface SessionEventMap {
+  login: {
+    timestamp: number;
+    method: LoginMethod;
+    sessionStartedAt: number;
+    expiresAt?: number;
+  };
+  /** A password or magic-link login over the current session (step-up). */
+  reauthenticated: {
+    timestamp: number;
+    method: LoginMethod;
+  };
+  logout: {
+    timestamp: number;
+    reason: 'user';
+    /** ms since the original login; null if unknown. */
+    sessionDurationMs: number | null;
+  };
+  'refresh:start': {
+    timestamp: number;
+    /** True when the caller bypassed the local expiry check (e.g. after a 401). */
+    force: boolean;
+    /** 'leader' when this tab delegated the refresh to the leader tab. */
+    via: 'network' | 'leader';
+  };
+  'refresh:success': {
+    timestamp: number;
+    startedAt: number;
+    durationMs: number;
+    via: 'network' | 'leader';
+    expiresAt?: number;
+  };
+  'refresh:failure': {
+    timestamp: number;
+    startedAt: number;
+    durationMs: number;
+    via: 'network' | 'leader';
+    /** Fatal failures end the session; transient ones are retried later. */
+    fatal: boolean;
+    reason: SessionExpiredReason | 'transient';
+    error: Error;
+  };
+  'tenant:switched': {
+    timestamp: number;
+    tenantId: string | null;
+    previousTenantId: string | null;
+  };
+  'impersonation:start': {
+    timestamp: number;
+    /** userId of the superuser; null if their token carried none. */
+    impersonatorId: string | null;
+    targetUserId: string;
+  };
+  'impersonation:stop': {
+    timestamp: number;
+    impersonatorId: string | null;
+    targetUserId: string;
+    /**
+     * 'user' when stopImpersonation() restored the superuser session;
+     * otherwise the session ended (both sessions are gone).
+     */
+    reason: 'user' | 'logout' | 'expired';
+    durationMs: number;
+  };
+  'cross-tab:sync': {
+    timestamp: number;
+    /** What another tab did: wrote new tokens, or cleared the session. */
+    kind: 'tokens' | 'cleared';
+    transport: 'storage' | 'broadcast';
+  };
+  /** An HttpService bound to this session is about to retry a failed request. */
+  'request:retry': {
+    timestamp: number;
+    method: string;
+    url: string;
+    /** The attempt being scheduled; the first retry is attempt 2. */
+    attempt: number;
+    delayMs: number;
+    /** Status of the failed attempt; null for a network error. */
+    status: number | null;
+    error: Error;
+  };
+  expired: {
+    timestamp: number;
+    reason: SessionExpiredReason;
+    error: SessionExpiredError;
+    /** ms since the original login; null if unknown. */
+    sessionDurationMs: number | null;
+  };
+}
+
+export type SessionEventType = keyof SessionEventMap;
+
+/** Discriminated union of every event, for catch-all listeners. */
+export type SessionEvent = {
+  [K in SessionEventType]: { type: K } & SessionEventMap[K];
+}[SessionEventType];
+
+export type SessionEventListener<K extends SessionEventType = SessionEventType> = (
+  event: Extract<SessionEvent, { type: K }>
+) => void;
+
+/**
+ * Minimal typed emitter. Listener errors are swallowed so analytics or
+ * logging code can never break the session machinery that emits.
+ */
+export class SessionEventEmitter {
+  private listeners = new Map<SessionEventType, Set<(event: SessionEvent) => void>>();
+  private anyListeners = new Set<(event: SessionEvent) => void>();
+
+  on<K extends SessionEventType>(type: K, listener: SessionEventListener<K>): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    const wrapped = listener as (event: SessionEvent) => void;
+    set.add(wrapped);
+    this.listeners.set(type, set);
+    return () => {
+      set.delete(wrapped);
+    };
+  }
+
+  onAny(listener: SessionEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit<K extends SessionEventType>(type: K, payload: SessionEventMap[K]): void {
+    const specific = this.listeners.get(type);
+    if (!specific?.size && this.anyListeners.size === 0) return;
+    const event = { type, ...payload } as SessionEvent;
+    for (const listener of [...(specific ?? []), ...this.anyListeners]) {
+      try {
+        listener(event);
+      } catch {
+        // A misbehaving listener must not break the others.
+      }
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
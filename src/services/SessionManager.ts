@@ -3,16 +3,33 @@ import {
   SessionExpiredError,
   TokenRefreshError,
   TokenRefreshTimeoutError,
+  TokenVerificationError,
 } from '../errors/SessionErrors';
 import {
   validateBaseUrl,
   validateBoolean,
   validateExpiresAt,
   validateExpiresIn,
+  validateFunction,
   validateNumber,
+  validateOneOf,
   validateTokenShape,
 } from '../utils/configValidation';
+import { isCsrfFailure } from '../utils/csrf';
 import { decodeJwt, extractJwtClaim, extractJwtExpiry } from '../utils/jwt';
+import { defaultClassifyRefreshError, type RefreshErrorClassifier } from '../utils/refreshErrors';
+import { CrossTabCoordinator, type CrossTabMessage } from './CrossTabCoordinator';
+import { CsrfTokenManager } from './CsrfTokenManager';
+import { DpopProver } from './DpopProver';
+import { IdleTracker } from './IdleTracker';
+import {
+  type LoginMethod,
+  SessionEventEmitter,
+  type SessionEventListener,
+  type SessionEventMap,
+  type SessionEventType,
+} from './SessionEvents';
+import { TokenVerifier } from './TokenVerifier';
 
 export interface TokenData {
   accessToken: string;
@@ -20,6 +37,17 @@ export interface TokenData {
   expiresAt?: number;
   expiresIn?: number;
   tokenType?: string;
+  /**
+   * Epoch ms of the login that started this session. Stamped by setTokens on
+   * a new session and carried over by refreshes; callers normally omit it.
+   */
+  sessionStartedAt?: number;
+  /**
+   * Epoch ms when the user last proved their credentials (login or
+   * re-authentication). Stamped by setTokens when `method` is given and
+   * carried over by refreshes; see getAuthTime().
+   */
+  authenticatedAt?: number;
 }
 
 export interface JwtPayload {
@@ -34,10 +62,23 @@ export interface JwtPayload {
   exp?: number;
 }
 
+/**
+ * Persistence backend for the session blob (tokens + cached user). Defaults
+ * to localStorage; see utils/tokenStorage for the built-in alternatives.
+ * Reads and writes are synchronous — async backends keep an in-memory mirror
+ * and expose `ready()` so SessionManager can wait for hydration.
+ */
 export interface TokenStorage {
   get(): any;
   set(data: any): void;
   clear(): void;
+  /** Resolves once persisted data has been loaded into the synchronous mirror. */
+  ready?(): Promise<void>;
+  /**
+   * Report changes made by other tabs once the mirror reflects them. When
+   * present, SessionManager uses it instead of its own `storage` listener.
+   */
+  subscribe?(onChange: () => void): () => void;
 }
 
 export interface SessionConfig {
@@ -55,6 +96,170 @@ export interface SessionConfig {
   refreshQueueTimeout?: number; // ms before queued requests timeout (default: 10000)
   maxRefreshRetries?: number; // max retries per refresh attempt (default: 3)
   retryBackoffBase?: number; // base ms for exponential backoff (default: 1000)
+  /**
+   * How tabs sharing this storageKey coordinate refreshes.
+   * - 'storage' (default): every tab refreshes on its own, serialized by a
+   *   per-refresh Web Lock and reconciled through `storage` events.
+   * - 'leader': one tab holds a leadership lock and is the only one that
+   *   refreshes; it broadcasts new tokens to the others over BroadcastChannel.
+   *   Falls back to 'storage' where Web Locks or BroadcastChannel are missing.
+   */
+  crossTabCoordination?: CrossTabCoordination;
+  /**
+   * End the session after this many ms without user activity in any tab
+   * (mouse, keyboard, touch, scroll). The session is cleared with an
+   * `idle_timeout` SessionExpiredError. Omit or 0 to disable (default).
+   */
+  idleTimeout?: number;
+  /** How long before the idle timeout the warning phase starts (default: 60000). */
+  idleWarningTime?: number;
+  /**
+   * Hard cap (ms) on a session's age, measured from the original login and
+   * persisted with the tokens. Once reached the session is expired with an
+   * `absolute_lifetime_exceeded` SessionExpiredError even if refresh would
+   * still succeed. Omit or 0 to disable (default).
+   */
+  absoluteSessionLifetime?: number;
+  /**
+   * Verify the signature of every access token stored (login,
+   * refresh, tenant switch) with WebCrypto before storing it. Supports RS256
+   * and ES256; keys come from `/apps/{appId}/public-key` or, for tokens
+   * without an appId claim, `/auth/system/public-key`. Tokens that fail are
+   * rejected with a TokenVerificationError and never stored. Direct callers
+   * must use setVerifiedTokens; setTokens throws (default: false).
+   */
+  verifyTokenSignatures?: boolean;
+  /** How long (ms) fetched public keys are cached (default: 3600000). */
+  publicKeyCacheTtl?: number;
+  /**
+   * Decide whether a failed refresh response (or, in BFF mode, a failed
+   * session read) ends the session or is retried. Receives the status and parsed JSON body (null if none); return
+   * undefined to defer to defaultClassifyRefreshError, which reads
+   * ApiError `error.code`/`type` before falling back to message text.
+   */
+  classifyRefreshError?: RefreshErrorClassifier;
+  /**
+   * Endpoint contract for token refresh and cookie session restore. Defaults
+   * to POST `/auth/refresh` with a `{ refreshToken, deviceId }` JSON body and
+   * a `{ accessToken, refreshToken, expiresIn }` response.
+   */
+  refreshTransport?: RefreshTransport;
+  /**
+   * Bind tokens to this browser with DPoP (RFC 9449). A non-extractable
+   * ES256 key pair is created once per origin; refresh and cookie-restore
+   * calls carry a proof, and HttpService sends `Authorization: DPoP <token>`
+   * plus a per-request proof instead of a Bearer header (default: false).
+   */
+  dpop?: boolean;
+  /**
+   * Backend-for-frontend mode: tokens never reach JavaScript. A same-origin
+   * proxy at `baseUrl` holds them in its own session, every request is sent
+   * with `credentials: 'include'`, and the client only learns the session
+   * status, user and expiry from the session endpoint. The server refreshes
+   * its tokens itself; the client re-reads the session at the reported
+   * expiry. State-changing requests echo the CSRF cookie in a header.
+   * `true` uses the defaults of BffConfig.
+   */
+  bff?: boolean | BffConfig;
+  /**
+   * Double-submit CSRF protection for cookie-authenticated requests. The
+   * token is read from a cookie or a response header and sent on refresh,
+   * cookie-restore and every state-changing HttpService request made with
+   * `credentials: 'include'`. A 403 that names a CSRF failure re-fetches
+   * the token once and retries. Always on in BFF mode, where the cookie and
+   * header default to BffConfig's. `true` uses the defaults of CsrfConfig.
+   */
+  csrf?: boolean | CsrfConfig;
+}
+
+/** Where the CSRF token comes from and how it is sent; see SessionConfig.csrf. */
+export interface CsrfConfig {
+  /** JS-readable cookie carrying the token. Default: 'XSRF-TOKEN'. */
+  cookieName?: string;
+  /** Request header the token is sent in. Default: 'X-XSRF-TOKEN'. */
+  headerName?: string;
+  /** Response header that may carry a new token. Default: 'X-CSRF-Token'. */
+  responseHeaderName?: string;
+  /**
+   * GET endpoint that issues a fresh token, relative to baseUrl or absolute.
+   * Default: '/auth/csrf', or the BFF session endpoint in BFF mode.
+   */
+  fetchPath?: string;
+}
+
+/** Endpoint and CSRF contract of BFF mode; see SessionConfig.bff. */
+export interface BffConfig {
+  /** Session status endpoint, relative to baseUrl or absolute. Default: '/session'. */
+  sessionPath?: string;
+  /** JS-readable cookie carrying the CSRF token. Default: 'XSRF-TOKEN'. */
+  csrfCookieName?: string;
+  /** Header the CSRF token is echoed in. Default: 'X-XSRF-TOKEN'. */
+  csrfHeaderName?: string;
+}
+
+/**
+ * Body of the BFF session endpoint, bare or as the `data` of an ApiResponse.
+ * A 401 counts as `{ authenticated: false }`.
+ */
+export interface BffSessionResponse {
+  authenticated: boolean;
+  user?: unknown;
+  /** When the server-side session ends: epoch ms or an ISO date. */
+  expiresAt?: number | string | null;
+  /** Epoch seconds of the last credential check, like the JWT `auth_time`. */
+  authTime?: number;
+}
+
+/** What BFF mode persists about the session — never tokens. */
+interface BffSessionInfo {
+  expiresAt?: number;
+  sessionStartedAt: number;
+  authenticatedAt?: number;
+}
+
+function parseSessionExpiry(value: BffSessionResponse['expiresAt']): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+export type CrossTabCoordination = 'storage' | 'leader';
+
+/** What a refresh request is built from; see RefreshTransport.mapRequest. */
+export interface RefreshRequestContext {
+  /** The refresh token to exchange; null for a cookie session restore. */
+  refreshToken: string | null;
+  /** `deviceId` claim of the refresh token, if it is a JWT carrying one. */
+  deviceId?: string;
+}
+
+/** Tokens read from a refresh response; see RefreshTransport.mapResponse. */
+export interface RefreshResponseTokens {
+  accessToken: string;
+  /** Omit to keep the current refresh token (no rotation). */
+  refreshToken?: string;
+  /** Lifetime in seconds. */
+  expiresIn?: number;
+  /** Epoch ms, server time. Use when the backend returns an absolute expiry. */
+  expiresAt?: number;
+}
+
+export interface RefreshTransport {
+  /** Path appended to baseUrl, or an absolute URL (default: '/auth/refresh'). */
+  path?: string;
+  /** Extra headers sent with every refresh and cookie-restore request. */
+  headers?: Record<string, string>;
+  /**
+   * Build the request body. Plain objects are sent as JSON; URLSearchParams
+   * as form encoding; any other BodyInit as-is (set its Content-Type in
+   * `headers`).
+   */
+  mapRequest?: (context: RefreshRequestContext) => BodyInit | Record<string, unknown>;
+  /** Read the tokens out of the parsed JSON response. Return null if it has none. */
+  mapResponse?: (body: unknown) => RefreshResponseTokens | null;
 }
 
 interface QueueEntry {
@@ -65,6 +270,31 @@ interface QueueEntry {
 
 export type SessionState = 'idle' | 'restoring' | 'authenticated' | 'expired';
 
+export interface IdleStatus {
+  /** Epoch ms at which the session ends unless there is activity. */
+  deadline: number;
+  /** ms left until `deadline` (never negative). */
+  remainingMs: number;
+  /** True once fewer than `idleWarningTime` ms remain. */
+  isWarning: boolean;
+}
+
+/** An impersonation in progress (see startImpersonation). */
+export interface ImpersonationInfo {
+  /** userId of the superuser who started it; null if their token carried none. */
+  impersonatorId: string | null;
+  targetUserId: string;
+  /** Epoch ms when the impersonation started. */
+  startedAt: number;
+}
+
+/** Kept under `impersonation` in the session blob while impersonating. */
+interface StoredImpersonation extends ImpersonationInfo {
+  /** The superuser's parked session. */
+  tokens: TokenData;
+  user: unknown;
+}
+
 export interface RefreshStats {
   state: SessionState;
   isRefreshing: boolean;
@@ -73,6 +303,28 @@ export interface RefreshStats {
   sessionGeneration: number;
   consecutiveBackgroundFailures: number;
   lastExpiryReason: string | null;
+  /** Role in leader coordination mode; null when tabs coordinate via storage. */
+  crossTabRole: 'leader' | 'follower' | null;
+  /**
+   * Estimated server clock minus client clock, in ms (positive when the
+   * server is ahead). Added to Date.now() for every expiry calculation.
+   */
+  clockSkewMs: number;
+}
+
+/** Internal options for applyTokens; setTokens exposes only `method`. */
+interface ApplyTokensOptions {
+  method?: LoginMethod;
+  /** Re-estimate the clock skew from this response (login, refresh). */
+  sampleClock?: boolean;
+  /** `Date` header of the response that carried the tokens, if readable. */
+  serverDate?: string | null;
+  /**
+   * Build the non-token part of the blob from the current one instead of
+   * keeping it all, and skip the login/tenant events (impersonation swaps
+   * sessions and emits its own).
+   */
+  baseData?: (currentData: unknown) => Record<string, unknown>;
 }
 
 // Single source of truth for SessionManager instances. Stored on globalThis so a
@@ -90,6 +342,32 @@ const sessionRegistry: Map<string, SessionManager> = (() => {
   return fresh;
 })();
 
+// Options that bind when an instance is constructed; updateConfig() cannot
+// apply a change to them. tokenStorage is left out: account slots get a fresh
+// adapter from accountTokenStorage on every switch, which is expected.
+const CONSTRUCTION_OPTIONS = [
+  'autoRefresh',
+  'crossTabCoordination',
+  'idleTimeout',
+  'publicKeyCacheTtl',
+  'dpop',
+  'bff',
+  'csrf',
+] as const;
+
+type ConstructionOptions = Pick<SessionConfig, (typeof CONSTRUCTION_OPTIONS)[number]>;
+
+// Inline option objects are recreated on every render, so compare one level deep.
+function sameOption(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(key => (a as Record<string, unknown>)[key] === (b as Record<string, unknown>)[key])
+  );
+}
+
 export class SessionManager {
   /**
    * Get or create a SessionManager instance for the given config.
@@ -127,6 +405,7 @@ export class SessionManager {
   private onRefreshFailed?: () => void;
   private onSessionExpired?: (error: SessionExpiredError) => void;
   private tokenStorage: TokenStorage;
+  private storageReady: Promise<void> | null = null;
   private enableCookieSession: boolean;
 
   // New config
@@ -151,6 +430,54 @@ export class SessionManager {
   private consecutiveBackgroundFailures = 0;
   private static readonly MAX_BACKGROUND_FAILURES = 3;
 
+  // Leader-mode coordination. Null in the default 'storage' mode.
+  private coordinator: CrossTabCoordinator | null = null;
+  // A follower's outstanding "please refresh" request to the leader.
+  private pendingLeaderRefresh: {
+    requestId: string;
+    refreshLocally: () => void;
+    resolve: () => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  // Set while applying a broadcast so the resulting write is not re-broadcast.
+  private applyingRemoteChange = false;
+  // How long a follower waits for the leader before refreshing on its own.
+  private static readonly LEADER_RESPONSE_TIMEOUT = 3000;
+
+  // Idle timeout. The tracker is null when idleTimeout is disabled.
+  private idleTracker: IdleTracker | null = null;
+  private idleTimeout: number;
+  private idleWarningTime: number;
+  private idleTimerId: ReturnType<typeof setTimeout> | null = null;
+  private idleWarningActive = false;
+
+  // Absolute session lifetime. 0 disables.
+  private absoluteSessionLifetime: number;
+  private lifetimeTimerId: ReturnType<typeof setTimeout> | null = null;
+  // setTimeout overflows above 2^31-1 ms (~24.8 days) and fires immediately.
+  private static readonly MAX_TIMER_DELAY = 2_147_483_647;
+  // Both skew sources (Date header, JWT iat) have 1s resolution and include
+  // network latency; estimates below this are noise and treated as zero.
+  private static readonly CLOCK_SKEW_TOLERANCE = 2000;
+
+  private events = new SessionEventEmitter();
+
+  // Client-side signature verification. The verifier is only consulted when
+  // verifyTokenSignatures is on; it is cheap to construct either way.
+  private verifyTokenSignatures: boolean;
+  private tokenVerifier: TokenVerifier;
+  private dpopProver: DpopProver | null;
+  private bff: Required<BffConfig> | null;
+  private csrf: CsrfTokenManager | null;
+  private bffSyncPromise: Promise<boolean> | null = null;
+  // Floor for the BFF re-check timer, so a server that keeps reporting a
+  // past expiry is not polled in a tight loop.
+  private static readonly MIN_BFF_SYNC_DELAY = 5000;
+
+  private classifyRefreshError: RefreshErrorClassifier | undefined;
+  private refreshTransport: RefreshTransport;
+  private constructionOptions: ConstructionOptions;
+
   // State machine + reactivity
   private state: SessionState = 'idle';
   private isRefreshing = false;
@@ -169,6 +496,9 @@ export class SessionManager {
   constructor(config: SessionConfig = {}) {
     SessionManager.validateConfig(config);
 
+    this.constructionOptions = Object.fromEntries(
+      CONSTRUCTION_OPTIONS.map(option => [option, config[option]])
+    ) as ConstructionOptions;
     this.storageKey = config.storageKey || 'auth_tokens';
 
     this.autoRefresh = config.autoRefresh ?? true;
@@ -183,20 +513,60 @@ export class SessionManager {
     this.refreshQueueTimeout = config.refreshQueueTimeout ?? 10000; // 10 seconds
     this.maxRefreshRetries = config.maxRefreshRetries ?? 3;
     this.retryBackoffBase = config.retryBackoffBase ?? 1000; // 1 second
+    this.idleTimeout = config.idleTimeout ?? 0;
+    this.idleWarningTime = config.idleWarningTime ?? 60000; // 1 minute
+    this.absoluteSessionLifetime = config.absoluteSessionLifetime ?? 0;
+    this.verifyTokenSignatures = config.verifyTokenSignatures ?? false;
+    this.classifyRefreshError = config.classifyRefreshError;
+    this.refreshTransport = config.refreshTransport ?? {};
+    this.tokenVerifier = new TokenVerifier(
+      () => this.baseUrl,
+      config.publicKeyCacheTtl ?? 3600000 // 1 hour
+    );
+
+    // One key per origin, so every account slot and tab proves the same key.
+    this.dpopProver = config.dpop ? new DpopProver('dpop', () => this.serverNow()) : null;
+    const bff = config.bff === true ? {} : config.bff || null;
+    this.bff = bff
+      ? {
+          sessionPath: bff.sessionPath ?? '/session',
+          csrfCookieName: bff.csrfCookieName ?? 'XSRF-TOKEN',
+          csrfHeaderName: bff.csrfHeaderName ?? 'X-XSRF-TOKEN',
+        }
+      : null;
+    const csrf = config.csrf === true ? {} : config.csrf || (this.bff ? {} : null);
+    const csrfPath = csrf?.fetchPath ?? this.bff?.sessionPath ?? '/auth/csrf';
+    this.csrf = csrf
+      ? new CsrfTokenManager(
+          {
+            cookieName: csrf.cookieName ?? this.bff?.csrfCookieName ?? 'XSRF-TOKEN',
+            headerName: csrf.headerName ?? this.bff?.csrfHeaderName ?? 'X-XSRF-TOKEN',
+            responseHeaderName: csrf.responseHeaderName ?? 'X-CSRF-Token',
+          },
+          () => this.endpointUrl(csrfPath)
+        )
+      : null;
 
     this.tokenStorage = config.tokenStorage || this.createTokenStorage(this.storageKey);
 
     // Initial state from persisted storage.
     const initialTokens = this.tokenStorage.get();
-    if (initialTokens?.accessToken) {
+    if (initialTokens?.accessToken || (this.bff && initialTokens?.bffSession)) {
       // Tokens present — final state depends on whether they're valid; the
       // AuthProvider bootstrap will call ensureValidSession() to settle.
       this.state = 'restoring';
     }
 
+    if (this.tokenStorage.ready) {
+      this.storageReady = this.tokenStorage.ready().then(() => this.handleStorageHydrated());
+    }
+
     this.attachVisibilityListener();
     this.attachStorageListener();
+    if (config.crossTabCoordination === 'leader') this.startCrossTabCoordinator();
+    if (this.idleTimeout > 0) this.startIdleTracking();
     this.scheduleProactiveRefresh();
+    this.scheduleLifetimeTimer();
   }
 
   private static validateConfig(config: SessionConfig): void {
@@ -208,18 +578,65 @@ export class SessionManager {
     validateNumber('refreshQueueTimeout', config.refreshQueueTimeout, { min: 1 });
     validateNumber('maxRefreshRetries', config.maxRefreshRetries, { min: 0 });
     validateNumber('retryBackoffBase', config.retryBackoffBase, { min: 1 });
+    validateOneOf('crossTabCoordination', config.crossTabCoordination, ['storage', 'leader']);
+    validateNumber('idleTimeout', config.idleTimeout, { min: 0 });
+    validateNumber('idleWarningTime', config.idleWarningTime, { min: 0 });
+    validateNumber('absoluteSessionLifetime', config.absoluteSessionLifetime, { min: 0 });
+    validateBoolean('verifyTokenSignatures', config.verifyTokenSignatures);
+    validateNumber('publicKeyCacheTtl', config.publicKeyCacheTtl, { min: 0 });
+    validateFunction('classifyRefreshError', config.classifyRefreshError);
+    validateBoolean('dpop', config.dpop);
+    if (typeof config.bff === 'object' && config.bff !== null) {
+      for (const field of ['sessionPath', 'csrfCookieName', 'csrfHeaderName'] as const) {
+        const value = config.bff[field];
+        if (value !== undefined && (typeof value !== 'string' || value === '')) {
+          throw new ConfigurationError(`bff.${field}`, value, 'must be a non-empty string');
+        }
+      }
+    } else {
+      validateBoolean('bff', config.bff);
+    }
+    if (typeof config.csrf === 'object' && config.csrf !== null) {
+      for (const field of [
+        'cookieName',
+        'headerName',
+        'responseHeaderName',
+        'fetchPath',
+      ] as const) {
+        const value = config.csrf[field];
+        if (value !== undefined && (typeof value !== 'string' || value === '')) {
+          throw new ConfigurationError(`csrf.${field}`, value, 'must be a non-empty string');
+        }
+      }
+    } else {
+      validateBoolean('csrf', config.csrf);
+    }
+    if (config.bff && config.dpop) {
+      throw new ConfigurationError('dpop', config.dpop, 'cannot be combined with bff');
+    }
+    if (config.refreshTransport !== undefined) {
+      const { path, mapRequest, mapResponse } = config.refreshTransport;
+      if (path !== undefined && (typeof path !== 'string' || path === '')) {
+        throw new ConfigurationError('refreshTransport.path', path, 'must be a non-empty string');
+      }
+      validateFunction('refreshTransport.mapRequest', mapRequest);
+      validateFunction('refreshTransport.mapResponse', mapResponse);
+    }
   }
 
   /** Update mutable config (callbacks, baseUrl) on an existing instance. */
   private updateConfig(config: SessionConfig): void {
+    if (process.env.NODE_ENV === 'development') this.warnOnConstructionOptionChange(config);
     if (config.onSessionExpired !== undefined) this.onSessionExpired = config.onSessionExpired;
     if (config.onRefreshFailed !== undefined) this.onRefreshFailed = config.onRefreshFailed;
     if (config.baseUrl) this.baseUrl = config.baseUrl;
     if (config.enableCookieSession !== undefined)
       this.enableCookieSession = config.enableCookieSession;
-    // Safe-to-mutate refresh tuning on an existing instance. storageKey and
-    // autoRefresh are intentionally NOT re-applied here: changing them would
-    // require re-initializing storage/timers, so they bind at construction.
+    // Safe-to-mutate refresh tuning on an existing instance. storageKey,
+    // autoRefresh, crossTabCoordination, idleTimeout, dpop, bff and csrf are
+    // intentionally NOT re-applied here: changing them would require
+    // re-initializing storage/timers/listeners/keys, so they bind at construction
+    // (a changed value is reported in development).
     if (config.refreshThreshold !== undefined) this.refreshThreshold = config.refreshThreshold;
     if (config.maxRefreshRetries !== undefined) this.maxRefreshRetries = config.maxRefreshRetries;
     if (config.retryBackoffBase !== undefined) this.retryBackoffBase = config.retryBackoffBase;
@@ -227,6 +644,36 @@ export class SessionManager {
       this.proactiveRefreshMargin = config.proactiveRefreshMargin;
     if (config.refreshQueueTimeout !== undefined)
       this.refreshQueueTimeout = config.refreshQueueTimeout;
+    if (config.idleWarningTime !== undefined && config.idleWarningTime !== this.idleWarningTime) {
+      this.idleWarningTime = config.idleWarningTime;
+      // getInstance() runs during AuthProvider's render: an already-passed
+      // deadline or a new warning state must not notify or expire from here.
+      this.scheduleIdleTimerSoon();
+    }
+    if (
+      config.absoluteSessionLifetime !== undefined &&
+      config.absoluteSessionLifetime !== this.absoluteSessionLifetime
+    ) {
+      this.absoluteSessionLifetime = config.absoluteSessionLifetime;
+      this.scheduleLifetimeTimer();
+    }
+    if (config.verifyTokenSignatures !== undefined)
+      this.verifyTokenSignatures = config.verifyTokenSignatures;
+    if (config.classifyRefreshError !== undefined)
+      this.classifyRefreshError = config.classifyRefreshError;
+    if (config.refreshTransport !== undefined) this.refreshTransport = config.refreshTransport;
+  }
+
+  private warnOnConstructionOptionChange(config: SessionConfig): void {
+    for (const option of CONSTRUCTION_OPTIONS) {
+      if (config[option] === undefined) continue;
+      if (sameOption(config[option], this.constructionOptions[option])) continue;
+      console.warn(
+        `[SessionManager] ${option} changed after the session for "${this.storageKey}" was created — the new value is ignored until the page reloads.`
+      );
+      // Warn once per change, not on every later render.
+      this.constructionOptions = { ...this.constructionOptions, [option]: config[option] };
+    }
   }
 
   // --- Storage helpers ---
@@ -316,9 +763,101 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Async storage backends (e.g. IndexedDB) hydrate after construction. Once
+   * they do, settle the initial state and arm timers exactly as the
+   * constructor would have with synchronously available tokens.
+   */
+  private handleStorageHydrated(): void {
+    if (this.isDestroyed) return;
+    if (!this.hasSession()) return;
+    if (this.state === 'idle') this.transitionTo('restoring');
+    this.scheduleProactiveRefresh();
+    this.scheduleLifetimeTimer();
+    // Past-deadline sessions are left to ensureValidSession, which reports
+    // them as 'expired' to the bootstrap.
+    if (!this.isIdleExpired()) this.scheduleIdleTimer();
+    this.notify();
+  }
+
+  /**
+   * Resolves once the configured TokenStorage has loaded persisted data.
+   * Immediate for synchronous backends (the localStorage default).
+   */
+  whenStorageReady(): Promise<void> {
+    return this.storageReady ?? Promise.resolve();
+  }
+
   // --- Token CRUD ---
 
-  setTokens(tokens: TokenData): void {
+  /**
+   * Store tokens synchronously. Writing over an empty slot starts a new
+   * session and emits `login` with `options.method` (default 'tokens');
+   * anything else is a rotation of the current session.
+   *
+   * With `verifyTokenSignatures` nothing may be stored before it is checked,
+   * so this throws a ConfigurationError; use setVerifiedTokens. In BFF mode it
+   * starts a session sync and returns without waiting for it.
+   *
+   * A login (`options.method` set) re-estimates the clock skew from the
+   * token's `iat` claim. An explicit `expiresAt` is taken to be in server
+   * time, like the JWT `exp` claim.
+   */
+  setTokens(tokens: TokenData, options: { method?: LoginMethod } = {}): void {
+    if (this.bff) {
+      // Callers that need the outcome use setVerifiedTokens.
+      this.syncBffSession(options.method ?? 'tokens').catch(() => {});
+      return;
+    }
+    if (this.verifyTokenSignatures) {
+      throw new ConfigurationError(
+        'verifyTokenSignatures',
+        true,
+        'tokens must be stored with setVerifiedTokens()'
+      );
+    }
+    this.validateTokens(tokens);
+    this.commitTokens(tokens, { ...options, sampleClock: options.method !== undefined });
+  }
+
+  /**
+   * setTokens for tokens that may need checking first. Resolves once they are
+   * stored. With `verifyTokenSignatures` a bad token rejects with
+   * TokenVerificationError and leaves the current session untouched; in BFF
+   * mode it rejects when the server did not establish a session. Shape errors
+   * throw synchronously.
+   */
+  setVerifiedTokens(tokens: TokenData, options: { method?: LoginMethod } = {}): Promise<void> {
+    if (this.bff) {
+      // The server just set (or changed) its session cookie. Tokens in the
+      // response, if any, are ignored — the session endpoint is the truth.
+      return this.syncBffSession(options.method ?? 'tokens').then(authenticated => {
+        if (!authenticated) {
+          throw new SessionExpiredError('token_invalid', 'The server did not establish a session');
+        }
+      });
+    }
+    return this.applyTokens(tokens, { ...options, sampleClock: options.method !== undefined });
+  }
+
+  private applyTokens(tokens: TokenData, options: ApplyTokensOptions): Promise<void> {
+    this.validateTokens(tokens);
+    if (!this.verifyTokenSignatures) {
+      this.commitTokens(tokens, options);
+      return Promise.resolve();
+    }
+
+    const generation = this.sessionGeneration;
+    return this.tokenVerifier.verify(tokens.accessToken).then(() => {
+      // A logout or expiry while the key was being fetched wins.
+      if (generation !== this.sessionGeneration || this.isDestroyed) {
+        throw new SessionExpiredError('token_invalid', 'Session changed during token verification');
+      }
+      this.commitTokens(tokens, options);
+    });
+  }
+
+  private validateTokens(tokens: TokenData): void {
     validateTokenShape(tokens.accessToken, 'accessToken');
     // Refresh tokens are often opaque, so we only reject obvious type errors.
     // Empty string remains allowed for legacy cookie-session flows.
@@ -327,23 +866,56 @@ export class SessionManager {
     }
     validateExpiresIn(tokens.expiresIn);
     validateExpiresAt(tokens.expiresAt);
+  }
 
+  /** Write already-validated (and, if enabled, verified) tokens. */
+  private commitTokens(tokens: TokenData, options: ApplyTokensOptions): void {
+    // Merge with existing storage to preserve non-token data (e.g. user)
+    const currentData = this.tokenStorage.get() || {};
+
+    // expiresAt is kept in server time so it can be compared with the JWT
+    // exp claim and shared with other tabs regardless of their own clock.
+    const clockSkewMs = options.sampleClock
+      ? this.estimateClockSkew(tokens.accessToken, options.serverDate)
+      : this.getClockSkew();
     const expiresAt =
       tokens.expiresAt ||
-      (tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined) ||
+      (tokens.expiresIn ? Date.now() + clockSkewMs + tokens.expiresIn * 1000 : undefined) ||
       extractJwtExpiry(tokens.accessToken);
 
+    // Refreshes and tenant switches continue the current session; anything
+    // written over an empty slot is a new login.
+    const sessionStartedAt =
+      tokens.sessionStartedAt ??
+      (currentData.accessToken ? currentData.sessionStartedAt : undefined) ??
+      Date.now();
+
+    // Only a credential check (password, magic link) is proof of a fresh
+    // login; a cookie restore or bare setTokens leaves it unknown.
+    const authenticatedAt =
+      tokens.authenticatedAt ??
+      (options.method && options.method !== 'cookie_restore' ? Date.now() : undefined) ??
+      (currentData.accessToken ? currentData.authenticatedAt : undefined);
+
     const tokenData: TokenData = {
       ...tokens,
       expiresAt,
+      sessionStartedAt,
+      authenticatedAt,
     };
 
-    // Merge with existing storage to preserve non-token data (e.g. user)
-    const currentData = this.tokenStorage.get() || {};
-    this.tokenStorage.set({ ...currentData, ...tokenData });
+    // A new session (login, magic link) counts as activity; a refresh does
+    // not. Recorded before the write so other tabs never see the new tokens
+    // next to a stale activity timestamp.
+    if (!currentData.accessToken) this.idleTracker?.record();
+    const baseData = options.baseData ? options.baseData(currentData) : currentData;
+    this.tokenStorage.set({ ...baseData, ...tokenData, clockSkewMs });
+    if (!this.applyingRemoteChange) this.coordinator?.post({ type: 'tokens', tokens: tokenData });
 
     // Reschedule proactive refresh with new expiry
     this.scheduleProactiveRefresh();
+    this.scheduleIdleTimer();
+    this.scheduleLifetimeTimer();
 
     // Do NOT bump sessionGeneration here — it's used by the refresh code to
     // detect a fatal session change (logout, expiry). A normal token rotation
@@ -353,11 +925,38 @@ export class SessionManager {
       this.transitionTo('authenticated');
     }
     this.notify();
+
+    // Broadcasts from other tabs are reported as cross-tab:sync by the caller.
+    if (this.applyingRemoteChange || options.baseData) return;
+    if (!currentData.accessToken) {
+      this.events.emit('login', {
+        timestamp: Date.now(),
+        method: options.method ?? 'tokens',
+        sessionStartedAt,
+        expiresAt,
+      });
+      return;
+    }
+    if (options.method && options.method !== 'cookie_restore') {
+      this.events.emit('reauthenticated', { timestamp: Date.now(), method: options.method });
+    }
+    const previousTenantId = extractJwtClaim(currentData.accessToken, 'tenantId') ?? null;
+    const tenantId = extractJwtClaim(tokenData.accessToken, 'tenantId') ?? null;
+    if (previousTenantId !== tenantId) {
+      this.events.emit('tenant:switched', { timestamp: Date.now(), tenantId, previousTenantId });
+    }
   }
 
   getTokens(): TokenData | null {
-    const { accessToken, refreshToken, expiresAt, expiresIn, tokenType } =
-      this.tokenStorage.get() || {};
+    const {
+      accessToken,
+      refreshToken,
+      expiresAt,
+      expiresIn,
+      tokenType,
+      sessionStartedAt,
+      authenticatedAt,
+    } = this.tokenStorage.get() || {};
 
     if (!accessToken) {
       return null;
@@ -372,6 +971,8 @@ export class SessionManager {
       expiresAt: resolvedExpiresAt,
       expiresIn,
       tokenType,
+      sessionStartedAt,
+      authenticatedAt,
     };
   }
 
@@ -382,13 +983,47 @@ export class SessionManager {
   isTokenExpired(token?: TokenData): boolean {
     const tokens = token || this.getTokens();
     if (!tokens?.expiresAt) return false;
-    return Date.now() >= tokens.expiresAt;
+    return this.serverNow() >= tokens.expiresAt;
   }
 
   shouldRefreshToken(token?: TokenData): boolean {
     const tokens = token || this.getTokens();
     if (!tokens?.expiresAt || !this.autoRefresh) return false;
-    return Date.now() >= tokens.expiresAt - this.refreshThreshold;
+    return this.serverNow() >= tokens.expiresAt - this.refreshThreshold;
+  }
+
+  // --- Clock skew ---
+
+  /**
+   * Estimated server clock minus client clock, in ms. Persisted with the
+   * tokens so reloads and other tabs sharing the storage start from it.
+   */
+  private getClockSkew(): number {
+    const skew = this.tokenStorage.get()?.clockSkewMs;
+    return typeof skew === 'number' && Number.isFinite(skew) ? skew : 0;
+  }
+
+  /** Current time on the server's clock, as far as we can tell. */
+  private serverNow(): number {
+    return Date.now() + this.getClockSkew();
+  }
+
+  /**
+   * Estimate the skew from a response that just arrived: the `Date` header
+   * when readable (cross-origin it must be listed in Access-Control-Expose-
+   * Headers), otherwise the freshly issued token's `iat` claim. Falls back
+   * to the current estimate when neither is available.
+   */
+  private estimateClockSkew(accessToken: string, serverDate?: string | null): number {
+    let serverTime = serverDate ? Date.parse(serverDate) : Number.NaN;
+    if (!Number.isFinite(serverTime)) {
+      const iat = decodeJwt(accessToken)?.payload.iat;
+      serverTime = typeof iat === 'number' ? iat * 1000 : Number.NaN;
+    }
+    if (!Number.isFinite(serverTime)) return this.getClockSkew();
+
+    const skew = serverTime - Date.now();
+    return Math.abs(skew) < SessionManager.CLOCK_SKEW_TOLERANCE ? 0 : skew;
   }
 
   getAccessToken(): string | null {
@@ -401,6 +1036,10 @@ export class SessionManager {
   private scheduleProactiveRefresh(): void {
     this.cancelProactiveTimer();
     if (!this.autoRefresh || this.isDestroyed) return;
+    if (this.bff) {
+      this.scheduleBffSync();
+      return;
+    }
 
     const tokens = this.getTokens();
     if (!tokens?.accessToken) return;
@@ -415,6 +1054,10 @@ export class SessionManager {
     const hasRefreshToken = typeof tokens.refreshToken === 'string' && tokens.refreshToken !== '';
     if (!hasRefreshToken) return;
 
+    // In leader mode only the leader renews proactively; followers receive
+    // its broadcast and keep just the watchdog armed.
+    if (this.coordinator && !this.coordinator.isLeader()) return;
+
     if (!tokens.expiresAt) {
       // We have a refresh token but cannot derive expiry (no expiresIn, no JWT
       // exp). Do NOT silently die: attempt an immediate refresh so a response
@@ -424,7 +1067,7 @@ export class SessionManager {
     }
 
     const refreshAt = tokens.expiresAt - this.proactiveRefreshMargin;
-    const delay = refreshAt - Date.now();
+    const delay = refreshAt - this.serverNow();
 
     if (delay <= 0) {
       // Already past the proactive refresh point — refresh now
@@ -451,7 +1094,7 @@ export class SessionManager {
     }
     if (!this.autoRefresh || this.isDestroyed || !expiresAt) return;
 
-    const delay = expiresAt - Date.now();
+    const delay = expiresAt - this.serverNow();
     if (delay <= 0) {
       // Already expired on arrival — check on the next tick so any in-flight
       // refresh (e.g. one just kicked off by scheduleProactiveRefresh) can win.
@@ -528,6 +1171,9 @@ export class SessionManager {
    */
   private handleAppReturnToForeground(): void {
     if (this.isDestroyed) return;
+    // The idle deadline may have passed while the hidden tab's timer was
+    // throttled; settle it before deciding whether to refresh.
+    this.scheduleIdleTimer();
     const tokens = this.getTokens();
     const hasRefreshToken =
       tokens?.accessToken && typeof tokens.refreshToken === 'string' && tokens.refreshToken !== '';
@@ -593,9 +1239,19 @@ export class SessionManager {
   // --- Cross-tab synchronization via storage events ---
 
   private storageListener: ((e: StorageEvent) => void) | null = null;
+  private storageUnsubscribe: (() => void) | null = null;
 
   private attachStorageListener(): void {
-    if (this.storageListener) return;
+    if (this.storageListener || this.storageUnsubscribe) return;
+    if (this.tokenStorage.subscribe) {
+      // The adapter decodes other tabs' writes itself (e.g. decryption), so
+      // only react once its mirror is up to date.
+      this.storageUnsubscribe = this.tokenStorage.subscribe(() => {
+        if (this.isDestroyed) return;
+        this.handleExternalStorageChange(!this.getTokens());
+      });
+      return;
+    }
     if (typeof window === 'undefined' || typeof window.addEventListener !== 'function') {
       return;
     }
@@ -607,47 +1263,414 @@ export class SessionManager {
       // storageArea may be undefined in some synthetic events (tests, polyfills).
       if (e.storageArea && e.storageArea !== localStorage) return;
       if (this.isDestroyed) return;
+      this.handleExternalStorageChange(e.newValue === null);
+    };
+    try {
+      window.addEventListener('storage', this.storageListener);
+    } catch {
+      this.storageListener = null;
+    }
+  }
+
+  private handleExternalStorageChange(cleared: boolean): void {
+    if (cleared) {
+      // Another tab cleared the session (logout or expiry). Invalidate any
+      // in-flight refresh here and notify so React state can reconcile.
+      // Do NOT call clearSession() — storage is already empty and that
+      // would re-emit a storage event we'd ignore anyway.
+      this.sessionGeneration++;
+      this.cancelProactiveTimer();
+      this.cancelIdleTimer();
+      this.cancelLifetimeTimer();
+      const expiredError = new SessionExpiredError(
+        'token_invalid',
+        'Session cleared in another tab'
+      );
+      this.rejectQueue(expiredError);
+      this.transitionTo('idle');
+      this.events.emit('cross-tab:sync', {
+        timestamp: Date.now(),
+        kind: 'cleared',
+        transport: 'storage',
+      });
+    } else {
+      // Another tab refreshed (or logged in). Reschedule the proactive timer
+      // off the new expiry; transition to authenticated if tokens look good.
+      this.scheduleProactiveRefresh();
+      this.scheduleIdleTimer();
+      this.scheduleLifetimeTimer();
+      if (this.hasValidSession()) {
+        this.transitionTo('authenticated');
+      }
+      this.events.emit('cross-tab:sync', {
+        timestamp: Date.now(),
+        kind: 'tokens',
+        transport: 'storage',
+      });
+    }
+    this.notify();
+  }
+
+  private detachStorageListener(): void {
+    this.storageUnsubscribe?.();
+    this.storageUnsubscribe = null;
+    if (this.storageListener && typeof window !== 'undefined') {
+      try {
+        window.removeEventListener('storage', this.storageListener);
+      } catch {
+        // ignore
+      }
+    }
+    this.storageListener = null;
+  }
+
+  // --- Cross-tab leader coordination (opt-in) ---
+
+  private startCrossTabCoordinator(): void {
+    if (!CrossTabCoordinator.isSupported()) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn(
+          '[SessionManager] crossTabCoordination "leader" needs Web Locks and BroadcastChannel — falling back to "storage".'
+        );
+      }
+      return;
+    }
+    this.coordinator = new CrossTabCoordinator(this.storageKey, {
+      onMessage: message => this.handleCrossTabMessage(message),
+      onLeadershipAcquired: () => {
+        if (this.isDestroyed) return;
+        // Previous leader closed (or this is the first tab): take over the
+        // proactive refresh schedule.
+        this.scheduleProactiveRefresh();
+        this.notify();
+      },
+    });
+    this.coordinator.start();
+  }
+
+  private handleCrossTabMessage(message: CrossTabMessage): void {
+    if (this.isDestroyed) return;
+
+    switch (message.type) {
+      case 'tokens': {
+        this.applyingRemoteChange = true;
+        try {
+          // Already verified by the tab that wrote them; applied synchronously
+          // so the flag covers the write.
+          this.validateTokens(message.tokens);
+          this.commitTokens(message.tokens, {});
+        } catch {
+          // Malformed broadcast — ignore; our own refresh path still works.
+        } finally {
+          this.applyingRemoteChange = false;
+        }
+        this.events.emit('cross-tab:sync', {
+          timestamp: Date.now(),
+          kind: 'tokens',
+          transport: 'broadcast',
+        });
+        this.settleLeaderRefresh();
+        return;
+      }
+      case 'cleared': {
+        // Same semantics as a storage-event clear: another tab logged out or
+        // expired. Non-shared backends (sessionStorage, memory) still hold
+        // our copy, so drop it explicitly.
+        this.sessionGeneration++;
+        this.cancelProactiveTimer();
+        this.cancelIdleTimer();
+        this.cancelLifetimeTimer();
+        this.clearTokens();
+        const expiredError = new SessionExpiredError(
+          'token_invalid',
+          'Session cleared in another tab'
+        );
+        this.settleLeaderRefresh(expiredError);
+        this.rejectQueue(expiredError);
+        this.transitionTo('idle');
+        this.notify();
+        this.events.emit('cross-tab:sync', {
+          timestamp: Date.now(),
+          kind: 'cleared',
+          transport: 'broadcast',
+        });
+        return;
+      }
+      case 'refresh-request': {
+        if (this.coordinator?.isLeader()) {
+          void this.serveFollowerRefresh(message.force, message.requestId);
+        }
+        return;
+      }
+      case 'refresh-failed': {
+        // Only the follower that asked; the others' requests are still being served.
+        if (this.pendingLeaderRefresh?.requestId === message.requestId) {
+          this.settleLeaderRefresh(new Error(message.message));
+        }
+        return;
+      }
+      case 'no-tokens': {
+        // Not a logout: the leader just has nothing to refresh with. Our own
+        // refresh token may still be good (non-shared storage), so use it.
+        if (this.pendingLeaderRefresh?.requestId === message.requestId) {
+          this.pendingLeaderRefresh.refreshLocally();
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Leader side: refresh on behalf of a follower. A refresh reaches the
+   * followers through commitTokens' broadcast; only a token still valid
+   * without one has to be sent here.
+   */
+  private async serveFollowerRefresh(force: boolean, requestId: string): Promise<void> {
+    const before = this.getTokens();
+    if (!before?.accessToken) {
+      this.coordinator?.post({ type: 'no-tokens', requestId });
+      return;
+    }
+    try {
+      await (force ? this.forceRefresh() : this.getValidAccessToken());
+      const tokens = this.getTokens();
+      if (tokens && tokens.accessToken === before.accessToken) {
+        this.coordinator?.post({ type: 'tokens', tokens });
+      }
+    } catch (error) {
+      // Fatal failures already broadcast 'cleared' from handleSessionExpired.
+      if (!(error instanceof SessionExpiredError)) {
+        this.coordinator?.post({
+          type: 'refresh-failed',
+          message: error instanceof Error ? error.message : 'Token refresh failed',
+          requestId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Follower side: ask the leader to refresh and wait for its broadcast. If
+   * the leader does not answer in time (none elected yet, frozen tab) or has
+   * no session itself, refresh locally — performTokenRefresh still serializes
+   * on the per-refresh lock.
+   */
+  private awaitLeaderRefresh(refreshToken: string, force: boolean): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const refreshLocally = () => {
+        clearTimeout(timeoutId);
+        this.pendingLeaderRefresh = null;
+        this.executeRefreshWithRetry(refreshToken, force).then(resolve, reject);
+      };
+      const timeoutId = setTimeout(refreshLocally, SessionManager.LEADER_RESPONSE_TIMEOUT);
+      const requestId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+      this.pendingLeaderRefresh = {
+        requestId,
+        refreshLocally,
+        resolve: () => {
+          clearTimeout(timeoutId);
+          resolve();
+        },
+        reject: error => {
+          clearTimeout(timeoutId);
+          reject(error);
+        },
+      };
+      this.coordinator?.post({ type: 'refresh-request', force, requestId });
+    });
+  }
+
+  private settleLeaderRefresh(error?: Error): void {
+    const pending = this.pendingLeaderRefresh;
+    if (!pending) return;
+    this.pendingLeaderRefresh = null;
+    if (error) pending.reject(error);
+    else pending.resolve();
+  }
+
+  // --- Idle timeout (opt-in) ---
+
+  private startIdleTracking(): void {
+    this.idleTracker = new IdleTracker(this.storageKey, {
+      onActivity: () => {
+        // Outside the warning phase the pending timer re-reads the last
+        // activity when it fires, so nothing needs rescheduling per event.
+        if (this.idleWarningActive) this.scheduleIdleTimer();
+      },
+      // Once the warning is up, only an explicit recordActivity() (e.g. the
+      // "stay signed in" button) keeps the session — a stray mouse move must
+      // not silently dismiss it.
+      acceptPassiveActivity: () => !this.idleWarningActive,
+    });
+    this.idleTracker.start();
+    // A session restored past its deadline is ended on the next tick (or by
+    // ensureValidSession during bootstrap) — never from the constructor, where
+    // onSessionExpired would run in the middle of a React render.
+    if (this.isIdleExpired()) {
+      this.scheduleIdleTimerSoon();
+      return;
+    }
+    this.scheduleIdleTimer();
+  }
+
+  /** scheduleIdleTimer() on the next tick, for callers running inside a render. */
+  private scheduleIdleTimerSoon(): void {
+    this.cancelIdleTimer();
+    this.idleTimerId = setTimeout(() => {
+      this.idleTimerId = null;
+      if (!this.isDestroyed) this.scheduleIdleTimer();
+    }, 0);
+  }
+
+  /**
+   * Arm the idle timer for the next boundary (warning start or deadline). When
+   * it fires, the deadline is recomputed from the latest activity across tabs,
+   * so activity in the meantime simply pushes the next check out.
+   */
+  private scheduleIdleTimer(): void {
+    this.cancelIdleTimer();
+    const status = this.getIdleStatus();
+    if (!status) {
+      this.setIdleWarning(false);
+      return;
+    }
+    if (status.remainingMs === 0) {
+      this.clearSession('idle_timeout');
+      return;
+    }
+    this.setIdleWarning(status.isWarning);
+    const nextBoundary = status.isWarning
+      ? status.remainingMs
+      : status.remainingMs - this.idleWarningTime;
+    this.idleTimerId = setTimeout(() => {
+      this.idleTimerId = null;
+      if (!this.isDestroyed) this.scheduleIdleTimer();
+    }, nextBoundary);
+  }
+
+  private cancelIdleTimer(): void {
+    if (this.idleTimerId !== null) {
+      clearTimeout(this.idleTimerId);
+      this.idleTimerId = null;
+    }
+  }
+
+  private setIdleWarning(active: boolean): void {
+    if (this.idleWarningActive === active) return;
+    this.idleWarningActive = active;
+    this.notify();
+  }
+
+  private isIdleExpired(): boolean {
+    return this.getIdleStatus()?.remainingMs === 0;
+  }
+
+  /**
+   * Idle-timeout countdown for the current session, or null when idleTimeout
+   * is disabled or there is no session.
+   */
+  getIdleStatus(): IdleStatus | null {
+    if (!this.idleTracker || this.isDestroyed || !this.hasSession()) return null;
+    const deadline = this.idleTracker.getLastActivity() + this.idleTimeout;
+    const remainingMs = Math.max(0, deadline - Date.now());
+    return { deadline, remainingMs, isWarning: remainingMs <= this.idleWarningTime };
+  }
+
+  /**
+   * Register explicit user activity — e.g. "Stay signed in" on the timeout
+   * warning. Resets the idle countdown in every tab. No-op when idle timeout
+   * is disabled.
+   */
+  recordActivity(): void {
+    if (!this.idleTracker || this.isDestroyed) return;
+    this.idleTracker.record();
+    this.scheduleIdleTimer();
+  }
+
+  // --- Absolute session lifetime (opt-in) ---
+
+  /** Epoch ms of the login that started the current session, or null. */
+  getSessionStartedAt(): number | null {
+    return (this.getTokens() ?? this.getBffSession())?.sessionStartedAt ?? null;
+  }
+
+  /**
+   * ms since the original login, null when the login time is unknown, or
+   * undefined when there is no session at all.
+   */
+  private getSessionDurationMs(): number | null | undefined {
+    const session = this.getTokens() ?? this.getBffSession();
+    if (!session) return undefined;
+    return session.sessionStartedAt ? Date.now() - session.sessionStartedAt : null;
+  }
+
+  // --- Login freshness (step-up re-authentication) ---
+
+  /**
+   * Epoch ms (client clock) of the last time the user proved their
+   * credentials: the access token's `auth_time` claim when present, else the
+   * time recorded locally by the last password or magic-link login. Null
+   * when unknown (no session, cookie restore, bare setTokens).
+   */
+  getAuthTime(): number | null {
+    const tokens = this.getTokens();
+    if (!tokens) return this.getBffSession()?.authenticatedAt ?? null;
+    const authTime = decodeJwt(tokens.accessToken)?.payload.auth_time;
+    if (typeof authTime === 'number' && Number.isFinite(authTime)) {
+      return authTime * 1000 - this.getClockSkew();
+    }
+    return tokens.authenticatedAt ?? null;
+  }
+
+  /** True when the user proved their credentials less than `maxAgeMs` ago. */
+  isRecentAuth(maxAgeMs: number): boolean {
+    const authTime = this.getAuthTime();
+    return authTime !== null && Date.now() - authTime <= maxAgeMs;
+  }
+
+  private getLifetimeDeadline(): number | null {
+    if (this.absoluteSessionLifetime <= 0) return null;
+    const startedAt = this.getSessionStartedAt();
+    return startedAt === null ? null : startedAt + this.absoluteSessionLifetime;
+  }
+
+  private isLifetimeExceeded(): boolean {
+    const deadline = this.getLifetimeDeadline();
+    return deadline !== null && Date.now() >= deadline;
+  }
+
+  /**
+   * Arm a timer for the session's absolute deadline. Always asynchronous —
+   * even an already-passed deadline fires on the next tick — so this is safe
+   * to call from the constructor. Synchronous paths (getValidAccessToken,
+   * ensureValidSession) check isLifetimeExceeded() themselves.
+   */
+  private scheduleLifetimeTimer(): void {
+    this.cancelLifetimeTimer();
+    if (this.isDestroyed) return;
+    const deadline = this.getLifetimeDeadline();
+    if (deadline === null) return;
+    const delay = Math.min(Math.max(0, deadline - Date.now()), SessionManager.MAX_TIMER_DELAY);
+    this.lifetimeTimerId = setTimeout(() => {
+      this.lifetimeTimerId = null;
+      if (this.isDestroyed) return;
+      if (this.isLifetimeExceeded()) this.expireLifetime();
+      else this.scheduleLifetimeTimer();
+    }, delay);
+  }
 
-      if (e.newValue === null) {
-        // Another tab cleared the session (logout or expiry). Invalidate any
-        // in-flight refresh here and notify so React state can reconcile.
-        // Do NOT call clearSession() — storage is already empty and that
-        // would re-emit a storage event we'd ignore anyway.
-        this.sessionGeneration++;
-        this.cancelProactiveTimer();
-        const expiredError = new SessionExpiredError(
-          'token_invalid',
-          'Session cleared in another tab'
-        );
-        this.rejectQueue(expiredError);
-        this.transitionTo('idle');
-      } else {
-        // Another tab refreshed (or logged in). Reschedule the proactive timer
-        // off the new expiry; transition to authenticated if tokens look good.
-        this.scheduleProactiveRefresh();
-        const tokens = this.getTokens();
-        if (tokens?.accessToken && !this.isTokenExpired(tokens)) {
-          this.transitionTo('authenticated');
-        }
-      }
-      this.notify();
-    };
-    try {
-      window.addEventListener('storage', this.storageListener);
-    } catch {
-      this.storageListener = null;
+  private cancelLifetimeTimer(): void {
+    if (this.lifetimeTimerId !== null) {
+      clearTimeout(this.lifetimeTimerId);
+      this.lifetimeTimerId = null;
     }
   }
 
-  private detachStorageListener(): void {
-    if (this.storageListener && typeof window !== 'undefined') {
-      try {
-        window.removeEventListener('storage', this.storageListener);
-      } catch {
-        // ignore
-      }
-    }
-    this.storageListener = null;
+  private expireLifetime(): SessionExpiredError {
+    const error = new SessionExpiredError('absolute_lifetime_exceeded');
+    this.handleSessionExpired(error);
+    return error;
   }
 
   // --- Reactivity (useSyncExternalStore-compatible) ---
@@ -664,6 +1687,26 @@ export class SessionManager {
     };
   }
 
+  /**
+   * Listen for a typed session event (login, logout, refresh:*, expired, …).
+   * Returns an unsubscribe function. Unlike `subscribe`, events carry a
+   * payload describing what happened — use them for analytics, audit logs
+   * and toasts.
+   */
+  on<K extends SessionEventType>(type: K, listener: SessionEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /** Listen for every session event. Returns an unsubscribe function. */
+  onAny(listener: SessionEventListener): () => void {
+    return this.events.onAny(listener);
+  }
+
+  /** Emit `request:retry` for an HttpService retry. Called by HttpService. */
+  reportRequestRetry(retry: Omit<SessionEventMap['request:retry'], 'timestamp'>): void {
+    this.events.emit('request:retry', { timestamp: Date.now(), ...retry });
+  }
+
   /**
    * Numeric snapshot for useSyncExternalStore. Strictly monotonic — every
    * call to `notify()` bumps it so React will observe a fresh value even
@@ -693,6 +1736,8 @@ export class SessionManager {
       sessionGeneration: this.sessionGeneration,
       consecutiveBackgroundFailures: this.consecutiveBackgroundFailures,
       lastExpiryReason: this.lastExpiryReason,
+      crossTabRole: this.coordinator ? (this.coordinator.isLeader() ? 'leader' : 'follower') : null,
+      clockSkewMs: this.getClockSkew(),
     };
   }
 
@@ -788,28 +1833,25 @@ export class SessionManager {
    * Only works when enableCookieSession is true.
    */
   async attemptCookieSessionRestore(): Promise<boolean> {
+    if (this.bff) return this.syncBffSession('cookie_restore').catch(() => false);
     if (!this.enableCookieSession || !this.baseUrl) return false;
 
-    const url = `${this.baseUrl}/auth/refresh`;
-
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
-        credentials: 'include',
-      });
+      const response = await this.fetchRefresh({ refreshToken: null });
 
       if (!response.ok) return false;
 
-      const data = await response.json();
-      if (!data.accessToken) return false;
+      const data = this.readRefreshResponse(await response.json());
+      if (!data?.accessToken) return false;
 
-      this.setTokens({
-        accessToken: data.accessToken,
-        refreshToken: data.refreshToken || '',
-        expiresIn: data.expiresIn,
-      });
+      await this.applyTokens(
+        { ...data, refreshToken: data.refreshToken || '' },
+        {
+          method: 'cookie_restore',
+          sampleClock: true,
+          serverDate: response.headers?.get?.('Date'),
+        }
+      );
 
       return true;
     } catch {
@@ -828,6 +1870,7 @@ export class SessionManager {
    * @throws {TokenRefreshError} if refresh fails after all retries
    */
   async getValidAccessToken(): Promise<string> {
+    if (this.bff) throw SessionManager.bffTokenError();
     const tokens = this.getTokens();
 
     // No tokens at all
@@ -837,6 +1880,17 @@ export class SessionManager {
       throw error;
     }
 
+    // Idle deadline passed but this tab's timer has not fired yet (throttled
+    // background tab) — end the session instead of handing out a token.
+    if (this.isIdleExpired()) {
+      this.clearSession('idle_timeout');
+      throw new SessionExpiredError('idle_timeout');
+    }
+
+    // Same for the absolute lifetime: a refresh would succeed, but the
+    // session is too old to be extended.
+    if (this.isLifetimeExceeded()) throw this.expireLifetime();
+
     // Token is valid and not near expiry — return immediately
     if (!this.shouldRefreshToken(tokens) && !this.isTokenExpired(tokens)) {
       return tokens.accessToken;
@@ -870,6 +1924,7 @@ export class SessionManager {
    * @throws {TokenRefreshError} if refresh fails after all retries
    */
   async forceRefresh(): Promise<string> {
+    if (this.bff) throw SessionManager.bffTokenError();
     const tokens = this.getTokens();
 
     if (!tokens?.accessToken) {
@@ -909,6 +1964,8 @@ export class SessionManager {
    * Never throws — all error paths collapse into `'expired'`.
    */
   async ensureValidSession(): Promise<'authenticated' | 'unauthenticated' | 'expired'> {
+    if (this.storageReady) await this.storageReady;
+    if (this.bff) return this.ensureValidBffSession();
     const tokens = this.getTokens();
     if (!tokens?.accessToken) {
       this.transitionTo('idle');
@@ -916,6 +1973,16 @@ export class SessionManager {
       return 'unauthenticated';
     }
 
+    // Reload after the idle deadline: the session must not be restored.
+    if (this.isIdleExpired()) {
+      this.clearSession('idle_timeout');
+      return 'expired';
+    }
+    if (this.isLifetimeExceeded()) {
+      this.expireLifetime();
+      return 'expired';
+    }
+
     if (!this.isTokenExpired(tokens) && !this.shouldRefreshToken(tokens)) {
       this.transitionTo('authenticated');
       this.notify();
@@ -953,7 +2020,7 @@ export class SessionManager {
   async getAuthHeaders(): Promise<Record<string, string>> {
     try {
       const accessToken = await this.getValidAccessToken();
-      return { Authorization: `Bearer ${accessToken}` };
+      return { Authorization: `${this.dpopProver ? 'DPoP' : 'Bearer'} ${accessToken}` };
     } catch (error) {
       // Maintain backward compat: return empty headers instead of throwing
       // for code that expects the old behavior
@@ -967,6 +2034,272 @@ export class SessionManager {
     }
   }
 
+  // --- BFF mode ---
+
+  /** True when tokens stay on the server (`SessionConfig.bff`). */
+  isBffMode(): boolean {
+    return this.bff !== null;
+  }
+
+  /**
+   * BFF mode: re-read the session endpoint. Resolves true while the server
+   * reports an authenticated session. A session that is gone on the server
+   * is expired here too (onSessionExpired fires). Rejects on network or
+   * server errors. Concurrent calls share one request.
+   */
+  syncSession(): Promise<boolean> {
+    return this.syncBffSession();
+  }
+
+  private static bffTokenError(): Error {
+    return new Error('[SessionManager] Tokens are held by the server in BFF mode');
+  }
+
+  /**
+   * Whether a session is held at all — tokens, or the BFF session record —
+   * whether or not it is still valid.
+   */
+  hasSession(): boolean {
+    return this.getTokens() !== null || this.getBffSession() !== null;
+  }
+
+  private getBffSession(): BffSessionInfo | null {
+    if (!this.bff) return null;
+    return this.tokenStorage.get()?.bffSession ?? null;
+  }
+
+  private syncBffSession(method?: LoginMethod): Promise<boolean> {
+    if (!this.bff) {
+      return Promise.reject(new Error('[SessionManager] syncSession() requires bff mode'));
+    }
+    if (!this.bffSyncPromise) {
+      const generation = this.sessionGeneration;
+      this.bffSyncPromise = this.fetchBffSession()
+        .then(({ session, serverDate }) => {
+          // A logout while the request was in flight wins.
+          if (generation !== this.sessionGeneration || this.isDestroyed) return false;
+          return this.applyBffSession(session, serverDate, method);
+        })
+        .finally(() => {
+          this.bffSyncPromise = null;
+        });
+    }
+    return this.bffSyncPromise;
+  }
+
+  private async fetchBffSession(): Promise<{
+    session: BffSessionResponse | null;
+    serverDate: string | null;
+  }> {
+    const url = this.endpointUrl((this.bff as Required<BffConfig>).sessionPath);
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { Accept: 'application/json' },
+      credentials: 'include',
+    });
+    this.csrf?.acceptResponse(response);
+    const serverDate = response.headers?.get?.('Date') ?? null;
+    if (response.status === 401) return { session: null, serverDate };
+    if (!response.ok) {
+      let body: unknown = null;
+      try {
+        body = await response.json();
+      } catch {
+        // Empty or non-JSON body — classifiers see null.
+      }
+      // Same verdicts as a failed refresh: fatal ends the session, anything
+      // else is worth asking again.
+      const classification =
+        this.classifyRefreshError?.(response.status, body) ??
+        defaultClassifyRefreshError(response.status, body);
+      if (classification.fatal) {
+        throw new SessionExpiredError(classification.reason, classification.message);
+      }
+      throw new Error(
+        `Session check failed: ${response.status} ${classification.message || response.statusText}`
+      );
+    }
+    const body = await response.json();
+    const session: BffSessionResponse | undefined =
+      body && 'authenticated' in body ? body : body?.data;
+    return { session: session?.authenticated ? session : null, serverDate };
+  }
+
+  private applyBffSession(
+    session: BffSessionResponse | null,
+    serverDate: string | null,
+    method?: LoginMethod
+  ): boolean {
+    const currentData = this.tokenStorage.get() || {};
+    const previous: BffSessionInfo | undefined = currentData.bffSession;
+
+    if (!session) {
+      if (previous) {
+        this.handleSessionExpired(
+          new SessionExpiredError('token_invalid', 'Session ended on the server')
+        );
+      } else {
+        this.transitionTo('idle');
+        this.notify();
+      }
+      return false;
+    }
+
+    const clockSkewMs = serverDate ? this.estimateClockSkew('', serverDate) : this.getClockSkew();
+    const expiresAt = parseSessionExpiry(session.expiresAt);
+    const info: BffSessionInfo = {
+      expiresAt,
+      sessionStartedAt: previous?.sessionStartedAt ?? Date.now(),
+      authenticatedAt:
+        typeof session.authTime === 'number'
+          ? session.authTime * 1000 - clockSkewMs
+          : method && method !== 'cookie_restore'
+            ? Date.now()
+            : previous?.authenticatedAt,
+    };
+
+    if (!previous) this.idleTracker?.record();
+    this.tokenStorage.set({
+      ...currentData,
+      bffSession: info,
+      clockSkewMs,
+      ...(session.user !== undefined && { user: session.user }),
+    });
+    this.scheduleProactiveRefresh();
+    this.scheduleIdleTimer();
+    this.scheduleLifetimeTimer();
+    this.transitionTo('authenticated');
+    this.notify();
+
+    if (!previous) {
+      this.events.emit('login', {
+        timestamp: Date.now(),
+        method: method ?? 'cookie_restore',
+        sessionStartedAt: info.sessionStartedAt,
+        expiresAt,
+      });
+    } else if (method && method !== 'cookie_restore') {
+      this.events.emit('reauthenticated', { timestamp: Date.now(), method });
+    }
+    return true;
+  }
+
+  /**
+   * The server renews its tokens on its own; at the expiry it reported, ask
+   * whether the session was extended. A 401 or a fatal classification ends
+   * the session. Network errors and transient statuses are asked again with
+   * backoff, up to maxRefreshRetries times; a session still unconfirmed after
+   * that is not known to be alive, so it ends.
+   */
+  private scheduleBffSync(failures = 0): void {
+    const expiresAt = this.getBffSession()?.expiresAt;
+    if (!expiresAt) return;
+    const delay =
+      failures > 0
+        ? this.retryBackoffBase * 2 ** (failures - 1)
+        : Math.min(
+            Math.max(expiresAt - this.serverNow(), SessionManager.MIN_BFF_SYNC_DELAY),
+            SessionManager.MAX_TIMER_DELAY
+          );
+    this.proactiveTimerId = setTimeout(() => {
+      this.proactiveTimerId = null;
+      this.syncBffSession().catch(error => {
+        if (!this.getBffSession()) return;
+        if (error instanceof SessionExpiredError) {
+          this.handleSessionExpired(error);
+        } else if (failures < this.maxRefreshRetries) {
+          this.scheduleBffSync(failures + 1);
+        } else {
+          this.handleSessionExpired(
+            new SessionExpiredError(
+              'token_expired',
+              error instanceof Error ? error.message : 'Session could not be confirmed'
+            )
+          );
+        }
+      });
+    }, delay);
+  }
+
+  private async ensureValidBffSession(): Promise<'authenticated' | 'unauthenticated' | 'expired'> {
+    const hadSession = this.getBffSession() !== null;
+    // Reload after the idle deadline or past the lifetime: the stored
+    // session must not be restored, same as with tokens.
+    if (hadSession && this.isIdleExpired()) {
+      this.clearSession('idle_timeout');
+      return 'expired';
+    }
+    if (hadSession && this.isLifetimeExceeded()) {
+      this.expireLifetime();
+      return 'expired';
+    }
+    try {
+      if (await this.syncBffSession()) return 'authenticated';
+      return hadSession ? 'expired' : 'unauthenticated';
+    } catch (error) {
+      if (error instanceof SessionExpiredError && hadSession) {
+        this.handleSessionExpired(error);
+        return 'expired';
+      }
+      // Unreachable proxy: same as a refresh that failed transiently.
+      this.transitionTo(hadSession ? 'expired' : 'idle');
+      this.notify();
+      return hadSession ? 'expired' : 'unauthenticated';
+    }
+  }
+
+  // --- CSRF ---
+
+  /** True when cookie-authenticated requests carry a CSRF token (`SessionConfig.csrf` or BFF mode). */
+  isCsrfEnabled(): boolean {
+    return this.csrf !== null;
+  }
+
+  /**
+   * The double-submit CSRF header for a credentialed request. Empty for safe
+   * methods, without a token, or when CSRF protection is off.
+   */
+  getCsrfHeaders(method: string): Record<string, string> {
+    return this.csrf?.getHeaders(method) ?? {};
+  }
+
+  /** Adopt a CSRF token the server rotated through a response header. */
+  acceptCsrfResponse(response: Response): void {
+    this.csrf?.acceptResponse(response);
+  }
+
+  /**
+   * Fetch a fresh CSRF token after the server rejected the current one.
+   * Resolves true when a token is available; false when CSRF protection is
+   * off or the endpoint failed.
+   */
+  refreshCsrfToken(): Promise<boolean> {
+    return this.csrf?.refresh() ?? Promise.resolve(false);
+  }
+
+  // --- DPoP ---
+
+  /** True when this instance binds tokens with DPoP (`SessionConfig.dpop`). */
+  isDpopEnabled(): boolean {
+    return this.dpopProver !== null;
+  }
+
+  /**
+   * Sign a DPoP proof for one request, with the `ath` hash of `accessToken`
+   * when given. Null when DPoP is off.
+   */
+  async createDpopProof(method: string, url: string, accessToken?: string): Promise<string | null> {
+    return this.dpopProver ? this.dpopProver.createProof(method, url, accessToken) : null;
+  }
+
+  /**
+   * Record the `DPoP-Nonce` of a response. True when the response failed
+   * with a new nonce and the request should be retried with a fresh proof.
+   */
+  acceptDpopNonce(response: Response): boolean {
+    return this.dpopProver?.acceptNonce(response) ?? false;
+  }
+
   private enqueueForToken(): Promise<string> {
     return new Promise<string>((resolve, reject) => {
       const timeoutId = setTimeout(() => {
@@ -989,8 +2322,15 @@ export class SessionManager {
     // is gone, so the onSessionExpired callback would be spurious.
     const startGen = this.sessionGeneration;
 
-    // Create the shared promise
-    this.refreshPromise = this.executeRefreshWithRetry(refreshToken, force);
+    // Create the shared promise. Followers in leader mode delegate to the
+    // leader tab instead of hitting /auth/refresh themselves.
+    const via = this.coordinator && !this.coordinator.isLeader() ? 'leader' : 'network';
+    const startedAt = Date.now();
+    this.events.emit('refresh:start', { timestamp: startedAt, force, via });
+    this.refreshPromise =
+      via === 'leader'
+        ? this.awaitLeaderRefresh(refreshToken, force)
+        : this.executeRefreshWithRetry(refreshToken, force);
     this.isRefreshing = true;
     this.notify();
 
@@ -1001,6 +2341,15 @@ export class SessionManager {
       const newTokens = this.getTokens();
       const newAccessToken = newTokens?.accessToken || '';
 
+      const timestamp = Date.now();
+      this.events.emit('refresh:success', {
+        timestamp,
+        startedAt,
+        durationMs: timestamp - startedAt,
+        via,
+        expiresAt: newTokens?.expiresAt,
+      });
+
       // Resolve all queued requests
       this.resolveQueue(newAccessToken);
 
@@ -1008,6 +2357,18 @@ export class SessionManager {
     } catch (error) {
       const err = error instanceof Error ? error : new Error('Token refresh failed');
 
+      const timestamp = Date.now();
+      const fatal = err instanceof SessionExpiredError;
+      this.events.emit('refresh:failure', {
+        timestamp,
+        startedAt,
+        durationMs: timestamp - startedAt,
+        via,
+        fatal,
+        reason: fatal ? err.reason : 'transient',
+        error: err,
+      });
+
       if (err instanceof SessionExpiredError) {
         // Fatal — reject all queued.
         this.rejectQueue(err);
@@ -1106,6 +2467,89 @@ export class SessionManager {
     return this.performTokenRefreshInner(refreshToken, gen, force);
   }
 
+  // --- Refresh transport ---
+
+  /** `path` relative to baseUrl, or as-is when it is already absolute. */
+  private endpointUrl(path: string): string {
+    return /^https?:\/\//i.test(path) ? path : `${this.baseUrl}${path}`;
+  }
+
+  private refreshUrl(): string {
+    return this.endpointUrl(this.refreshTransport.path ?? '/auth/refresh');
+  }
+
+  /**
+   * POST a refresh (or, with a null refreshToken, a cookie restore). With
+   * DPoP, each attempt carries a fresh proof, and a failure that hands out a
+   * new nonce is retried once. A credentialed request carries the CSRF
+   * token; a CSRF rejection fetches a new one and is retried once.
+   */
+  private fetchRefresh(context: RefreshRequestContext): Promise<Response> {
+    const url = this.refreshUrl();
+    const init = this.buildRefreshRequest(context);
+    const prover = this.dpopProver;
+    const csrf = init.credentials === 'include' ? this.csrf : null;
+    if (!prover && !csrf) return fetch(url, init);
+    const send = async () => {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          ...init.headers,
+          ...csrf?.getHeaders('POST'),
+          ...(prover && { DPoP: await prover.createProof('POST', url) }),
+        },
+      });
+      csrf?.acceptResponse(response);
+      return response;
+    };
+    return send().then(async response => {
+      if (prover?.acceptNonce(response)) return send();
+      if (csrf && response.status === 403) {
+        // Peek at a copy; the caller still reads the body for classification.
+        const body = await response
+          .clone()
+          .json()
+          .catch(() => null);
+        if (isCsrfFailure(response.status, body) && (await csrf.refresh())) return send();
+      }
+      return response;
+    });
+  }
+
+  /** fetch() init for a refresh (or, with a null refreshToken, a cookie restore). */
+  private buildRefreshRequest(context: RefreshRequestContext): RequestInit & {
+    headers: Record<string, string>;
+  } {
+    const { mapRequest, headers: extraHeaders } = this.refreshTransport;
+    const body: BodyInit | Record<string, unknown> = mapRequest
+      ? mapRequest(context)
+      : {
+          ...(context.refreshToken && { refreshToken: context.refreshToken }),
+          ...(context.deviceId && { deviceId: context.deviceId }),
+        };
+    const isJson = Object.getPrototypeOf(body) === Object.prototype;
+    return {
+      method: 'POST',
+      // URLSearchParams and FormData get their Content-Type from fetch.
+      headers: { ...(isJson && { 'Content-Type': 'application/json' }), ...extraHeaders },
+      body: isJson ? JSON.stringify(body) : (body as BodyInit),
+      ...((this.enableCookieSession || context.refreshToken === null) && {
+        credentials: 'include' as RequestCredentials,
+      }),
+    };
+  }
+
+  private readRefreshResponse(body: unknown): RefreshResponseTokens | null {
+    if (this.refreshTransport.mapResponse) return this.refreshTransport.mapResponse(body);
+    const data = body as Partial<RefreshResponseTokens> | null;
+    if (!data?.accessToken) return null;
+    return {
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      expiresIn: data.expiresIn,
+    };
+  }
+
   private async performTokenRefreshInner(
     refreshToken: string,
     gen: number,
@@ -1136,24 +2580,13 @@ export class SessionManager {
     // the old RT we received as parameter is now invalid — use the new one.
     const currentRefreshToken = freshTokens?.refreshToken || refreshToken;
 
-    const url = `${this.baseUrl}/auth/refresh`;
-
     // Extract deviceId from the refresh token JWT if present.
     // Some backends require it as a separate body field for refresh.
     const deviceId = extractJwtClaim(currentRefreshToken, 'deviceId');
-    const refreshBody: Record<string, string> = { refreshToken: currentRefreshToken };
-    if (deviceId) {
-      refreshBody.deviceId = deviceId;
-    }
 
     let response: Response;
     try {
-      response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(refreshBody),
-        ...(this.enableCookieSession && { credentials: 'include' as RequestCredentials }),
-      });
+      response = await this.fetchRefresh({ refreshToken: currentRefreshToken, deviceId });
     } catch (networkError) {
       // Network error (e.g., TypeError: Failed to fetch) — transient
       throw networkError instanceof Error
@@ -1162,46 +2595,22 @@ export class SessionManager {
     }
 
     if (!response.ok) {
-      // Try to extract error message from response body
-      let errorMessage = '';
+      let body: unknown = null;
       try {
-        const body = await response.json();
-        errorMessage = (body.message || body.error || '').toLowerCase();
+        body = await response.json();
       } catch {
-        errorMessage = response.statusText.toLowerCase();
-      }
-
-      // Classify the error based on status + message
-      // All 401s are fatal — no retry
-      if (response.status === 401) {
-        if (errorMessage.includes('expired')) {
-          throw new SessionExpiredError('token_expired');
-        }
-        if (errorMessage.includes('invalid')) {
-          throw new SessionExpiredError('token_invalid');
-        }
-        // Unknown 401 — treat as fatal
-        throw new SessionExpiredError('token_invalid', `Unauthorized: ${errorMessage}`);
+        // Empty or non-JSON body — classifiers see null.
       }
 
-      if (response.status === 400) {
-        if (errorMessage.includes('inactive')) {
-          throw new SessionExpiredError('user_inactive');
-        }
-        // Expired/invalid tokens returned as 400 — also fatal
-        if (errorMessage.includes('expired') || errorMessage.includes('invalid')) {
-          throw new SessionExpiredError('token_invalid', errorMessage);
-        }
-        // Token reuse / revocation — fatal (server revoked all sessions)
-        if (errorMessage.includes('reuse') || errorMessage.includes('revoked')) {
-          throw new SessionExpiredError('token_invalid', errorMessage);
-        }
-        // Other 400s — transient ("User not found", "Token refresh failed: ...")
-        throw new Error(`Token refresh failed (400): ${errorMessage}`);
+      const classification =
+        this.classifyRefreshError?.(response.status, body) ??
+        defaultClassifyRefreshError(response.status, body);
+      if (classification.fatal) {
+        throw new SessionExpiredError(classification.reason, classification.message);
       }
-
-      // 5xx or other — transient
-      throw new Error(`Token refresh failed: ${response.status} ${errorMessage}`);
+      throw new Error(
+        `Token refresh failed: ${response.status} ${classification.message ?? response.statusText}`
+      );
     }
 
     // Session may have been cleared (logout) while the fetch was in-flight.
@@ -1210,13 +2619,28 @@ export class SessionManager {
       throw new SessionExpiredError('token_invalid', 'Session cleared during refresh');
     }
 
-    const refreshResponse = await response.json();
+    const refreshResponse = this.readRefreshResponse(await response.json());
+    if (!refreshResponse?.accessToken) {
+      // A 2xx without tokens is a backend or mapping bug, not a verdict on
+      // the refresh token — retry rather than log the user out.
+      throw new Error('Token refresh response did not contain an access token');
+    }
 
-    this.setTokens({
-      accessToken: refreshResponse.accessToken,
-      refreshToken: refreshResponse.refreshToken || currentRefreshToken,
-      expiresIn: refreshResponse.expiresIn,
-    });
+    try {
+      await this.applyTokens(
+        {
+          ...refreshResponse,
+          refreshToken: refreshResponse.refreshToken || currentRefreshToken,
+        },
+        { sampleClock: true, serverDate: response.headers?.get?.('Date') }
+      );
+    } catch (error) {
+      if (!(error instanceof TokenVerificationError)) throw error;
+      // An unreachable key endpoint is transient; a token that fails the
+      // check is not going to get better by retrying.
+      if (error.reason === 'key_unavailable') throw new Error(error.message);
+      throw new SessionExpiredError('token_invalid', error.message);
+    }
   }
 
   // --- Session expiry handler ---
@@ -1226,14 +2650,20 @@ export class SessionManager {
     // expiration to consumers — even if a concurrent refresh races and reaches
     // here while clearSession('logout') is in flight.
     const wasLogout = this.logoutInFlight;
+    const sessionDurationMs = this.getSessionDurationMs();
+    const impersonation = this.readImpersonation(this.tokenStorage.get());
 
     this.lastExpiryReason = error.message;
     this.cancelProactiveTimer();
+    this.cancelIdleTimer();
+    this.cancelLifetimeTimer();
+    this.idleWarningActive = false;
     // clearTokens removes the entire storage entry (tokens + user data).
     // We do NOT call clearSession() here because that would double-emit
     // and double-notify; we only want the storage clear + queue rejection.
     this.sessionGeneration++;
     this.clearTokens();
+    this.coordinator?.post({ type: 'cleared' });
     const expiredError = new SessionExpiredError('token_invalid', 'Session cleared');
     this.rejectQueue(expiredError);
 
@@ -1242,6 +2672,18 @@ export class SessionManager {
 
     if (wasLogout) return;
 
+    this.emitImpersonationStop(impersonation, 'expired');
+    // No event for paths that merely found no session (e.g. getValidAccessToken
+    // with empty storage) — nothing expired.
+    if (sessionDurationMs !== undefined) {
+      this.events.emit('expired', {
+        timestamp: Date.now(),
+        reason: error.reason,
+        error,
+        sessionDurationMs,
+      });
+    }
+
     if (this.onSessionExpired) {
       this.onSessionExpired(error);
     } else if (this.onRefreshFailed) {
@@ -1270,6 +2712,126 @@ export class SessionManager {
     this.notify();
   }
 
+  // --- Impersonation ---
+
+  /** The impersonation in progress, or null. */
+  getImpersonation(): ImpersonationInfo | null {
+    const stored = this.readImpersonation(this.tokenStorage.get());
+    if (!stored) return null;
+    const { impersonatorId, targetUserId, startedAt } = stored;
+    return { impersonatorId, targetUserId, startedAt };
+  }
+
+  isImpersonating(): boolean {
+    return this.readImpersonation(this.tokenStorage.get()) !== null;
+  }
+
+  /** The impersonator's parked tokens while impersonating, else null. */
+  getImpersonatorTokens(): TokenData | null {
+    return this.readImpersonation(this.tokenStorage.get())?.tokens ?? null;
+  }
+
+  /**
+   * Park the current session and switch to `tokens`, issued by the API for
+   * acting as `targetUserId`. The parked session (tokens + cached user) stays
+   * in the same storage entry, so it survives reloads and is shared with
+   * other tabs; stopImpersonation() brings it back. The impersonated session
+   * gets its own sessionStartedAt for idle and lifetime limits.
+   *
+   * Logging out or expiring while impersonating ends both sessions.
+   */
+  async startImpersonation(
+    tokens: TokenData,
+    options: { targetUserId: string; user?: unknown }
+  ): Promise<void> {
+    const current = this.tokenStorage.get() || {};
+    if (!current.accessToken) {
+      throw new Error('[SessionManager] Cannot impersonate without a session');
+    }
+    if (this.readImpersonation(current)) {
+      throw new Error('[SessionManager] Already impersonating; call stopImpersonation() first');
+    }
+
+    const startedAt = Date.now();
+    let impersonation: StoredImpersonation | null = null;
+    await this.applyTokens(
+      { ...tokens, sessionStartedAt: startedAt },
+      {
+        sampleClock: true,
+        // Built at commit time so a refresh that rotated the superuser's
+        // tokens during signature verification is what gets parked.
+        baseData: data => {
+          const currentData = data as TokenData & { user?: { id?: string } | null };
+          impersonation = {
+            impersonatorId:
+              extractJwtClaim(currentData.accessToken, 'userId') ?? currentData.user?.id ?? null,
+            targetUserId: options.targetUserId,
+            startedAt,
+            tokens: {
+              accessToken: currentData.accessToken,
+              refreshToken: currentData.refreshToken,
+              expiresAt: currentData.expiresAt,
+              tokenType: currentData.tokenType,
+              sessionStartedAt: currentData.sessionStartedAt,
+              authenticatedAt: currentData.authenticatedAt,
+            },
+            user: currentData.user ?? null,
+          };
+          return options.user ? { impersonation, user: options.user } : { impersonation };
+        },
+      }
+    );
+
+    const started = impersonation as StoredImpersonation | null;
+    if (!started) return;
+    this.events.emit('impersonation:start', {
+      timestamp: Date.now(),
+      impersonatorId: started.impersonatorId,
+      targetUserId: started.targetUserId,
+    });
+  }
+
+  /**
+   * End the impersonation and restore the parked session. Its access token
+   * may have expired meanwhile — follow up with ensureValidSession() to
+   * refresh it. Throws when not impersonating.
+   */
+  stopImpersonation(): void {
+    const stored = this.readImpersonation(this.tokenStorage.get());
+    if (!stored) {
+      throw new Error('[SessionManager] Not impersonating');
+    }
+    this.commitTokens(stored.tokens, {
+      baseData: () => (stored.user ? { user: stored.user } : {}),
+    });
+    this.emitImpersonationStop(stored, 'user');
+  }
+
+  private readImpersonation(data: unknown): StoredImpersonation | null {
+    const stored = (data as { impersonation?: StoredImpersonation } | null)?.impersonation;
+    if (
+      typeof stored?.tokens?.accessToken !== 'string' ||
+      typeof stored.targetUserId !== 'string'
+    ) {
+      return null;
+    }
+    return stored;
+  }
+
+  private emitImpersonationStop(
+    stored: StoredImpersonation | null,
+    reason: 'user' | 'logout' | 'expired'
+  ): void {
+    if (!stored) return;
+    this.events.emit('impersonation:stop', {
+      timestamp: Date.now(),
+      impersonatorId: stored.impersonatorId,
+      targetUserId: stored.targetUserId,
+      reason,
+      durationMs: Date.now() - stored.startedAt,
+    });
+  }
+
   // --- Session lifecycle ---
 
   /**
@@ -1277,26 +2839,57 @@ export class SessionManager {
    *
    * @param reason - 'logout' for intentional sign-out (suppresses any
    *   onSessionExpired callbacks fired by in-flight refreshes that race the
-   *   logout); 'expired' for fatal-error paths. Defaults to 'expired' for
-   *   backward compatibility.
+   *   logout); 'expired' for fatal-error paths; 'idle_timeout' when the idle
+   *   timer ends the session (fires onSessionExpired with that reason).
+   *   Defaults to 'expired' for backward compatibility.
    */
-  clearSession(reason: 'logout' | 'expired' = 'expired'): void {
+  clearSession(reason: 'logout' | 'expired' | 'idle_timeout' = 'expired'): void {
     const wasLogout = reason === 'logout';
     if (wasLogout) this.logoutInFlight = true;
+    const idleError = reason === 'idle_timeout' ? new SessionExpiredError('idle_timeout') : null;
+    const sessionDurationMs = this.getSessionDurationMs();
+    const impersonation = this.readImpersonation(this.tokenStorage.get());
 
     this.sessionGeneration++;
     this.cancelProactiveTimer();
+    this.cancelIdleTimer();
+    this.cancelLifetimeTimer();
+    this.idleWarningActive = false;
     // clearTokens removes the entire storage entry (tokens + user data)
     this.clearTokens();
+    this.coordinator?.post({ type: 'cleared' });
 
     // Reject any pending queue entries
-    const expiredError = new SessionExpiredError('token_invalid', 'Session cleared');
+    const expiredError = idleError ?? new SessionExpiredError('token_invalid', 'Session cleared');
     this.rejectQueue(expiredError);
 
+    if (idleError) this.lastExpiryReason = idleError.message;
     this.transitionTo(wasLogout ? 'idle' : 'expired');
     this.notify();
 
     if (wasLogout) this.logoutInFlight = false;
+
+    this.emitImpersonationStop(impersonation, wasLogout ? 'logout' : 'expired');
+    if (sessionDurationMs !== undefined) {
+      if (wasLogout) {
+        this.events.emit('logout', { timestamp: Date.now(), reason: 'user', sessionDurationMs });
+      } else {
+        this.events.emit('expired', {
+          timestamp: Date.now(),
+          reason: expiredError.reason,
+          error: expiredError,
+          sessionDurationMs,
+        });
+      }
+    }
+
+    if (idleError) {
+      if (this.onSessionExpired) {
+        this.onSessionExpired(idleError);
+      } else if (this.onRefreshFailed) {
+        this.onRefreshFailed();
+      }
+    }
   }
 
   /**
@@ -1308,10 +2901,19 @@ export class SessionManager {
     // Remove from singleton registry
     sessionRegistry.delete(this.storageKey);
     this.cancelProactiveTimer();
+    this.cancelIdleTimer();
+    this.cancelLifetimeTimer();
+    this.idleTracker?.stop();
+    this.idleTracker = null;
     this.detachVisibilityListener();
     this.detachStorageListener();
+    this.coordinator?.stop();
+    this.coordinator = null;
     this.listeners.clear();
+    this.events.clear();
+    this.tokenVerifier.clear();
     const error = new SessionExpiredError('token_invalid', 'SessionManager destroyed');
+    this.settleLeaderRefresh(error);
     this.rejectQueue(error);
   }
 
@@ -1336,7 +2938,25 @@ export class SessionManager {
     return user?.id || null;
   }
 
+  /**
+   * This device's id: the `deviceId` claim of the refresh token, else of the
+   * access token. Null for opaque tokens without one.
+   */
+  getDeviceId(): string | null {
+    const tokens = this.getTokens();
+    if (!tokens) return null;
+    return (
+      (tokens.refreshToken && extractJwtClaim(tokens.refreshToken, 'deviceId')) ||
+      extractJwtClaim(tokens.accessToken, 'deviceId') ||
+      null
+    );
+  }
+
   hasValidSession(): boolean {
+    if (this.bff) {
+      const session = this.getBffSession();
+      return session !== null && (!session.expiresAt || this.serverNow() < session.expiresAt);
+    }
     const tokens = this.getTokens();
     return tokens !== null && !this.isTokenExpired(tokens);
   }
@@ -0,0 +1,43 @@
+import type {
+  ActiveSession,
+  Paginated,
+  RenameSessionRequest,
+  RevokeOtherSessionsRequest,
+} from '../types/api';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
+
+/**
+ * The current user's signed-in devices. Each session is keyed by the
+ * `deviceId` claim its refresh token carries; revoking one invalidates that
+ * refresh token, so the device is signed out at its next refresh.
+ */
+export class SessionsApiService {
+  constructor(
+    private httpService: HttpService,
+    private basePath = '/auth/sessions'
+  ) {}
+
+  async getSessions(options?: ApiCallOptions): Promise<Paginated<ActiveSession>> {
+    return this.httpService.getPaginated<ActiveSession>(this.basePath, options);
+  }
+
+  async renameSession(
+    deviceId: string,
+    request: RenameSessionRequest,
+    options?: ApiCallOptions
+  ): Promise<ActiveSession> {
+    const response = await this.httpService.put(`${this.basePath}/${deviceId}`, request, options);
+    return unwrapData<ActiveSession>(response);
+  }
+
+  async revokeSession(deviceId: string, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.delete<void>(`${this.basePath}/${deviceId}`, options);
+  }
+
+  async revokeOtherSessions(
+    request: RevokeOtherSessionsRequest,
+    options?: ApiCallOptions
+  ): Promise<void> {
+    await this.httpService.post<void>(`${this.basePath}/revoke-others`, request, options);
+  }
+}
@@ -4,57 +4,77 @@ import type {
   Subscription,
   TenantSubscriptionFeatures,
 } from '../types/api';
-import type { HttpService } from './HttpService';
+import type { ApiCallOptions, HttpService } from './HttpService';
 
 export class SubscriptionApiService {
   constructor(private httpService: HttpService) {}
 
-  async createSubscription(request: CreateSubscriptionRequest): Promise<Subscription> {
+  async createSubscription(
+    request: CreateSubscriptionRequest,
+    options?: ApiCallOptions
+  ): Promise<Subscription> {
     const response = await this.httpService.post<ApiResponse<Subscription>>(
       '/subscriptions/',
-      request
+      request,
+      options
     );
     return response.data;
   }
 
-  async getSubscriptionById(id: string): Promise<Subscription> {
+  async getSubscriptionById(id: string, options?: ApiCallOptions): Promise<Subscription> {
     const response = await this.httpService.get<ApiResponse<Subscription>>(
-      `/subscriptions/subscriptions/${id}`
+      `/subscriptions/subscriptions/${id}`,
+      options
     );
     return response.data;
   }
 
   async updateSubscription(
     id: string,
-    request: Partial<CreateSubscriptionRequest>
+    request: Partial<CreateSubscriptionRequest>,
+    options?: ApiCallOptions
   ): Promise<Subscription> {
     const response = await this.httpService.put<ApiResponse<Subscription>>(
       `/subscriptions/${id}`,
-      request
+      request,
+      options
     );
     return response.data;
   }
 
-  async changeSubscriptionPlan(subscriptionId: string, planId: string): Promise<Subscription> {
+  async changeSubscriptionPlan(
+    subscriptionId: string,
+    planId: string,
+    options?: ApiCallOptions
+  ): Promise<Subscription> {
     const response = await this.httpService.put<ApiResponse<Subscription>>(
       `/subscriptions/${subscriptionId}/plan`,
-      { planId }
+      { planId },
+      options
     );
     return response.data;
   }
 
-  async getTenantSubscriptionFeatures(tenantId: string): Promise<TenantSubscriptionFeatures> {
+  async getTenantSubscriptionFeatures(
+    tenantId: string,
+    options?: ApiCallOptions
+  ): Promise<TenantSubscriptionFeatures> {
     const response = await this.httpService.get<ApiResponse<TenantSubscriptionFeatures>>(
       `/subscriptions/tenants/${tenantId}/subscription-features`,
-      { skipAuth: true }
+      { ...options, skipAuth: true }
     );
     return response.data;
   }
 
-  async processPayment(subscriptionId: string, paymentData: any): Promise<any> {
+  async processPayment(
+    subscriptionId: string,
+    paymentData: any,
+    options?: ApiCallOptions
+  ): Promise<any> {
     const response = await this.httpService.post<ApiResponse<any>>(
       `/subscriptions/${subscriptionId}/process-payment`,
-      paymentData
+      paymentData,
+      options
     );
     return response.data;
   }
@@ -1,51 +1,48 @@
 import type {
-  ApiResponse,
   CreateSubscriptionPlanRequest,
   PaginationParams,
   SubscriptionPlan,
+  SubscriptionPlanPage,
 } from '../types/api';
-import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class SubscriptionPlanApiService {
   constructor(private httpService: HttpService) {}
 
-  async createSubscriptionPlan(request: CreateSubscriptionPlanRequest): Promise<SubscriptionPlan> {
-    const response = await this.httpService.post<ApiResponse<SubscriptionPlan>>(
-      '/subscription-plans/',
-      request
-    );
-    return response.data;
+  async createSubscriptionPlan(
+    request: CreateSubscriptionPlanRequest,
+    options?: ApiCallOptions
+  ): Promise<SubscriptionPlan> {
+    const response = await this.httpService.post('/subscription-plans/', request, options);
+    return unwrapData<SubscriptionPlan>(response);
   }
 
   async getSubscriptionPlans(
-    params?: PaginationParams & { appId?: string }
-  ): Promise<{ plans: SubscriptionPlan[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<SubscriptionPlan[]>>(
-      `/subscription-plans/${buildPaginationQuery(params)}`
-    );
-    return { plans: response.data, meta: response.meta };
+    params?: PaginationParams & { appId?: string },
+    options?: ApiCallOptions
+  ): Promise<SubscriptionPlanPage> {
+    const page = await this.httpService.getPaginated<SubscriptionPlan>('/subscription-plans/', {
+      ...options,
+      query: params,
+    });
+    return { ...page, plans: page.items };
   }
 
-  async getSubscriptionPlanById(id: string): Promise<SubscriptionPlan> {
-    const response = await this.httpService.get<ApiResponse<SubscriptionPlan>>(
-      `/subscription-plans/${id}`
-    );
-    return response.data;
+  async getSubscriptionPlanById(id: string, options?: ApiCallOptions): Promise<SubscriptionPlan> {
+    const response = await this.httpService.get(`/subscription-plans/${id}`, options);
+    return unwrapData<SubscriptionPlan>(response);
   }
 
   async updateSubscriptionPlan(
     id: string,
-    request: Partial<CreateSubscriptionPlanRequest>
+    request: Partial<CreateSubscriptionPlanRequest>,
+    options?: ApiCallOptions
   ): Promise<SubscriptionPlan> {
-    const response = await this.httpService.put<ApiResponse<SubscriptionPlan>>(
-      `/subscription-plans/${id}`,
-      request
-    );
-    return response.data;
+    const response = await this.httpService.put(`/subscription-plans/${id}`, request, options);
+    return unwrapData<SubscriptionPlan>(response);
   }
 
-  async deleteSubscriptionPlan(id: string): Promise<void> {
-    await this.httpService.delete<void>(`/subscription-plans/${id}`);
+  async deleteSubscriptionPlan(id: string, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.delete<void>(`/subscription-plans/${id}`, options);
   }
 }
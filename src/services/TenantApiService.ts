@@ -1,14 +1,13 @@
 import type {
-  ApiResponse,
   CreateTenantRequest,
   PaginationParams,
   PublicTenantInfo,
   Tenant,
+  TenantPage,
   TenantSettings,
   UpdateTenantSettingsRequest,
 } from '../types/api';
-import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class TenantApiService {
   constructor(
@@ -16,60 +15,64 @@ export class TenantApiService {
     private appId?: string
   ) {}
 
-  async createTenant(request: CreateTenantRequest): Promise<Tenant> {
-    const response = await this.httpService.post<ApiResponse<Tenant>>('/tenants/', request);
-    return response.data;
+  async createTenant(request: CreateTenantRequest, options?: ApiCallOptions): Promise<Tenant> {
+    const response = await this.httpService.post('/tenants/', request, options);
+    return unwrapData<Tenant>(response);
   }
 
-  async getTenants(params?: PaginationParams): Promise<{ tenants: Tenant[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<Tenant[]>>(
-      `/tenants/${buildPaginationQuery(params)}`
-    );
-    return { tenants: response.data, meta: response.meta };
+  async getTenants(params?: PaginationParams, options?: ApiCallOptions): Promise<TenantPage> {
+    const page = await this.httpService.getPaginated<Tenant>('/tenants/', {
+      ...options,
+      query: params,
+    });
+    return { ...page, tenants: page.items };
   }
 
-  async getTenantById(id: string): Promise<Tenant> {
-    const response = await this.httpService.get<ApiResponse<Tenant>>(`/tenants/${id}`);
-    return response.data;
+  async getTenantById(id: string, options?: ApiCallOptions): Promise<Tenant> {
+    const response = await this.httpService.get(`/tenants/${id}`, options);
+    return unwrapData<Tenant>(response);
   }
 
-  async updateTenant(id: string, request: Partial<CreateTenantRequest>): Promise<Tenant> {
-    const response = await this.httpService.put<ApiResponse<Tenant>>(`/tenants/${id}`, request);
-    return response.data;
+  async updateTenant(
+    id: string,
+    request: Partial<CreateTenantRequest>,
+    options?: ApiCallOptions
+  ): Promise<Tenant> {
+    const response = await this.httpService.put(`/tenants/${id}`, request, options);
+    return unwrapData<Tenant>(response);
   }
 
-  async adminUpdateTenant(id: string, request: Partial<CreateTenantRequest>): Promise<Tenant> {
-    const response = await this.httpService.put<ApiResponse<Tenant>>(
-      `/tenants/${id}/admin-update`,
-      request
-    );
-    return response.data;
+  async adminUpdateTenant(
+    id: string,
+    request: Partial<CreateTenantRequest>,
+    options?: ApiCallOptions
+  ): Promise<Tenant> {
+    const response = await this.httpService.put(`/tenants/${id}/admin-update`, request, options);
+    return unwrapData<Tenant>(response);
   }
 
-  async getPublicTenantInfo(slug: string): Promise<PublicTenantInfo> {
-    const response = await this.httpService.get<ApiResponse<PublicTenantInfo>>(
-      `/tenants/${this.appId}/${slug}/public`,
-      { skipAuth: true }
-    );
-    return response.data;
+  async getPublicTenantInfo(slug: string, options?: ApiCallOptions): Promise<PublicTenantInfo> {
+    const response = await this.httpService.get(`/tenants/${this.appId}/${slug}/public`, {
+      ...options,
+      skipAuth: true,
+    });
+    return unwrapData<PublicTenantInfo>(response);
   }
 
-  async getTenantSettings(id: string): Promise<TenantSettings> {
-    const response = await this.httpService.get<ApiResponse<TenantSettings>>(
-      `/tenants/${id}/settings`,
-      { skipAuth: true }
-    );
-    return response.data;
+  async getTenantSettings(id: string, options?: ApiCallOptions): Promise<TenantSettings> {
+    const response = await this.httpService.get(`/tenants/${id}/settings`, {
+      ...options,
+      skipAuth: true,
+    });
+    return unwrapData<TenantSettings>(response);
   }
 
   async updateTenantSettings(
     id: string,
-    request: UpdateTenantSettingsRequest
+    request: UpdateTenantSettingsRequest,
+    options?: ApiCallOptions
   ): Promise<TenantSettings> {
-    const response = await this.httpService.put<ApiResponse<TenantSettings>>(
-      `/tenants/${id}/settings`,
-      request
-    );
-    return response.data;
+    const response = await this.httpService.put(`/tenants/${id}/settings`, request, options);
+    return unwrapData<TenantSettings>(response);
   }
 }
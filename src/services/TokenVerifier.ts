@@ -0,0 +1,190 @@
+import { TokenVerificationError } from '../errors/SessionErrors';
+import { base64UrlToBytes, decodeJwt } from '../utils/jwt';
+
+/** JWS algorithms the verifier understands. */
+export type TokenSignatureAlgorithm = 'RS256' | 'ES256';
+
+const IMPORT_PARAMS: Record<TokenSignatureAlgorithm, RsaHashedImportParams | EcKeyImportParams> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+};
+
+const VERIFY_PARAMS: Record<TokenSignatureAlgorithm, AlgorithmIdentifier | EcdsaParams> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5' },
+  ES256: { name: 'ECDSA', hash: 'SHA-256' },
+};
+
+interface CachedKey {
+  key: CryptoKey;
+  fetchedAt: number;
+}
+
+/**
+ * Shape of `data` in the `/apps/{id}/public-key` and `/auth/system/public-key`
+ * responses. `publicKey` is a PEM-encoded SPKI key or a JSON JWK.
+ */
+interface PublicKeyResponse {
+  publicKey: string;
+  keyAlgorithm: string;
+  keyCreatedAt?: string;
+  keyRotatedAt?: string | null;
+}
+
+function isSupportedAlgorithm(alg: unknown): alg is TokenSignatureAlgorithm {
+  return alg === 'RS256' || alg === 'ES256';
+}
+
+/**
+ * Verifies access-token signatures with WebCrypto against the public key
+ * published by the API.
+ *
+ * Tokens carrying an `appId` claim are checked against
+ * `/apps/{appId}/public-key`; all others (SUPERUSER / system tokens) against
+ * `/auth/system/public-key`. Keys are cached per endpoint for `cacheTtl` ms.
+ * A signature that fails with a cached key triggers exactly one refetch, so
+ * a server-side key rotation does not log everybody out.
+ *
+ * Verification fails closed: if WebCrypto or the key is unavailable the
+ * token is rejected rather than accepted unverified.
+ */
+export class TokenVerifier {
+  private readonly getBaseUrl: () => string;
+  private readonly cacheTtl: number;
+  private cache = new Map<string, CachedKey>();
+  private inFlight = new Map<string, Promise<CryptoKey>>();
+
+  constructor(getBaseUrl: () => string, cacheTtl: number) {
+    this.getBaseUrl = getBaseUrl;
+    this.cacheTtl = cacheTtl;
+  }
+
+  async verify(token: string): Promise<void> {
+    const parts = token.split('.');
+    const decoded = decodeJwt(token);
+    if (!decoded || !parts[2]) throw new TokenVerificationError('malformed');
+
+    const alg = decoded.header.alg;
+    if (!isSupportedAlgorithm(alg)) {
+      throw new TokenVerificationError(
+        'unsupported_algorithm',
+        `Token is signed with unsupported algorithm "${String(alg)}" (expected RS256 or ES256)`
+      );
+    }
+
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+      throw new TokenVerificationError('key_unavailable', 'WebCrypto is not available');
+    }
+
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      signature = base64UrlToBytes(parts[2]);
+    } catch {
+      throw new TokenVerificationError('malformed');
+    }
+    const data = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    const appId = decoded.payload.appId;
+    const url =
+      typeof appId === 'string' && appId
+        ? `${this.getBaseUrl()}/apps/${encodeURIComponent(appId)}/public-key`
+        : `${this.getBaseUrl()}/auth/system/public-key`;
+
+    const check = async (key: CryptoKey) => {
+      try {
+        return await subtle.verify(VERIFY_PARAMS[alg], key, signature, data);
+      } catch {
+        // Key type does not match the header alg.
+        return false;
+      }
+    };
+
+    const wasCached = this.isCached(url, alg);
+    if (await check(await this.getKey(url, alg))) return;
+    if (wasCached) {
+      this.cache.delete(this.cacheKey(url, alg));
+      if (await check(await this.getKey(url, alg))) return;
+    }
+    throw new TokenVerificationError('invalid_signature');
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.inFlight.clear();
+  }
+
+  private cacheKey(url: string, alg: TokenSignatureAlgorithm): string {
+    return `${alg} ${url}`;
+  }
+
+  private isCached(url: string, alg: TokenSignatureAlgorithm): boolean {
+    const entry = this.cache.get(this.cacheKey(url, alg));
+    return !!entry && Date.now() - entry.fetchedAt < this.cacheTtl;
+  }
+
+  private getKey(url: string, alg: TokenSignatureAlgorithm): Promise<CryptoKey> {
+    const cacheKey = this.cacheKey(url, alg);
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtl) {
+      return Promise.resolve(cached.key);
+    }
+
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) return pending;
+
+    const request = this.fetchKey(url, alg)
+      .then(key => {
+        this.cache.set(cacheKey, { key, fetchedAt: Date.now() });
+        return key;
+      })
+      .finally(() => {
+        this.inFlight.delete(cacheKey);
+      });
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  private async fetchKey(url: string, alg: TokenSignatureAlgorithm): Promise<CryptoKey> {
+    let body: PublicKeyResponse | undefined;
+    try {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = (await response.json())?.data;
+    } catch (error) {
+      throw new TokenVerificationError(
+        'key_unavailable',
+        `Failed to fetch public key from ${url}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!body || typeof body.publicKey !== 'string') {
+      throw new TokenVerificationError('key_unavailable', `No public key returned by ${url}`);
+    }
+    if (isSupportedAlgorithm(body.keyAlgorithm) && body.keyAlgorithm !== alg) {
+      throw new TokenVerificationError(
+        'unsupported_algorithm',
+        `Token is signed with ${alg} but the published key is ${body.keyAlgorithm}`
+      );
+    }
+
+    try {
+      return await importPublicKey(body.publicKey, alg);
+    } catch {
+      throw new TokenVerificationError('key_unavailable', `Public key from ${url} is unusable`);
+    }
+  }
+}
+
+function importPublicKey(publicKey: string, alg: TokenSignatureAlgorithm): Promise<CryptoKey> {
+  const trimmed = publicKey.trim();
+  if (trimmed.startsWith('{')) {
+    return crypto.subtle.importKey('jwk', JSON.parse(trimmed), IMPORT_PARAMS[alg], false, [
+      'verify',
+    ]);
+  }
+  const der = base64UrlToBytes(
+    trimmed.replace(/-----(BEGIN|END) [^-]+-----/g, '').replace(/\s/g, '')
+  );
+  return crypto.subtle.importKey('spki', der, IMPORT_PARAMS[alg], false, ['verify']);
+}
@@ -1,33 +1,37 @@
-import type { ApiResponse, CreateUserRequest, PaginationParams, User } from '../types/api';
-import { buildPaginationQuery } from '../utils/query';
-import type { HttpService } from './HttpService';
+import type { CreateUserRequest, PaginationParams, User, UserPage } from '../types/api';
+import { type ApiCallOptions, type HttpService, unwrapData } from './HttpService';
 
 export class UserApiService {
   constructor(private httpService: HttpService) {}
 
-  async createUser(request: CreateUserRequest): Promise<User> {
-    const response = await this.httpService.post<ApiResponse<User>>('/users/', request);
-    return response.data;
+  async createUser(request: CreateUserRequest, options?: ApiCallOptions): Promise<User> {
+    const response = await this.httpService.post('/users/', request, options);
+    return unwrapData<User>(response);
   }
 
-  async getUsers(params?: PaginationParams): Promise<{ users: User[]; meta: any }> {
-    const response = await this.httpService.get<ApiResponse<User[]>>(
-      `/users/${buildPaginationQuery(params)}`
-    );
-    return { users: response.data, meta: response.meta };
+  async getUsers(params?: PaginationParams, options?: ApiCallOptions): Promise<UserPage> {
+    const page = await this.httpService.getPaginated<User>('/users/', {
+      ...options,
+      query: params,
+    });
+    return { ...page, users: page.items };
   }
 
-  async getUserById(id: string): Promise<User> {
-    const response = await this.httpService.get<ApiResponse<User>>(`/users/${id}`);
-    return response.data;
+  async getUserById(id: string, options?: ApiCallOptions): Promise<User> {
+    const response = await this.httpService.get(`/users/${id}`, options);
+    return unwrapData<User>(response);
   }
 
-  async updateUser(id: string, request: Partial<CreateUserRequest>): Promise<User> {
-    const response = await this.httpService.put<ApiResponse<User>>(`/users/${id}`, request);
-    return response.data;
+  async updateUser(
+    id: string,
+    request: Partial<CreateUserRequest>,
+    options?: ApiCallOptions
+  ): Promise<User> {
+    const response = await this.httpService.put(`/users/${id}`, request, options);
+    return unwrapData<User>(response);
   }
 
-  async deleteUser(id: string): Promise<void> {
-    await this.httpService.delete<void>(`/users/${id}`);
+  async deleteUser(id: string, options?: ApiCallOptions): Promise<void> {
+    await this.httpService.delete<void>(`/users/${id}`, options);
   }
 }
@@ -0,0 +1,226 @@
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActiveSessionsList } from '../components/ActiveSessionsList';
+import { type UseActiveSessionsReturn, useActiveSessions } from '../hooks/useActiveSessions';
+import { type AuthContextValue, AuthProvider, useAuth } from '../providers/AuthProvider';
+import { SessionManager } from '../services/SessionManager';
+import type { ActiveSession } from '../types/api';
+
+const BASE_URL = 'https://api.example.com';
+
+const USER = {
+  id: 'u-1',
+  name: 'Ana',
+  email: 'ana@example.com',
+  userType: 'USER',
+  isActive: true,
+  tenantId: null,
+  roleId: null,
+};
+
+function makeJwt(claims: Record<string, unknown>): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId: 'u-1', tenantId: null, ...claims }));
+  return `${header}.${payload}.sig`;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Server Error',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+const SESSIONS: ActiveSession[] = [
+  {
+    deviceId: 'dev-phone',
+    userAgent: 'Safari on iPhone',
+    location: 'Lisbon',
+    createdAt: '2026-01-01T00:00:00Z',
+    lastActiveAt: '2026-01-02T00:00:00Z',
+  },
+  {
+    deviceId: 'dev-laptop',
+    deviceName: 'Work laptop',
+    userAgent: 'Chrome on macOS',
+    createdAt: '2026-01-01T00:00:00Z',
+  },
+  { deviceId: 'dev-tablet', createdAt: '2026-01-01T00:00:00Z' },
+];
+
+let auth: AuthContextValue;
+let hook: UseActiveSessionsReturn;
+
+function Probe() {
+  auth = useAuth();
+  return <span data-testid="status">{auth.sessionStatus}</span>;
+}
+
+function HookProbe() {
+  hook = useActiveSessions();
+  return null;
+}
+
+describe('Active sessions', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let sessions: ActiveSession[];
+
+  function renderProvider(children: React.ReactNode) {
+    return render(
+      <AuthProvider config={{ baseUrl: BASE_URL, initialRoles: [] }}>
+        <Probe />
+        {children}
+      </AuthProvider>
+    );
+  }
+
+  async function login() {
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await act(async () => {
+      await auth.login({ username: 'ana@example.com', password: 'secret' });
+    });
+  }
+
+  function callsTo(method: string, path: string) {
+    return fetchMock.mock.calls.filter(
+      ([url, init]) => String(url) === `${BASE_URL}${path}` && (init?.method ?? 'GET') === method
+    );
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessions = SESSIONS.map(session => ({ ...session }));
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      const method = init?.method ?? 'GET';
+      if (url.endsWith('/auth/login')) {
+        return jsonResponse({
+          accessToken: makeJwt({}),
+          refreshToken: makeJwt({ deviceId: 'dev-laptop' }),
+          expiresIn: 3600,
+          user: USER,
+        });
+      }
+      if (url.endsWith('/auth/sessions') && method === 'GET') {
+        return jsonResponse({ success: true, data: sessions });
+      }
+      if (url.endsWith('/auth/sessions/revoke-others')) {
+        sessions = sessions.filter(s => s.deviceId === 'dev-laptop');
+        return jsonResponse({ success: true });
+      }
+      const deviceMatch = url.match(/\/auth\/sessions\/([\w-]+)$/);
+      if (deviceMatch && method === 'PUT') {
+        const { deviceName } = JSON.parse(String(init?.body));
+        return jsonResponse({
+          success: true,
+          data: { ...sessions.find(s => s.deviceId === deviceMatch[1]), deviceName },
+        });
+      }
+      if (deviceMatch && method === 'DELETE') return jsonResponse({ success: true });
+      if (url.endsWith('/users/u-1')) return jsonResponse({ success: true, data: USER });
+      return jsonResponse({ success: true, data: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('exposes the deviceId claim of the refresh token', async () => {
+    renderProvider(null);
+    await login();
+
+    expect(auth.sessionManager.getDeviceId()).toBe('dev-laptop');
+  });
+
+  it('loads once authenticated and puts the current device first', async () => {
+    renderProvider(<HookProbe />);
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    expect(callsTo('GET', '/auth/sessions')).toHaveLength(0);
+
+    await login();
+
+    await waitFor(() => expect(hook.sessions).toHaveLength(3));
+    expect(hook.currentDeviceId).toBe('dev-laptop');
+    expect(hook.sessions.map(s => [s.deviceId, s.isCurrent])).toEqual([
+      ['dev-laptop', true],
+      ['dev-phone', false],
+      ['dev-tablet', false],
+    ]);
+  });
+
+  it('renames and revokes devices', async () => {
+    renderProvider(<HookProbe />);
+    await login();
+    await waitFor(() => expect(hook.sessions).toHaveLength(3));
+
+    await act(async () => {
+      await hook.renameSession('dev-phone', 'My phone');
+    });
+    expect(JSON.parse(String(callsTo('PUT', '/auth/sessions/dev-phone')[0][1].body))).toEqual({
+      deviceName: 'My phone',
+    });
+    expect(hook.sessions.find(s => s.deviceId === 'dev-phone')?.deviceName).toBe('My phone');
+
+    await act(async () => {
+      await hook.revokeSession('dev-phone');
+    });
+    expect(callsTo('DELETE', '/auth/sessions/dev-phone')).toHaveLength(1);
+    expect(hook.sessions.map(s => s.deviceId)).toEqual(['dev-laptop', 'dev-tablet']);
+  });
+
+  it('revoking the current device logs out', async () => {
+    renderProvider(<HookProbe />);
+    await login();
+    await waitFor(() => expect(hook.sessions).toHaveLength(3));
+
+    await act(async () => {
+      await hook.revokeSession('dev-laptop');
+    });
+
+    expect(screen.getByTestId('status').textContent).toBe('unauthenticated');
+    expect(callsTo('DELETE', '/auth/sessions/dev-laptop')).toHaveLength(0);
+    expect(callsTo('POST', '/auth/logout')).toHaveLength(1);
+  });
+
+  it('ActiveSessionsList marks this device and signs out the others', async () => {
+    const onRevoke = vi.fn();
+    renderProvider(<ActiveSessionsList onRevoke={onRevoke} formatTime={() => 'yesterday'} />);
+    await login();
+
+    const items = await screen.findAllByRole('listitem');
+    expect(items).toHaveLength(3);
+    expect(items[0].getAttribute('aria-current')).toBe('true');
+    expect(items[0].textContent).toContain('Work laptop · This device');
+    expect(within(items[0]).queryByRole('button')).toBeNull();
+    expect(items[1].textContent).toContain('Lisbon · Last active yesterday');
+    expect(items[2].textContent).toContain('Unknown device');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign out all other devices' }));
+
+    await waitFor(() => expect(onRevoke).toHaveBeenCalledWith(['dev-phone', 'dev-tablet']));
+    expect(JSON.parse(String(callsTo('POST', '/auth/sessions/revoke-others')[0][1].body))).toEqual({
+      currentDeviceId: 'dev-laptop',
+    });
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.queryByRole('button', { name: 'Sign out all other devices' })).toBeNull();
+  });
+
+  it('ActiveSessionsList signs out a single device', async () => {
+    renderProvider(<ActiveSessionsList />);
+    await login();
+    await screen.findAllByRole('listitem');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign out Safari on iPhone' }));
+
+    await waitFor(() => expect(screen.getAllByRole('listitem')).toHaveLength(2));
+    expect(callsTo('DELETE', '/auth/sessions/dev-phone')).toHaveLength(1);
+  });
+});
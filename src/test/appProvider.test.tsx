@@ -1,6 +1,7 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { AppProvider, useApp } from '../providers/AppProvider';
+import type { HttpInterceptor, HttpService } from '../services/HttpService';
 
 function Probe() {
   const { appId, baseUrl, appInfo, isAppLoading, appError } = useApp();
@@ -103,4 +104,35 @@ describe('AppProvider', () => {
       expect(calledUrls.some(url => url.includes('/apps/app-1/public'))).toBe(true);
     });
   });
+
+  describe('interceptors', () => {
+    it('attaches them to its own and to created HttpServices', async () => {
+      const created: { service?: HttpService } = {};
+      function Creator() {
+        const { createHttpService } = useApp();
+        created.service ??= createHttpService();
+        return null;
+      }
+      const interceptors: HttpInterceptor[] = [
+        {
+          onRequest: request => {
+            request.headers['X-Trace-Id'] = 'trace-1';
+          },
+        },
+      ];
+      render(
+        <AppProvider config={{ baseUrl: 'https://api.example.com', appId: 'app-1', interceptors }}>
+          <Creator />
+        </AppProvider>
+      );
+
+      await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      expect(fetchMock.mock.calls[0][1].headers['X-Trace-Id']).toBe('trace-1');
+
+      await created.service?.get('/users');
+      const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+      expect(url).toBe('https://api.example.com/users');
+      expect(init.headers['X-Trace-Id']).toBe('trace-1');
+    });
+  });
 });
@@ -0,0 +1,361 @@
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError, SessionExpiredError } from '../errors/SessionErrors';
+import {
+  type AuthConfig,
+  type AuthContextValue,
+  AuthProvider,
+  useAuth,
+} from '../providers/AuthProvider';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://app.example.com/bff';
+
+const USER = {
+  id: 'u-1',
+  name: 'Ana',
+  email: 'ana@example.com',
+  userType: 'USER',
+  isActive: true,
+  tenantId: null,
+  roleId: null,
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Unauthorized',
+    headers: { get: (name: string) => (name === 'content-type' ? 'application/json' : null) },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+let auth: AuthContextValue;
+
+function Probe() {
+  auth = useAuth();
+  return <span data-testid="status">{auth.sessionStatus}</span>;
+}
+
+describe('BFF mode', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let serverSession: { authenticated: boolean; user?: typeof USER; expiresAt?: string } | null;
+
+  function renderProvider(config: Partial<AuthConfig> = {}) {
+    return render(
+      <AuthProvider config={{ baseUrl: BASE_URL, initialRoles: [], bff: true, ...config }}>
+        <Probe />
+      </AuthProvider>
+    );
+  }
+
+  function callsTo(path: string): [string, RequestInit][] {
+    return fetchMock.mock.calls.filter(([url]) => String(url) === `${BASE_URL}${path}`) as [
+      string,
+      RequestInit,
+    ][];
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    document.cookie = 'XSRF-TOKEN=csrf-1; path=/';
+    serverSession = null;
+    fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.endsWith('/session')) {
+        return serverSession ? jsonResponse(serverSession) : jsonResponse({}, 401);
+      }
+      if (url.endsWith('/auth/login')) {
+        serverSession = { authenticated: true, user: USER, expiresAt: '2099-01-01T00:00:00Z' };
+        return jsonResponse({ user: USER });
+      }
+      if (url.endsWith('/auth/logout')) {
+        serverSession = null;
+        return jsonResponse({ success: true });
+      }
+      if (url.endsWith('/users/u-1')) {
+        return serverSession ? jsonResponse({ success: true, data: USER }) : jsonResponse({}, 401);
+      }
+      return jsonResponse({ success: true, data: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+    document.cookie = 'XSRF-TOKEN=; path=/; max-age=0';
+  });
+
+  it('restores the session from /session without any token', async () => {
+    serverSession = { authenticated: true, user: USER, expiresAt: '2099-01-01T00:00:00Z' };
+    renderProvider();
+
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('authenticated'));
+
+    const [[, init]] = callsTo('/session');
+    expect(init.credentials).toBe('include');
+    expect(auth.currentUser?.id).toBe('u-1');
+    expect(auth.sessionManager.getTokens()).toBeNull();
+    expect(auth.sessionManager.getSessionStartedAt()).not.toBeNull();
+    expect(localStorage.getItem('auth_tokens')).not.toMatch(/accessToken|refreshToken/);
+  });
+
+  it('treats a 401 from /session as signed out', async () => {
+    renderProvider();
+
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    expect(auth.isAuthenticated).toBe(false);
+  });
+
+  it('logs in through the proxy with the cookie and CSRF header', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+
+    await act(async () => {
+      await auth.login({ username: 'ana@example.com', password: 'secret' });
+    });
+
+    expect(screen.getByTestId('status').textContent).toBe('authenticated');
+    const [[, init]] = callsTo('/auth/login');
+    const headers = init.headers as Record<string, string>;
+    expect(init.credentials).toBe('include');
+    expect(headers['X-XSRF-TOKEN']).toBe('csrf-1');
+    expect(headers.Authorization).toBeUndefined();
+    expect(callsTo('/session')).toHaveLength(2);
+    expect(localStorage.getItem('auth_tokens')).not.toMatch(/accessToken|refreshToken/);
+  });
+
+  it('sends no CSRF header on safe methods', async () => {
+    serverSession = { authenticated: true, user: USER };
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('authenticated'));
+
+    await act(async () => {
+      await auth.refreshUser();
+    });
+
+    const [[, init]] = callsTo('/users/u-1');
+    expect(init.credentials).toBe('include');
+    expect((init.headers as Record<string, string>)['X-XSRF-TOKEN']).toBeUndefined();
+  });
+
+  it('expires the session when the proxy answers 401 and /session agrees', async () => {
+    const onSessionExpired = vi.fn();
+    serverSession = { authenticated: true, user: USER };
+    renderProvider({ onSessionExpired });
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('authenticated'));
+
+    serverSession = null;
+    let error: unknown;
+    await act(async () => {
+      error = await auth.authenticatedHttpService.get('/users/u-1').catch(e => e);
+    });
+
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(onSessionExpired).toHaveBeenCalled();
+    expect(screen.getByTestId('status').textContent).toBe('expired');
+  });
+
+  it('logs out with a credentialed, CSRF-protected request', async () => {
+    serverSession = { authenticated: true, user: USER };
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('authenticated'));
+
+    act(() => auth.logout());
+
+    expect(screen.getByTestId('status').textContent).toBe('unauthenticated');
+    const [[, init]] = callsTo('/auth/logout');
+    expect(init.credentials).toBe('include');
+    expect((init.headers as Record<string, string>)['X-XSRF-TOKEN']).toBe('csrf-1');
+  });
+
+  it('asks for the password again on a stale BFF login and then continues', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await act(async () => {
+      await auth.login({ username: 'ana@example.com', password: 'secret' });
+    });
+    const stored = JSON.parse(localStorage.getItem('auth_tokens') ?? '{}');
+    stored.bffSession.authenticatedAt = Date.now() - 10 * 60_000;
+    localStorage.setItem('auth_tokens', JSON.stringify(stored));
+
+    let settled = false;
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = auth.requireRecentAuth(5 * 60_000).then(() => {
+        settled = true;
+      });
+    });
+    await waitFor(() => expect(auth.reauthRequest).toEqual({ maxAgeMs: 5 * 60_000 }));
+    expect(settled).toBe(false);
+
+    await act(async () => {
+      await auth.reauthenticate({ password: 'secret' });
+      await pending;
+    });
+    expect(settled).toBe(true);
+    expect(auth.sessionManager.isRecentAuth(60_000)).toBe(true);
+  });
+
+  it('rejects a BFF re-authentication that signed in someone else', async () => {
+    serverSession = { authenticated: true, user: USER, expiresAt: '2099-01-01T00:00:00Z' };
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('authenticated'));
+
+    // A proxy that answers the login with neither token nor user.
+    fetchMock.mockImplementationOnce(async () => {
+      serverSession = { authenticated: true, user: { ...USER, id: 'u-2' } };
+      return jsonResponse({});
+    });
+    let error: unknown;
+    await act(async () => {
+      error = await auth.reauthenticate({ password: 'secret' }).catch(e => e);
+    });
+    expect((error as Error).message).toContain('different user');
+  });
+
+  it('re-reads /session at the reported expiry', async () => {
+    vi.useFakeTimers();
+    try {
+      serverSession = {
+        authenticated: true,
+        user: USER,
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      };
+      const sm = new SessionManager({ baseUrl: BASE_URL, bff: true });
+      await expect(sm.ensureValidSession()).resolves.toBe('authenticated');
+
+      serverSession = {
+        authenticated: true,
+        user: USER,
+        expiresAt: new Date(Date.now() + 120_000).toISOString(),
+      };
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(callsTo('/session')).toHaveLength(2);
+      expect(sm.hasValidSession()).toBe(true);
+
+      serverSession = null;
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(sm.getState()).toBe('expired');
+      sm.destroy();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('asks /session again after a network error at expiry', async () => {
+    vi.useFakeTimers();
+    try {
+      serverSession = {
+        authenticated: true,
+        user: USER,
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      };
+      const sm = new SessionManager({ baseUrl: BASE_URL, bff: true, retryBackoffBase: 1000 });
+      const onExpired = vi.fn();
+      sm.on('expired', onExpired);
+      await expect(sm.ensureValidSession()).resolves.toBe('authenticated');
+
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      serverSession = {
+        authenticated: true,
+        user: USER,
+        expiresAt: new Date(Date.now() + 120_000).toISOString(),
+      };
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(callsTo('/session')).toHaveLength(2);
+      expect(onExpired).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(callsTo('/session')).toHaveLength(3);
+      expect(sm.hasValidSession()).toBe(true);
+      expect(onExpired).not.toHaveBeenCalled();
+      sm.destroy();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ends the session at expiry when /session fails with an auth error', async () => {
+    vi.useFakeTimers();
+    try {
+      serverSession = {
+        authenticated: true,
+        user: USER,
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      };
+      const sm = new SessionManager({ baseUrl: BASE_URL, bff: true });
+      await expect(sm.ensureValidSession()).resolves.toBe('authenticated');
+
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ type: 'AUTH', message: 'Session revoked' }, 403)
+      );
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(sm.getState()).toBe('expired');
+      expect(callsTo('/session')).toHaveLength(2);
+      sm.destroy();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('counts down the idle timeout and ends the session at the deadline', async () => {
+    vi.useFakeTimers();
+    try {
+      serverSession = { authenticated: true, user: USER, expiresAt: '2099-01-01T00:00:00Z' };
+      const sm = new SessionManager({
+        baseUrl: BASE_URL,
+        bff: true,
+        idleTimeout: 10 * 60_000,
+        idleWarningTime: 60_000,
+      });
+      const onExpired = vi.fn();
+      sm.on('expired', onExpired);
+      await expect(sm.ensureValidSession()).resolves.toBe('authenticated');
+      expect(sm.getIdleStatus()).toMatchObject({ isWarning: false });
+
+      await vi.advanceTimersByTimeAsync(9 * 60_000);
+      expect(sm.getIdleStatus()).toMatchObject({ isWarning: true, remainingMs: 60_000 });
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(sm.getState()).toBe('expired');
+      expect(sm.hasSession()).toBe(false);
+      expect(onExpired.mock.calls[0][0].reason).toBe('idle_timeout');
+      sm.destroy();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not restore a stored session whose idle deadline has passed', async () => {
+    localStorage.setItem(
+      'auth_tokens',
+      JSON.stringify({ bffSession: { sessionStartedAt: Date.now() - 3600_000 } })
+    );
+    localStorage.setItem('auth_tokens:activity', String(Date.now() - 3600_000));
+    serverSession = { authenticated: true, user: USER, expiresAt: '2099-01-01T00:00:00Z' };
+    const sm = new SessionManager({ baseUrl: BASE_URL, bff: true, idleTimeout: 10 * 60_000 });
+
+    await expect(sm.ensureValidSession()).resolves.toBe('expired');
+    expect(callsTo('/session')).toHaveLength(0);
+    expect(sm.hasSession()).toBe(false);
+    sm.destroy();
+  });
+
+  it('has no access token to hand out and rejects dpop', () => {
+    const sm = new SessionManager({ baseUrl: BASE_URL, bff: { sessionPath: '/me/session' } });
+    expect(sm.isBffMode()).toBe(true);
+    return expect(sm.getValidAccessToken())
+      .rejects.toThrow('BFF mode')
+      .then(() => {
+        sm.destroy();
+        expect(() => new SessionManager({ storageKey: 'x', bff: true, dpop: true })).toThrow(
+          ConfigurationError
+        );
+      });
+  });
+});
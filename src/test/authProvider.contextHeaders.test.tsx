@@ -0,0 +1,198 @@
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppProvider } from '../providers/AppProvider';
+import {
+  type AuthConfig,
+  type AuthContextValue,
+  AuthProvider,
+  useAuth,
+} from '../providers/AuthProvider';
+import { TenantProvider, useTenantOptional } from '../providers/TenantProvider';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+
+const USER = {
+  id: 'u-1',
+  name: 'Ana',
+  email: 'ana@example.com',
+  userType: 'USER',
+  isActive: true,
+  tenantId: 't-1',
+  roleId: null,
+};
+
+function makeJwt(tenantId: string): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId: 'u-1', tenantId }));
+  return `${header}.${payload}.sig`;
+}
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+let auth: AuthContextValue;
+
+function Probe() {
+  auth = useAuth();
+  const tenant = useTenantOptional();
+  return (
+    <>
+      <span data-testid="status">{auth.sessionStatus}</span>
+      <span data-testid="tenant">{tenant?.tenant?.id ?? 'none'}</span>
+    </>
+  );
+}
+
+describe('AuthProvider — context headers', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  function renderStandalone(config: Partial<AuthConfig> = {}) {
+    return render(
+      <AuthProvider config={{ baseUrl: BASE_URL, appId: 'app-1', initialRoles: [], ...config }}>
+        <Probe />
+      </AuthProvider>
+    );
+  }
+
+  async function login() {
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await act(async () => {
+      await auth.login({ username: 'ana@example.com', password: 'secret' });
+    });
+  }
+
+  async function headersOfNextRequest(options?: { headers?: Record<string, string> }) {
+    fetchMock.mockClear();
+    await auth.authenticatedHttpService.get('/reports', options);
+    const [[, init]] = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/reports'));
+    return (init as RequestInit).headers as Record<string, string>;
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = String(input);
+      if (url.endsWith('/auth/login')) {
+        return jsonResponse({
+          accessToken: makeJwt('t-1'),
+          refreshToken: 'rt-1',
+          expiresIn: 3600,
+          user: USER,
+        });
+      }
+      if (url.endsWith('/auth/switch-tenant')) {
+        return jsonResponse({
+          accessToken: makeJwt('t-2'),
+          expiresIn: 3600,
+          user: { ...USER, tenantId: 't-2' },
+        });
+      }
+      if (url.endsWith('/apps/app-1/public')) {
+        return jsonResponse({ success: true, data: { id: 'app-1', name: 'App' } });
+      }
+      if (url.endsWith('/tenants/app-1/acme/public')) {
+        return jsonResponse({ success: true, data: { id: 't-1', subdomain: 'acme' } });
+      }
+      if (url.endsWith('/users/u-1')) return jsonResponse({ success: true, data: USER });
+      return jsonResponse({ success: true, data: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    localStorage.clear();
+    window.history.replaceState({}, '', '/');
+  });
+
+  it('sends no context headers unless enabled', async () => {
+    renderStandalone();
+    await login();
+
+    const headers = await headersOfNextRequest();
+
+    expect(headers['X-App-Id']).toBeUndefined();
+    expect(headers['X-Tenant-Id']).toBeUndefined();
+  });
+
+  async function renderWithTenant() {
+    window.history.replaceState({}, '', '/?tenant=acme');
+    render(
+      <AppProvider config={{ baseUrl: BASE_URL, appId: 'app-1' }}>
+        <TenantProvider config={{ tenantMode: 'selector', selectorParam: 'tenant' }}>
+          <AuthProvider config={{ initialRoles: [], contextHeaders: true }}>
+            <Probe />
+          </AuthProvider>
+        </TenantProvider>
+      </AppProvider>
+    );
+    await waitFor(() => expect(screen.getByTestId('tenant').textContent).toBe('t-1'));
+  }
+
+  it('stamps the provider tenant and app, and follows switchToTenant', async () => {
+    await renderWithTenant();
+    await login();
+
+    expect(await headersOfNextRequest()).toMatchObject({
+      'X-Tenant-Id': 't-1',
+      'X-App-Id': 'app-1',
+    });
+
+    await act(async () => {
+      await auth.switchToTenant('t-2');
+    });
+
+    expect(await headersOfNextRequest()).toMatchObject({
+      'X-Tenant-Id': 't-2',
+      'X-App-Id': 'app-1',
+    });
+  });
+
+  it('forgets a switched tenant once that session ends', async () => {
+    await renderWithTenant();
+    await login();
+    await act(async () => {
+      await auth.switchToTenant('t-2');
+    });
+
+    act(() => auth.logout());
+    await login();
+
+    expect((await headersOfNextRequest())['X-Tenant-Id']).toBe('t-1');
+  });
+
+  it('uses custom header names and lets a request override them', async () => {
+    renderStandalone({ contextHeaders: { tenantHeader: false, appHeader: 'X-Application' } });
+    await login();
+    await act(async () => {
+      await auth.switchToTenant('t-2');
+    });
+
+    const headers = await headersOfNextRequest();
+    expect(headers['X-Application']).toBe('app-1');
+    expect(headers['X-Tenant-Id']).toBeUndefined();
+    expect(headers['X-App-Id']).toBeUndefined();
+
+    expect(
+      (await headersOfNextRequest({ headers: { 'X-Application': 'other' } }))['X-Application']
+    ).toBe('other');
+  });
+
+  it('rejects empty header names', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderStandalone({ contextHeaders: { tenantHeader: '' } })).toThrow(
+      'contextHeaders.tenantHeader'
+    );
+  });
+});
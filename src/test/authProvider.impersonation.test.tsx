@@ -0,0 +1,248 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImpersonationBanner } from '../components/ImpersonationBanner';
+import { type AuthContextValue, AuthProvider, useAuth } from '../providers/AuthProvider';
+import type { SessionEvent } from '../services/SessionEvents';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'auth_tokens';
+
+const USERS: Record<string, { id: string; name: string; email: string; userType: string }> = {
+  root: { id: 'u-root', name: 'Root', email: 'root@example.com', userType: 'SUPERUSER' },
+  ana: { id: 'u-ana', name: 'Ana', email: 'ana@example.com', userType: 'USER' },
+};
+
+function makeJwt(userId: string, userType: string): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId, userType, tenantId: null }));
+  return `${header}.${payload}.sig`;
+}
+
+function userFor(key: string) {
+  return { ...USERS[key], isActive: true, tenantId: null, roleId: null };
+}
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+let auth: AuthContextValue;
+
+function Probe() {
+  auth = useAuth();
+  return (
+    <div>
+      <span data-testid="status">{auth.sessionStatus}</span>
+      <span data-testid="user">{auth.currentUser?.id ?? ''}</span>
+      <span data-testid="impersonating">{String(auth.isImpersonating)}</span>
+    </div>
+  );
+}
+
+describe('AuthProvider — impersonation', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let events: SessionEvent[];
+
+  function renderProvider(children = <Probe />) {
+    return render(
+      <AuthProvider
+        config={{
+          baseUrl: BASE_URL,
+          initialRoles: [],
+          impersonationEndpoint: '/admin/impersonate',
+          onSessionEvent: event => events.push(event),
+        }}
+      >
+        {children}
+      </AuthProvider>
+    );
+  }
+
+  async function loginAs(username: string) {
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await act(async () => {
+      await auth.login({ username, password: 'secret' });
+    });
+  }
+
+  function impersonationEvents() {
+    return events.filter(event => event.type.startsWith('impersonation:'));
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    events = [];
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url.endsWith('/auth/login')) {
+        const { username } = JSON.parse(String(init?.body));
+        return jsonResponse({
+          accessToken: makeJwt(USERS[username].id, USERS[username].userType),
+          refreshToken: `rt-${username}`,
+          expiresIn: 3600,
+          user: userFor(username),
+        });
+      }
+      if (url.endsWith('/admin/impersonate')) {
+        return jsonResponse({
+          accessToken: makeJwt('u-ana', 'USER'),
+          refreshToken: 'rt-impersonation',
+          expiresIn: 900,
+          user: userFor('ana'),
+        });
+      }
+      const userMatch = url.match(/\/users\/u-(\w+)$/);
+      if (userMatch) {
+        return jsonResponse({ success: true, data: userFor(userMatch[1]) });
+      }
+      if (url.endsWith('/auth/refresh')) {
+        return jsonResponse({
+          accessToken: makeJwt('u-root', 'SUPERUSER'),
+          refreshToken: 'rt-root-2',
+          expiresIn: 3600,
+        });
+      }
+      return jsonResponse({ success: true, data: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('swaps in the impersonation token and parks the superuser session', async () => {
+    renderProvider();
+    await loginAs('root');
+
+    await act(async () => {
+      await auth.impersonate('u-ana');
+    });
+
+    const [url, init] = fetchMock.mock.calls.find(([u]) => String(u).endsWith('/impersonate'))!;
+    expect(url).toBe(`${BASE_URL}/admin/impersonate`);
+    expect(JSON.parse(String(init.body))).toMatchObject({ userId: 'u-ana' });
+    expect(screen.getByTestId('user').textContent).toBe('u-ana');
+    expect(screen.getByTestId('impersonating').textContent).toBe('true');
+    expect(auth.impersonation).toMatchObject({ impersonatorId: 'u-root', targetUserId: 'u-ana' });
+    expect(auth.sessionManager.getTokens()?.refreshToken).toBe('rt-impersonation');
+    expect(impersonationEvents()).toMatchObject([
+      { type: 'impersonation:start', impersonatorId: 'u-root', targetUserId: 'u-ana' },
+    ]);
+    // Swapping sessions is not a login.
+    expect(events.filter(event => event.type === 'login')).toHaveLength(1);
+  });
+
+  it('stopImpersonating restores the superuser tokens and user', async () => {
+    renderProvider();
+    await loginAs('root');
+    await act(async () => {
+      await auth.impersonate('u-ana');
+    });
+
+    await act(async () => {
+      await auth.stopImpersonating();
+    });
+
+    expect(screen.getByTestId('user').textContent).toBe('u-root');
+    expect(screen.getByTestId('impersonating').textContent).toBe('false');
+    expect(auth.sessionManager.getTokens()?.refreshToken).toBe('rt-root');
+    expect(impersonationEvents()[1]).toMatchObject({
+      type: 'impersonation:stop',
+      impersonatorId: 'u-root',
+      targetUserId: 'u-ana',
+      reason: 'user',
+    });
+  });
+
+  it('refreshes the parked session if it expired while impersonating', async () => {
+    renderProvider();
+    await loginAs('root');
+    await act(async () => {
+      await auth.impersonate('u-ana');
+    });
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    stored.impersonation.tokens.expiresAt = Date.now() - 1000;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+    await act(async () => {
+      await auth.stopImpersonating();
+    });
+
+    expect(fetchMock.mock.calls.some(([u]) => String(u).endsWith('/auth/refresh'))).toBe(true);
+    expect(auth.sessionManager.getTokens()?.refreshToken).toBe('rt-root-2');
+    expect(screen.getByTestId('status').textContent).toBe('authenticated');
+  });
+
+  it('only SUPERUSER sessions can impersonate', async () => {
+    renderProvider();
+    await loginAs('ana');
+
+    await expect(auth.impersonate('u-root')).rejects.toThrow(/SUPERUSER/);
+    expect(fetchMock.mock.calls.some(([u]) => String(u).endsWith('/impersonate'))).toBe(false);
+  });
+
+  it('logout while impersonating ends both sessions', async () => {
+    renderProvider();
+    await loginAs('root');
+    await act(async () => {
+      await auth.impersonate('u-ana');
+    });
+
+    act(() => auth.logout());
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(impersonationEvents()[1]).toMatchObject({
+      type: 'impersonation:stop',
+      reason: 'logout',
+    });
+    await expect(auth.stopImpersonating()).rejects.toThrow(/Not impersonating/);
+  });
+
+  it('survives a reload', async () => {
+    const { unmount } = renderProvider();
+    await loginAs('root');
+    await act(async () => {
+      await auth.impersonate('u-ana');
+    });
+    unmount();
+    SessionManager.resetAllInstances();
+
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('user').textContent).toBe('u-ana'));
+    expect(auth.isImpersonating).toBe(true);
+  });
+
+  it('ImpersonationBanner shows the impersonated user and stops on click', async () => {
+    const onStop = vi.fn();
+    renderProvider(
+      <>
+        <Probe />
+        <ImpersonationBanner onStop={onStop} />
+      </>
+    );
+    await loginAs('root');
+    expect(screen.queryByRole('status')).toBeNull();
+
+    await act(async () => {
+      await auth.impersonate('u-ana');
+    });
+    expect(screen.getByRole('status').textContent).toContain('You are acting as Ana.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop impersonating' }));
+
+    await waitFor(() => expect(onStop).toHaveBeenCalled());
+    expect(screen.getByTestId('user').textContent).toBe('u-root');
+    expect(screen.queryByRole('status')).toBeNull();
+  });
+});
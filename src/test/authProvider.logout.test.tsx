@@ -0,0 +1,222 @@
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AuthConfig,
+  type AuthContextValue,
+  AuthProvider,
+  useAuth,
+} from '../providers/AuthProvider';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'auth_tokens';
+
+const USER = {
+  id: 'u-1',
+  name: 'Ana',
+  email: 'ana@example.com',
+  userType: 'USER',
+  isActive: true,
+  tenantId: null,
+  roleId: null,
+};
+
+function makeJwt(userType = 'USER'): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId: 'u-1', userType, tenantId: null }));
+  return `${header}.${payload}.sig`;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Server Error',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+let auth: AuthContextValue;
+
+function Probe() {
+  auth = useAuth();
+  return <span data-testid="status">{auth.sessionStatus}</span>;
+}
+
+describe('AuthProvider — server-side logout', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let revokeResponse: (url: string, init?: RequestInit) => Promise<Response>;
+  let userType: string;
+
+  function renderProvider(config: Partial<AuthConfig> = {}) {
+    return render(
+      <AuthProvider config={{ baseUrl: BASE_URL, initialRoles: [], ...config }}>
+        <Probe />
+      </AuthProvider>
+    );
+  }
+
+  async function login() {
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await act(async () => {
+      await auth.login({ username: 'ana@example.com', password: 'secret' });
+    });
+  }
+
+  function callsTo(path: string): [string, RequestInit][] {
+    return fetchMock.mock.calls.filter(([url]) => String(url).endsWith(path)) as [
+      string,
+      RequestInit,
+    ][];
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    revokeResponse = async () => jsonResponse({ success: true });
+    userType = 'USER';
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url.endsWith('/auth/login')) {
+        return jsonResponse({
+          accessToken: makeJwt(userType),
+          refreshToken: 'rt-1',
+          expiresIn: 3600,
+          user: { ...USER, userType },
+        });
+      }
+      if (url.endsWith('/auth/impersonate')) {
+        return jsonResponse({
+          accessToken: makeJwt(),
+          refreshToken: 'rt-impersonation',
+          expiresIn: 900,
+          user: { ...USER, id: 'u-2' },
+        });
+      }
+      if (url.includes('/logout')) return revokeResponse(url, init);
+      if (url.endsWith('/users/u-1')) return jsonResponse({ success: true, data: USER });
+      return jsonResponse({ success: true, data: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('revokes the refresh token without waiting for the server', async () => {
+    revokeResponse = () => new Promise(() => {});
+    renderProvider();
+    await login();
+
+    act(() => auth.logout());
+
+    expect(screen.getByTestId('status').textContent).toBe('unauthenticated');
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    const [[url, init]] = callsTo('/auth/logout');
+    expect(url).toBe(`${BASE_URL}/auth/logout`);
+    expect(JSON.parse(String(init.body))).toEqual({ refreshToken: 'rt-1' });
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Bearer ${makeJwt()}`);
+    expect(init.credentials).toBeUndefined();
+  });
+
+  it('gives up on the revoke request after logoutTimeout', async () => {
+    revokeResponse = (_url, init) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () =>
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+        );
+      });
+    renderProvider({ logoutTimeout: 20 });
+    await login();
+
+    act(() => auth.logout());
+
+    const [[, init]] = callsTo('/auth/logout');
+    await waitFor(() => expect(init.signal?.aborted).toBe(true));
+  });
+
+  it('ignores a failed revoke', async () => {
+    revokeResponse = async () => jsonResponse({ message: 'boom' }, 500);
+    renderProvider();
+    await login();
+
+    act(() => auth.logout());
+    await waitFor(() => expect(callsTo('/auth/logout')).toHaveLength(1));
+
+    expect(screen.getByTestId('status').textContent).toBe('unauthenticated');
+  });
+
+  it('revokes the parked superuser session when logging out while impersonating', async () => {
+    userType = 'SUPERUSER';
+    renderProvider();
+    await login();
+    await act(async () => {
+      await auth.impersonate('u-2');
+    });
+
+    act(() => auth.logout());
+
+    const revoked = callsTo('/auth/logout').map(([, init]) => JSON.parse(String(init.body)));
+    expect(revoked).toEqual([{ refreshToken: 'rt-impersonation' }, { refreshToken: 'rt-1' }]);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('uses a custom endpoint, or none with logoutEndpoint: false', async () => {
+    const { unmount } = renderProvider({ logoutEndpoint: '/session/revoke' });
+    await login();
+    act(() => auth.logout());
+    expect(callsTo('/session/revoke')).toHaveLength(1);
+    expect(callsTo('/auth/logout')).toHaveLength(0);
+    unmount();
+    SessionManager.resetAllInstances();
+    fetchMock.mockClear();
+
+    renderProvider({ logoutEndpoint: false });
+    await login();
+    act(() => auth.logout());
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('logout'))).toBe(false);
+  });
+
+  it('sends the revoke with credentials to clear the refresh cookie', async () => {
+    renderProvider({ enableCookieSession: true });
+    await login();
+
+    act(() => auth.logout());
+
+    const [[, init]] = callsTo('/auth/logout');
+    expect(init.credentials).toBe('include');
+  });
+
+  it('logoutEverywhere revokes all sessions before clearing this one', async () => {
+    renderProvider();
+    await login();
+
+    await act(async () => {
+      await auth.logoutEverywhere();
+    });
+
+    const [[, init]] = callsTo('/auth/logout-all');
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Bearer ${makeJwt()}`);
+    expect(callsTo('/auth/logout')).toHaveLength(0);
+    expect(screen.getByTestId('status').textContent).toBe('unauthenticated');
+  });
+
+  it('logoutEverywhere still signs out locally when the server call fails', async () => {
+    revokeResponse = async () => jsonResponse({ message: 'boom' }, 500);
+    renderProvider();
+    await login();
+
+    let error: unknown;
+    await act(async () => {
+      error = await auth.logoutEverywhere().catch(e => e);
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(screen.getByTestId('status').textContent).toBe('unauthenticated');
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
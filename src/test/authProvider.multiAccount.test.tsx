@@ -0,0 +1,222 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountSwitcher } from '../components/AccountSwitcher';
+import { type AuthContextValue, AuthProvider, useAuth } from '../providers/AuthProvider';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'auth_tokens';
+
+const USERS: Record<string, { id: string; name: string; email: string; userType: string }> = {
+  personal: { id: 'u-personal', name: 'Ana', email: 'ana@example.com', userType: 'USER' },
+  admin: { id: 'u-admin', name: 'Ana Admin', email: 'admin@example.com', userType: 'TENANT_ADMIN' },
+};
+
+function makeJwt(userId: string): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId, tenantId: null }));
+  return `${header}.${payload}.sig`;
+}
+
+function userFor(username: string) {
+  return { ...USERS[username], isActive: true, tenantId: null, roleId: null };
+}
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+let auth: AuthContextValue;
+
+function Probe() {
+  auth = useAuth();
+  return (
+    <div>
+      <span data-testid="status">{auth.sessionStatus}</span>
+      <span data-testid="user">{auth.currentUser?.id ?? ''}</span>
+    </div>
+  );
+}
+
+function renderProvider(children = <Probe />) {
+  return render(
+    <AuthProvider config={{ baseUrl: BASE_URL, initialRoles: [], multiAccount: true }}>
+      {children}
+    </AuthProvider>
+  );
+}
+
+async function loginAs(username: string) {
+  await act(async () => {
+    await auth.login({ username, password: 'secret' });
+  });
+  await waitFor(() => expect(auth.accounts.some(a => a.userId === USERS[username].id)).toBe(true));
+}
+
+describe('AuthProvider — multiple accounts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = String(input);
+        if (url.endsWith('/auth/login')) {
+          const { username } = JSON.parse(String(init?.body));
+          return jsonResponse({
+            accessToken: makeJwt(USERS[username].id),
+            refreshToken: `rt-${username}`,
+            expiresIn: 3600,
+            user: userFor(username),
+          });
+        }
+        const userMatch = url.match(/\/users\/(u-\w+)$/);
+        if (userMatch) {
+          const username = Object.keys(USERS).find(key => USERS[key].id === userMatch[1]);
+          return jsonResponse({ success: true, data: userFor(username ?? 'personal') });
+        }
+        return jsonResponse({ success: true, data: [] });
+      })
+    );
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('keeps the first account in the primary slot and lists it', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+
+    expect(auth.activeAccountId).toBe('primary');
+    expect(auth.accounts).toMatchObject([
+      { id: 'primary', storageKey: STORAGE_KEY, userId: 'u-personal', email: 'ana@example.com' },
+    ]);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}').refreshToken).toBe('rt-personal');
+  });
+
+  it('addAccount opens an empty slot; switchAccount restores each session', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+
+    act(() => auth.addAccount());
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    expect(auth.activeAccountId).not.toBe('primary');
+    expect(auth.accounts).toHaveLength(1);
+
+    await loginAs('admin');
+    const adminSlot = auth.activeAccountId as string;
+    expect(auth.accounts.map(a => a.id)).toEqual([adminSlot, 'primary']);
+    expect(
+      JSON.parse(localStorage.getItem(`${STORAGE_KEY}:${adminSlot}`) ?? '{}').refreshToken
+    ).toBe('rt-admin');
+
+    act(() => auth.switchAccount('primary'));
+    await waitFor(() => expect(screen.getByTestId('user').textContent).toBe('u-personal'));
+    expect(screen.getByTestId('status').textContent).toBe('authenticated');
+    expect(auth.sessionManager.getUserId()).toBe('u-personal');
+
+    act(() => auth.switchAccount(adminSlot));
+    await waitFor(() => expect(screen.getByTestId('user').textContent).toBe('u-admin'));
+  });
+
+  it('reopens the last active account after a reload', async () => {
+    const { unmount } = renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+    act(() => auth.addAccount());
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('admin');
+    unmount();
+    SessionManager.resetAllInstances();
+
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('user').textContent).toBe('u-admin'));
+    expect(auth.accounts).toHaveLength(2);
+  });
+
+  it('signOutAccount clears a background slot without touching the active one', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+    act(() => auth.addAccount());
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('admin');
+
+    act(() => auth.signOutAccount('primary'));
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(auth.accounts.map(a => a.userId)).toEqual(['u-admin']);
+    expect(screen.getByTestId('user').textContent).toBe('u-admin');
+  });
+
+  it('logout signs out and forgets only the active account', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+    act(() => auth.addAccount());
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('admin');
+
+    act(() => auth.logout());
+
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    expect(auth.accounts.map(a => a.userId)).toEqual(['u-personal']);
+  });
+
+  it('signing in as an account that is already listed replaces the old slot', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+    act(() => auth.addAccount());
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+
+    await waitFor(() => expect(auth.accounts).toHaveLength(1));
+    expect(auth.accounts[0].id).toBe(auth.activeAccountId);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('account actions throw without multiAccount', async () => {
+    render(
+      <AuthProvider config={{ baseUrl: BASE_URL, initialRoles: [] }}>
+        <Probe />
+      </AuthProvider>
+    );
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+
+    expect(auth.accounts).toEqual([]);
+    expect(auth.activeAccountId).toBeNull();
+    expect(() => auth.addAccount()).toThrow(/multiAccount/);
+  });
+
+  it('AccountSwitcher lists accounts and switches on click', async () => {
+    renderProvider(
+      <>
+        <Probe />
+        <AccountSwitcher />
+      </>
+    );
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('personal');
+    fireEvent.click(screen.getByRole('button', { name: 'Add another account' }));
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await loginAs('admin');
+
+    const current = screen.getByRole('button', { current: true });
+    expect(current.textContent).toContain('Ana Admin');
+
+    fireEvent.click(screen.getByRole('button', { name: /ana@example\.com/ }));
+    await waitFor(() => expect(screen.getByTestId('user').textContent).toBe('u-personal'));
+  });
+});
@@ -0,0 +1,235 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReauthGate } from '../components/ReauthGate';
+import { ReauthenticationRequiredError } from '../errors/SessionErrors';
+import { type AuthContextValue, AuthProvider, useAuth } from '../providers/AuthProvider';
+import type { SessionEvent } from '../services/SessionEvents';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'auth_tokens';
+const MINUTE = 60_000;
+
+const USER = {
+  id: 'u-1',
+  name: 'Ana',
+  email: 'ana@example.com',
+  userType: 'TENANT_ADMIN',
+  isActive: true,
+  tenantId: null,
+  roleId: null,
+};
+
+function makeJwt(claims: Record<string, unknown> = {}): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId: 'u-1', tenantId: null, ...claims }));
+  return `${header}.${payload}.sig`;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Unauthorized',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+/** Pretend the last credential check happened `ageMs` ago. */
+function ageLogin(ageMs: number) {
+  const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  stored.authenticatedAt = Date.now() - ageMs;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+let auth: AuthContextValue;
+
+function Probe() {
+  auth = useAuth();
+  return <span data-testid="status">{auth.sessionStatus}</span>;
+}
+
+describe('AuthProvider — step-up re-authentication', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let loginClaims: Record<string, unknown>;
+  let events: SessionEvent[];
+
+  function renderProvider() {
+    return render(
+      <AuthProvider
+        config={{ baseUrl: BASE_URL, initialRoles: [], onSessionEvent: e => events.push(e) }}
+      >
+        <ReauthGate>
+          <Probe />
+        </ReauthGate>
+      </AuthProvider>
+    );
+  }
+
+  async function login() {
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    await act(async () => {
+      await auth.login({ username: 'ana@example.com', password: 'secret' });
+    });
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    events = [];
+    loginClaims = {};
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url.endsWith('/auth/login')) {
+        const { password } = JSON.parse(String(init?.body));
+        if (password !== 'secret') return jsonResponse({ message: 'Unauthorized' }, 401);
+        return jsonResponse({
+          accessToken: makeJwt(loginClaims),
+          refreshToken: 'rt',
+          expiresIn: 3600,
+          user: USER,
+        });
+      }
+      if (url.endsWith('/users/u-1')) return jsonResponse({ success: true, data: USER });
+      return jsonResponse({ success: true, data: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('resolves immediately after a recent login', async () => {
+    renderProvider();
+    await login();
+
+    await expect(auth.requireRecentAuth(5 * MINUTE)).resolves.toBeUndefined();
+    expect(auth.reauthRequest).toBeNull();
+    expect(screen.queryByRole('alertdialog')).toBeNull();
+  });
+
+  it('prompts for the password on a stale login and then continues', async () => {
+    renderProvider();
+    await login();
+    ageLogin(10 * MINUTE);
+
+    let settled = false;
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = auth.requireRecentAuth(5 * MINUTE).then(() => {
+        settled = true;
+      });
+    });
+    await screen.findByRole('alertdialog');
+    expect(auth.reauthRequest).toEqual({ maxAgeMs: 5 * MINUTE });
+    expect(settled).toBe(false);
+
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'secret' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    await act(async () => {
+      await pending;
+    });
+    expect(settled).toBe(true);
+    expect(screen.queryByRole('alertdialog')).toBeNull();
+    const reauthCall = fetchMock.mock.calls.filter(([u]) => String(u).endsWith('/auth/login'))[1];
+    expect(JSON.parse(String(reauthCall[1].body))).toMatchObject({
+      username: 'ana@example.com',
+      password: 'secret',
+    });
+    expect(auth.sessionManager.isRecentAuth(MINUTE)).toBe(true);
+    expect(events.map(e => e.type)).toContain('reauthenticated');
+    expect(events.filter(e => e.type === 'login')).toHaveLength(1);
+  });
+
+  it('keeps the prompt open after a wrong password', async () => {
+    renderProvider();
+    await login();
+    ageLogin(10 * MINUTE);
+    act(() => {
+      auth.requireRecentAuth(5 * MINUTE).catch(() => {});
+    });
+    await screen.findByRole('alertdialog');
+
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'wrong' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    await screen.findByText('Unauthorized');
+    expect(screen.getByRole('alertdialog')).toBeTruthy();
+  });
+
+  it('rejects the waiting action when the prompt is cancelled', async () => {
+    renderProvider();
+    await login();
+    ageLogin(10 * MINUTE);
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = auth.requireRecentAuth(5 * MINUTE);
+    });
+    await screen.findByRole('alertdialog');
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    const error = await pending.catch(e => e);
+    expect(error).toBeInstanceOf(ReauthenticationRequiredError);
+    expect(error.reason).toBe('cancelled');
+    expect(screen.queryByRole('alertdialog')).toBeNull();
+  });
+
+  it('prefers the auth_time claim over the local login time', async () => {
+    loginClaims = { auth_time: Math.floor((Date.now() - 2 * 60 * MINUTE) / 1000) };
+    renderProvider();
+    await login();
+
+    expect(auth.sessionManager.isRecentAuth(5 * MINUTE)).toBe(false);
+    act(() => {
+      auth.requireRecentAuth(5 * MINUTE).catch(() => {});
+    });
+    await screen.findByRole('alertdialog');
+  });
+
+  it('continues when another tab re-authenticates (magic link)', async () => {
+    renderProvider();
+    await login();
+    ageLogin(10 * MINUTE);
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = auth.requireRecentAuth(5 * MINUTE);
+    });
+    await screen.findByRole('alertdialog');
+
+    await act(async () => {
+      ageLogin(0);
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: STORAGE_KEY,
+          newValue: localStorage.getItem(STORAGE_KEY),
+        })
+      );
+      await pending;
+    });
+    expect(screen.queryByRole('alertdialog')).toBeNull();
+  });
+
+  it('rejects without a session', async () => {
+    renderProvider();
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+
+    await expect(auth.requireRecentAuth(MINUTE)).rejects.toMatchObject({ reason: 'no_session' });
+  });
+
+  it('does not count a bare setTokens as a credential check', () => {
+    const sm = new SessionManager({ storageKey: 'reauth_unit', baseUrl: BASE_URL });
+    sm.setTokens({ accessToken: makeJwt(), refreshToken: 'r', expiresIn: 3600 });
+    expect(sm.getAuthTime()).toBeNull();
+
+    sm.setTokens({ accessToken: makeJwt(), refreshToken: 'r2' }, { method: 'magic_link' });
+    expect(sm.isRecentAuth(MINUTE)).toBe(true);
+    sm.destroy();
+  });
+});
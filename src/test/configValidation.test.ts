@@ -5,6 +5,7 @@ import {
   validateBoolean,
   validateExpiresAt,
   validateExpiresIn,
+  validateFunction,
   validateNumber,
   validateTokenShape,
 } from '../utils/configValidation';
@@ -105,6 +106,18 @@ describe('configValidation', () => {
     });
   });
 
+  describe('validateFunction', () => {
+    it('accepts undefined and functions', () => {
+      expect(() => validateFunction('f', undefined)).not.toThrow();
+      expect(() => validateFunction('f', () => undefined)).not.toThrow();
+    });
+
+    it('rejects non-functions', () => {
+      expect(() => validateFunction('f', 'default')).toThrow(/must be a function/);
+      expect(() => validateFunction('f', {})).toThrow(/must be a function/);
+    });
+  });
+
   describe('validateTokenShape', () => {
     function makeJwt(payload: object = { sub: 'u1' }): string {
       const h = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
@@ -0,0 +1,257 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError } from '../errors/SessionErrors';
+import { HttpService } from '../services/HttpService';
+import { type SessionConfig, SessionManager, type TokenStorage } from '../services/SessionManager';
+import { isCsrfFailure } from '../utils/csrf';
+
+const BASE_URL = 'https://api.example.com';
+
+function createMemoryStorage(): TokenStorage {
+  let data: any = null;
+  return {
+    get: () => data,
+    set: d => {
+      data = d;
+    },
+    clear: () => {
+      data = null;
+    },
+  };
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  lower['content-type'] ??= 'application/json';
+  const response = {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Forbidden',
+    headers: { get: (name: string) => lower[name.toLowerCase()] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+    clone: () => response,
+  };
+  return response as unknown as Response;
+}
+
+const CSRF_REJECTED = {
+  success: false,
+  error: { code: 'CSRF_TOKEN_INVALID', message: 'Bad token' },
+};
+
+function headersOf(fetchMock: ReturnType<typeof vi.fn>, call: number) {
+  return (fetchMock.mock.calls[call][1] as RequestInit).headers as Record<string, string>;
+}
+
+function urlsOf(fetchMock: ReturnType<typeof vi.fn>) {
+  return fetchMock.mock.calls.map(([url]) => String(url));
+}
+
+describe('CSRF protection', () => {
+  beforeEach(() => {
+    document.cookie = 'XSRF-TOKEN=csrf-1; path=/';
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    document.cookie = 'XSRF-TOKEN=; path=/; max-age=0';
+  });
+
+  describe('isCsrfFailure', () => {
+    it('recognises 403s that name a CSRF failure', () => {
+      expect(isCsrfFailure(403, CSRF_REJECTED)).toBe(true);
+      expect(isCsrfFailure(403, { message: 'CSRF token mismatch.' })).toBe(true);
+      expect(isCsrfFailure(403, { error: 'invalid_xsrf_token' })).toBe(true);
+      expect(isCsrfFailure(403, { error: { code: 'FORBIDDEN', type: 'PERMISSION' } })).toBe(false);
+      expect(isCsrfFailure(403, null)).toBe(false);
+      expect(isCsrfFailure(401, CSRF_REJECTED)).toBe(false);
+    });
+  });
+
+  describe('SessionManager refresh', () => {
+    function makeManager(config: SessionConfig = {}) {
+      const storage = createMemoryStorage();
+      storage.set({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 10_000 });
+      return new SessionManager({
+        tokenStorage: storage,
+        autoRefresh: false,
+        baseUrl: BASE_URL,
+        maxRefreshRetries: 0,
+        enableCookieSession: true,
+        csrf: true,
+        ...config,
+      });
+    }
+
+    it('sends the cookie token with credentialed refresh calls', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+        jsonResponse({ accessToken: 'a2', refreshToken: 'r2', expiresIn: 900 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const sm = makeManager();
+
+      await sm.forceRefresh();
+
+      expect(headersOf(fetchMock, 0)['X-XSRF-TOKEN']).toBe('csrf-1');
+      expect(sm.getAccessToken()).toBe('a2');
+      sm.destroy();
+    });
+
+    it('leaves non-credentialed refresh calls alone', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+        jsonResponse({ accessToken: 'a2', expiresIn: 900 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const sm = makeManager({ enableCookieSession: false });
+
+      await sm.forceRefresh();
+
+      expect(headersOf(fetchMock, 0)['X-XSRF-TOKEN']).toBeUndefined();
+      sm.destroy();
+    });
+
+    it('re-fetches the token once on a CSRF rejection and retries', async () => {
+      document.cookie = 'XSRF-TOKEN=; path=/; max-age=0';
+      const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+        if (url.endsWith('/auth/csrf')) return jsonResponse({ csrfToken: 'csrf-2' });
+        return jsonResponse({ accessToken: 'a2', expiresIn: 900 });
+      });
+      fetchMock.mockResolvedValueOnce(jsonResponse(CSRF_REJECTED, 403));
+      vi.stubGlobal('fetch', fetchMock);
+      const sm = makeManager();
+
+      await sm.forceRefresh();
+
+      expect(urlsOf(fetchMock)).toEqual([
+        `${BASE_URL}/auth/refresh`,
+        `${BASE_URL}/auth/csrf`,
+        `${BASE_URL}/auth/refresh`,
+      ]);
+      expect((fetchMock.mock.calls[1][1] as RequestInit).credentials).toBe('include');
+      expect(headersOf(fetchMock, 2)['X-XSRF-TOKEN']).toBe('csrf-2');
+      expect(sm.getAccessToken()).toBe('a2');
+      sm.destroy();
+    });
+  });
+
+  describe('HttpService', () => {
+    function makeService(config: SessionConfig = { csrf: true }) {
+      const storage = createMemoryStorage();
+      storage.set({ accessToken: 'tok', refreshToken: 'r', expiresAt: Date.now() + 3600_000 });
+      const sm = new SessionManager({
+        tokenStorage: storage,
+        autoRefresh: false,
+        baseUrl: BASE_URL,
+        ...config,
+      });
+      const http = new HttpService(BASE_URL);
+      http.setSessionManager(sm);
+      return { http, sm };
+    }
+
+    it('adds the header to credentialed state-changing requests only', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({}));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+
+      await http.post('/auth/logout', {}, { credentials: 'include' });
+      await http.get('/users', { credentials: 'include' });
+      await http.post('/users', {});
+
+      expect(headersOf(fetchMock, 0)['X-XSRF-TOKEN']).toBe('csrf-1');
+      expect(headersOf(fetchMock, 1)['X-XSRF-TOKEN']).toBeUndefined();
+      expect(headersOf(fetchMock, 2)['X-XSRF-TOKEN']).toBeUndefined();
+      sm.destroy();
+    });
+
+    it('adds nothing when csrf is off', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({}));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService({});
+
+      await http.post('/auth/logout', {}, { credentials: 'include' });
+
+      expect(sm.isCsrfEnabled()).toBe(false);
+      expect(headersOf(fetchMock, 0)['X-XSRF-TOKEN']).toBeUndefined();
+      sm.destroy();
+    });
+
+    it('rotates to a token issued in a response header', async () => {
+      document.cookie = 'XSRF-TOKEN=; path=/; max-age=0';
+      const fetchMock = vi
+        .fn(async (_url: string, _init?: RequestInit) => jsonResponse({}))
+        .mockResolvedValueOnce(jsonResponse({}, 200, { 'X-CSRF-Token': 'csrf-a' }))
+        .mockResolvedValueOnce(jsonResponse({}, 200, { 'X-CSRF-Token': 'csrf-b' }));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService({
+        csrf: { headerName: 'X-CSRF-Token', responseHeaderName: 'X-CSRF-Token' },
+      });
+
+      await http.get('/session', { credentials: 'include' });
+      await http.post('/a', {}, { credentials: 'include' });
+      await http.post('/b', {}, { credentials: 'include' });
+
+      expect(headersOf(fetchMock, 1)['X-CSRF-Token']).toBe('csrf-a');
+      expect(headersOf(fetchMock, 2)['X-CSRF-Token']).toBe('csrf-b');
+      sm.destroy();
+    });
+
+    it('re-fetches the token and retries once after a CSRF 403', async () => {
+      const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+        if (url.endsWith('/auth/csrf')) {
+          document.cookie = 'XSRF-TOKEN=csrf-2; path=/';
+          return jsonResponse({});
+        }
+        return jsonResponse({ ok: true });
+      });
+      fetchMock.mockResolvedValueOnce(jsonResponse(CSRF_REJECTED, 403));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+
+      await expect(http.put('/users/u-1', {}, { credentials: 'include' })).resolves.toEqual({
+        ok: true,
+      });
+
+      expect(urlsOf(fetchMock)).toEqual([
+        `${BASE_URL}/users/u-1`,
+        `${BASE_URL}/auth/csrf`,
+        `${BASE_URL}/users/u-1`,
+      ]);
+      expect(headersOf(fetchMock, 2)['X-XSRF-TOKEN']).toBe('csrf-2');
+      sm.destroy();
+    });
+
+    it('gives up after one retry and leaves other 403s alone', async () => {
+      const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+        url.endsWith('/auth/csrf') ? jsonResponse({}) : jsonResponse(CSRF_REJECTED, 403)
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+
+      await expect(http.delete('/users/u-1', { credentials: 'include' })).rejects.toMatchObject({
+        status: 403,
+        code: 'CSRF_TOKEN_INVALID',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      fetchMock.mockClear();
+      fetchMock.mockResolvedValueOnce(jsonResponse({ error: { code: 'FORBIDDEN' } }, 403));
+      await expect(http.delete('/users/u-1', { credentials: 'include' })).rejects.toMatchObject({
+        status: 403,
+        code: 'FORBIDDEN',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      sm.destroy();
+    });
+  });
+
+  it('rejects empty names', () => {
+    expect(() => new SessionManager({ storageKey: 'x', csrf: { fetchPath: '' } })).toThrow(
+      ConfigurationError
+    );
+    expect(() => new SessionManager({ storageKey: 'y', csrf: 'yes' as never })).toThrow(
+      ConfigurationError
+    );
+  });
+});
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DpopProver } from '../services/DpopProver';
+import { HttpService } from '../services/HttpService';
+import { SessionManager, type TokenStorage } from '../services/SessionManager';
+import { base64UrlToBytes, bytesToBase64Url, decodeJwt } from '../utils/jwt';
+
+function createMemoryStorage(): TokenStorage {
+  let data: any = null;
+  return {
+    get: () => data,
+    set: d => {
+      data = d;
+    },
+    clear: () => {
+      data = null;
+    },
+  };
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  lower['content-type'] ??= 'application/json';
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { get: (name: string) => lower[name.toLowerCase()] ?? null },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+async function verifyProof(proof: string) {
+  const decoded = decodeJwt(proof);
+  if (!decoded) throw new Error('not a JWT');
+  const [header, payload, signature] = proof.split('.');
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    decoded.header.jwk as JsonWebKey,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    base64UrlToBytes(signature),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  return { ...decoded, valid };
+}
+
+async function tokenHash(token: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return bytesToBase64Url(new Uint8Array(digest));
+}
+
+function headersOf(fetchMock: ReturnType<typeof vi.fn>, call: number) {
+  return (fetchMock.mock.calls[call][1] as RequestInit).headers as Record<string, string>;
+}
+
+describe('DPoP', () => {
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+  });
+
+  describe('DpopProver', () => {
+    it('signs an ES256 proof for the request with the public key embedded', async () => {
+      const prover = new DpopProver('test');
+      const proof = await prover.createProof(
+        'get',
+        'https://api.example.com/users?page=2#top',
+        'tok'
+      );
+
+      const { header, payload, valid } = await verifyProof(proof);
+      expect(valid).toBe(true);
+      expect(header).toMatchObject({ typ: 'dpop+jwt', alg: 'ES256' });
+      expect(Object.keys(header.jwk as object).sort()).toEqual(['crv', 'kty', 'x', 'y']);
+      expect(payload).toMatchObject({
+        htm: 'GET',
+        htu: 'https://api.example.com/users',
+        ath: await tokenHash('tok'),
+      });
+      expect(typeof payload.jti).toBe('string');
+      expect(Math.abs((payload.iat as number) - Date.now() / 1000)).toBeLessThan(2);
+    });
+
+    it('reuses one key and a fresh jti per proof', async () => {
+      const prover = new DpopProver('test');
+      const a = decodeJwt(await prover.createProof('POST', 'https://api.example.com/auth/login'));
+      const b = decodeJwt(await prover.createProof('POST', 'https://api.example.com/auth/login'));
+      expect(a?.header.jwk).toEqual(b?.header.jwk);
+      expect(a?.payload.jti).not.toBe(b?.payload.jti);
+      expect(a?.payload).not.toHaveProperty('ath');
+    });
+
+    it('asks for a retry only when a failed response brings a new nonce', async () => {
+      const prover = new DpopProver('test');
+      expect(prover.acceptNonce(jsonResponse({}, 200, { 'DPoP-Nonce': 'n1' }))).toBe(false);
+      expect(prover.acceptNonce(jsonResponse({}, 401, { 'DPoP-Nonce': 'n1' }))).toBe(false);
+      expect(prover.acceptNonce(jsonResponse({}, 400, { 'DPoP-Nonce': 'n2' }))).toBe(true);
+      const proof = decodeJwt(await prover.createProof('GET', 'https://api.example.com/x'));
+      expect(proof?.payload.nonce).toBe('n2');
+    });
+  });
+
+  describe('SessionManager', () => {
+    function makeManager() {
+      const storage = createMemoryStorage();
+      storage.set({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 10_000 });
+      return new SessionManager({
+        tokenStorage: storage,
+        autoRefresh: false,
+        baseUrl: 'https://api.example.com',
+        maxRefreshRetries: 0,
+        dpop: true,
+      });
+    }
+
+    it('sends a proof with the refresh request', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+        jsonResponse({ accessToken: 'a2', refreshToken: 'r2', expiresIn: 900 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const sm = makeManager();
+
+      await sm.forceRefresh();
+
+      const { payload, valid } = await verifyProof(headersOf(fetchMock, 0).DPoP);
+      expect(valid).toBe(true);
+      expect(payload).toMatchObject({ htm: 'POST', htu: 'https://api.example.com/auth/refresh' });
+      expect(payload).not.toHaveProperty('ath');
+      expect(sm.getAccessToken()).toBe('a2');
+      sm.destroy();
+    });
+
+    it('retries the refresh once with the nonce the server asks for', async () => {
+      const fetchMock = vi
+        .fn(async (_url: string, _init?: RequestInit) =>
+          jsonResponse({ accessToken: 'a2', expiresIn: 900 })
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({ error: 'use_dpop_nonce' }, 400, { 'DPoP-Nonce': 'server-nonce' })
+        );
+      vi.stubGlobal('fetch', fetchMock);
+      const sm = makeManager();
+
+      await sm.forceRefresh();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(decodeJwt(headersOf(fetchMock, 1).DPoP)?.payload.nonce).toBe('server-nonce');
+      expect(sm.getAccessToken()).toBe('a2');
+      sm.destroy();
+    });
+
+    it('uses the DPoP scheme in getAuthHeaders', async () => {
+      const sm = makeManager();
+      expect(sm.isDpopEnabled()).toBe(true);
+      await expect(sm.getAuthHeaders()).resolves.toEqual({ Authorization: 'DPoP a' });
+      sm.destroy();
+    });
+  });
+
+  describe('HttpService', () => {
+    function makeService() {
+      const storage = createMemoryStorage();
+      storage.set({ accessToken: 'tok', refreshToken: 'r', expiresAt: Date.now() + 3600_000 });
+      const sm = new SessionManager({
+        tokenStorage: storage,
+        autoRefresh: false,
+        baseUrl: 'https://api.example.com',
+        dpop: true,
+      });
+      const http = new HttpService('https://api.example.com');
+      http.setSessionManager(sm);
+      return { http, sm };
+    }
+
+    it('sends Authorization: DPoP with a proof bound to the method, URL and token', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({}));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+
+      await http.put('/users/u-1?notify=1', { name: 'Ana' });
+
+      const headers = headersOf(fetchMock, 0);
+      expect(headers.Authorization).toBe('DPoP tok');
+      const { payload, valid } = await verifyProof(headers.DPoP);
+      expect(valid).toBe(true);
+      expect(payload).toMatchObject({
+        htm: 'PUT',
+        htu: 'https://api.example.com/users/u-1',
+        ath: await tokenHash('tok'),
+      });
+      sm.destroy();
+    });
+
+    it('sends a proof without a token on unauthenticated calls such as login', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({}));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+
+      await http.post('/auth/login', { username: 'ana', password: 'x' }, { skipAuth: true });
+
+      const headers = headersOf(fetchMock, 0);
+      expect(headers.Authorization).toBeUndefined();
+      const { payload } = await verifyProof(headers.DPoP);
+      expect(payload).toMatchObject({ htm: 'POST', htu: 'https://api.example.com/auth/login' });
+      expect(payload).not.toHaveProperty('ath');
+      sm.destroy();
+    });
+
+    it('binds an explicit authToken without asking SessionManager', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({}));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+
+      await http.post('/auth/logout', {}, { skipAuth: true, authToken: 'other' });
+
+      const headers = headersOf(fetchMock, 0);
+      expect(headers.Authorization).toBe('DPoP other');
+      expect(decodeJwt(headers.DPoP)?.payload.ath).toBe(await tokenHash('other'));
+      sm.destroy();
+    });
+
+    it('retries once with a fresh proof when the server sends a new nonce', async () => {
+      const fetchMock = vi
+        .fn(async (_url: string, _init?: RequestInit) => jsonResponse({ ok: true }))
+        .mockResolvedValueOnce(
+          jsonResponse({ error: 'use_dpop_nonce' }, 401, { 'DPoP-Nonce': 'n-1' })
+        );
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+      const forceRefresh = vi.spyOn(sm, 'forceRefresh');
+
+      await expect(http.get('/users')).resolves.toEqual({ ok: true });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(forceRefresh).not.toHaveBeenCalled();
+      expect(decodeJwt(headersOf(fetchMock, 1).DPoP)?.payload.nonce).toBe('n-1');
+      sm.destroy();
+    });
+
+    it('still refreshes on a 401 that follows a nonce retry', async () => {
+      const fetchMock = vi
+        .fn(async (_url: string, _init?: RequestInit) => jsonResponse({ ok: true }))
+        .mockResolvedValueOnce(
+          jsonResponse({ error: 'use_dpop_nonce' }, 401, { 'DPoP-Nonce': 'n-1' })
+        )
+        .mockResolvedValueOnce(jsonResponse({ error: 'invalid_token' }, 401));
+      vi.stubGlobal('fetch', fetchMock);
+      const { http, sm } = makeService();
+      const forceRefresh = vi.spyOn(sm, 'forceRefresh').mockResolvedValue('fresh');
+
+      await expect(http.get('/users')).resolves.toEqual({ ok: true });
+
+      expect(forceRefresh).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      sm.destroy();
+    });
+  });
+});
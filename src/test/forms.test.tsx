@@ -164,6 +164,50 @@ describe('Auth form components', () => {
     });
   });
 
+  it('shows server validation messages under the matching fields', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        headers: { get: () => 'application/json' },
+        json: async () => ({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            type: 'VALIDATION',
+            message: 'Check the highlighted fields',
+            details: [{ field: 'email', message: 'Not a registered address' }],
+          },
+        }),
+      })
+    );
+    const onError = vi.fn();
+    render(
+      <Harness>
+        <LoginForm onError={onError} />
+      </Harness>
+    );
+
+    const usernameInput = document.querySelector('input[name="username"]') as HTMLInputElement;
+    fireEvent.change(usernameInput, { target: { value: 'nobody@example.com' } });
+    fireEvent.change(document.querySelector('input[name="password"]') as HTMLInputElement, {
+      target: { value: 'secret' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /sign in/i }));
+
+    expect(await screen.findByText('Not a registered address')).toBeInTheDocument();
+    expect(screen.getByText('Check the highlighted fields')).toBeInTheDocument();
+    expect(onError).toHaveBeenCalledWith(
+      'Check the highlighted fields',
+      expect.objectContaining({ status: 422 })
+    );
+
+    fireEvent.change(usernameInput, { target: { value: 'ana@example.com' } });
+    expect(screen.queryByText('Not a registered address')).not.toBeInTheDocument();
+  });
+
   // ─── SignupForm ───
   describe('SignupForm', () => {
     it('renders with default user signup mode', () => {
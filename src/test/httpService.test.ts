@@ -1,11 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { HttpService } from '../services/HttpService';
+import {
+  HttpError,
+  isAuthError,
+  isHttpError,
+  isValidationError,
+  RequestAbortedError,
+} from '../errors/HttpError';
+import { ConfigurationError } from '../errors/SessionErrors';
+import { type HttpInterceptor, HttpService } from '../services/HttpService';
 import type { SessionManager } from '../services/SessionManager';
+import { UserApiService } from '../services/UserApiService';
 
 // Minimal SessionManager stub exposing only what HttpService calls.
 function createSessionManagerStub(token = 'access-token'): SessionManager {
   const stub = {
     getValidAccessToken: vi.fn().mockResolvedValue(token),
+    isDpopEnabled: () => false,
+    isBffMode: () => false,
+    isCsrfEnabled: () => false,
+    acceptCsrfResponse: () => {},
   } as unknown as SessionManager;
   return stub;
 }
@@ -119,6 +132,10 @@ describe('HttpService', () => {
       const http = new HttpService('https://api.example.com');
       const sm = {
         getValidAccessToken: vi.fn().mockRejectedValue(new Error('SessionExpired')),
+        isDpopEnabled: () => false,
+        isBffMode: () => false,
+        isCsrfEnabled: () => false,
+        acceptCsrfResponse: () => {},
       } as unknown as SessionManager;
       http.setSessionManager(sm);
 
@@ -224,6 +241,69 @@ describe('HttpService', () => {
 
       await expect(http.get('/missing')).rejects.toThrow('HTTP 404');
     });
+
+    it('throws an HttpError carrying the ApiError code, type and field details', async () => {
+      mockFetchOnce({
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        body: {
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            type: 'VALIDATION',
+            message: 'Invalid signup',
+            details: [
+              { field: 'email', message: 'Email is taken', code: 'TAKEN' },
+              { field: 'email', message: 'Second email message' },
+              { path: ['profile', 'name'], message: 'Required' },
+            ],
+          },
+        },
+      });
+      const http = new HttpService('https://api.example.com');
+
+      const error = (await http.post('/auth/signup', {}).catch(e => e)) as HttpError;
+
+      expect(isHttpError(error)).toBe(true);
+      expect(isValidationError(error)).toBe(true);
+      expect(isAuthError(error)).toBe(false);
+      expect(error).toMatchObject({
+        message: 'HTTP 422: Unprocessable Entity',
+        serverMessage: 'Invalid signup',
+        status: 422,
+        code: 'VALIDATION_FAILED',
+        type: 'VALIDATION',
+      });
+      expect(error.details[0]).toEqual({
+        field: 'email',
+        message: 'Email is taken',
+        code: 'TAKEN',
+      });
+      expect(error.getFieldErrors()).toEqual({
+        email: 'Email is taken',
+        'profile.name': 'Required',
+      });
+    });
+
+    it('reads field maps and plain-string errors from other backends', async () => {
+      mockFetchOnce({
+        status: 400,
+        statusText: 'Bad Request',
+        body: { error: 'Bad input', errors: { password: ['Too short', 'No digits'] } },
+      });
+      const http = new HttpService('https://api.example.com');
+
+      const error = (await http.post('/auth/reset', {}).catch(e => e)) as HttpError;
+
+      expect(error.message).toBe('HTTP 400: Bad Request');
+      expect(error.serverMessage).toBe('Bad input');
+      expect(error.getFieldErrors()).toEqual({ password: 'Too short' });
+      expect(isValidationError(error)).toBe(true);
+      expect(isAuthError(new HttpError({ status: 401, statusText: '' } as Response, null))).toBe(
+        true
+      );
+      expect(isHttpError(new Error('x'))).toBe(false);
+    });
   });
 
   describe('timeout handling', () => {
@@ -248,6 +328,577 @@ describe('HttpService', () => {
     });
   });
 
+  describe('interceptors', () => {
+    it('runs onRequest global first and lets it change headers', async () => {
+      const fetchMock = mockFetchOnce({ body: {} });
+      const order: string[] = [];
+      const removeGlobal = HttpService.addGlobalInterceptor({
+        onRequest: request => {
+          order.push('global');
+          return { ...request, headers: { ...request.headers, 'X-Trace-Id': 't-1' } };
+        },
+      });
+      const http = new HttpService('https://api.example.com');
+      http.setSessionManager(createSessionManagerStub());
+      http.addInterceptor({
+        onRequest: async request => {
+          order.push('instance');
+          request.headers.Authorization = `Custom ${request.headers['X-Trace-Id']}`;
+        },
+      });
+
+      try {
+        await http.post('/x', { a: 1 });
+      } finally {
+        removeGlobal();
+      }
+
+      expect(order).toEqual(['global', 'instance']);
+      const headers = fetchMock.mock.calls[0][1].headers;
+      expect(headers['X-Trace-Id']).toBe('t-1');
+      expect(headers.Authorization).toBe('Custom t-1');
+    });
+
+    it('runs onResponse innermost first and returns its data', async () => {
+      mockFetchOnce({ body: { value: 1 } });
+      const removeGlobal = HttpService.addGlobalInterceptor({
+        onResponse: response => ({ ...response, data: { wrapped: response.data } }),
+      });
+      const http = new HttpService('https://api.example.com');
+      http.addInterceptor({
+        onResponse: response => {
+          expect(response.request.url).toBe('https://api.example.com/x');
+          expect(response.response.status).toBe(200);
+          return { ...response, data: { ...(response.data as object), seen: true } };
+        },
+      });
+
+      try {
+        await expect(http.get('/x')).resolves.toEqual({ wrapped: { value: 1, seen: true } });
+      } finally {
+        removeGlobal();
+      }
+    });
+
+    it('lets onError recover, replace or pass on the error', async () => {
+      mockFetchOnce({ status: 500, statusText: 'Server Error' });
+      const http = new HttpService('https://api.example.com');
+      const seen: unknown[] = [];
+      const interceptor: HttpInterceptor = {
+        onError: (error, request) => {
+          seen.push(error);
+          expect(request.method).toBe('GET');
+          return undefined;
+        },
+      };
+      const remove = http.addInterceptor(interceptor);
+      await expect(http.get('/x')).rejects.toThrow('HTTP 500: Server Error');
+      expect(seen).toHaveLength(1);
+
+      http.addInterceptor({
+        onError: () => {
+          throw new Error('replaced');
+        },
+      });
+      await expect(http.get('/x')).rejects.toThrow('replaced');
+      expect((seen[1] as Error).message).toBe('replaced');
+
+      remove();
+      http.addInterceptor({ onError: () => ({ fallback: true }) });
+      await expect(http.get('/x')).resolves.toEqual({ fallback: true });
+    });
+
+    it('stops applying an interceptor once removed', async () => {
+      const fetchMock = mockFetchOnce({ body: {} });
+      const http = new HttpService('https://api.example.com');
+      const onRequest = vi.fn();
+      const remove = http.addInterceptor({ onRequest });
+
+      await http.get('/x');
+      remove();
+      await http.get('/x');
+
+      expect(onRequest).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retry policy', () => {
+    function response(status: number, headers: Record<string, string> = {}) {
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: status === 200 ? 'OK' : 'Unavailable',
+        headers: {
+          get: (name: string) =>
+            name.toLowerCase() === 'content-type'
+              ? 'application/json'
+              : (headers[name.toLowerCase()] ?? null),
+        },
+        json: async () => (status === 200 ? { ok: true } : {}),
+      } as unknown as Response;
+    }
+
+    function stubFetch(...responses: (Response | Error)[]) {
+      const fetchMock = vi.fn();
+      for (const next of responses) {
+        if (next instanceof Error) fetchMock.mockRejectedValueOnce(next);
+        else fetchMock.mockResolvedValueOnce(next);
+      }
+      globalThis.fetch = fetchMock as typeof fetch;
+      return fetchMock;
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('does not retry TypeErrors thrown before the request is sent', async () => {
+      const fetchMock = stubFetch(response(200));
+      const http = new HttpService('https://api.example.com');
+      http.setRetryPolicy({});
+      http.addInterceptor({
+        onRequest: () => {
+          throw new TypeError('interceptor bug');
+        },
+      });
+
+      await expect(http.get('/x')).rejects.toThrow('interceptor bug');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('does not retry without a policy', async () => {
+      const fetchMock = stubFetch(response(503));
+      const http = new HttpService('https://api.example.com');
+
+      await expect(http.get('/x')).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries idempotent requests with jittered exponential backoff and reports each retry', async () => {
+      const fetchMock = stubFetch(response(502), new TypeError('Failed to fetch'), response(200));
+      const sm = {
+        ...createSessionManagerStub(),
+        reportRequestRetry: vi.fn(),
+      } as unknown as SessionManager;
+      const http = new HttpService('https://api.example.com');
+      http.setSessionManager(sm);
+      http.setRetryPolicy({ baseDelay: 100 });
+      const onRetry = vi.fn();
+      http.addInterceptor({ onRetry });
+
+      const result = http.get('/x');
+      await vi.advanceTimersByTimeAsync(49);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(100);
+
+      await expect(result).resolves.toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls.map(([retry]) => [retry.attempt, retry.delay])).toEqual([
+        [2, 50],
+        [3, 100],
+      ]);
+      expect(onRetry.mock.calls[0][0].request.url).toBe('https://api.example.com/x');
+      expect((sm.reportRequestRetry as ReturnType<typeof vi.fn>).mock.calls[0][0]).toMatchObject({
+        method: 'GET',
+        attempt: 2,
+        delayMs: 50,
+        status: 502,
+      });
+      expect((sm.reportRequestRetry as ReturnType<typeof vi.fn>).mock.calls[1][0].status).toBe(
+        null
+      );
+    });
+
+    it('gives up after maxAttempts and leaves POST and final statuses alone', async () => {
+      const http = new HttpService('https://api.example.com');
+      http.setRetryPolicy({ maxAttempts: 2, baseDelay: 10 });
+
+      let fetchMock = stubFetch(response(500), response(500));
+      const failing = expect(http.get('/x')).rejects.toMatchObject({ status: 500 });
+      await vi.advanceTimersByTimeAsync(10);
+      await failing;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock = stubFetch(response(503));
+      await expect(http.post('/x', {})).rejects.toMatchObject({ status: 503 });
+      fetchMock = stubFetch(response(404));
+      await expect(http.get('/x')).rejects.toMatchObject({ status: 404 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock = stubFetch(response(503), response(200));
+      const post = http.post('/x', {}, { retry: { methods: ['POST'] } });
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(post).resolves.toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock = stubFetch(response(503));
+      await expect(http.get('/x', { retry: false })).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for Retry-After on 429 and gives up when it exceeds maxDelay', async () => {
+      const http = new HttpService('https://api.example.com');
+      http.setRetryPolicy({ maxDelay: 5000 });
+
+      let fetchMock = stubFetch(response(429, { 'retry-after': '2' }), response(200));
+      const result = http.get('/x');
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toEqual({ ok: true });
+
+      fetchMock = stubFetch(response(503, { 'retry-after': '60' }));
+      await expect(http.get('/x')).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying when the request signal aborts', async () => {
+      const fetchMock = stubFetch(response(503), response(200));
+      const http = new HttpService('https://api.example.com');
+      http.setRetryPolicy({ baseDelay: 1000 });
+      const controller = new AbortController();
+
+      const result = http.get('/x', { signal: controller.signal });
+      const rejected = expect(result).rejects.toBeInstanceOf(RequestAbortedError);
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+      await rejected;
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects invalid policies', () => {
+      const http = new HttpService('https://api.example.com');
+      expect(() => http.setRetryPolicy({ maxAttempts: 0 })).toThrow(ConfigurationError);
+      expect(() => http.setRetryPolicy({ baseDelay: -1 })).toThrow(ConfigurationError);
+    });
+  });
+
+  describe('cancellation', () => {
+    function stubAbortableFetch() {
+      const fetchMock = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => {
+              const error = new Error('The operation was aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          })
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      return fetchMock;
+    }
+
+    it('aborts an in-flight request with RequestAbortedError', async () => {
+      stubAbortableFetch();
+      const http = new HttpService('https://api.example.com');
+      const controller = new AbortController();
+
+      const result = http.get('/users', { signal: controller.signal });
+      controller.abort('typeahead changed');
+
+      const error = (await result.catch(e => e)) as RequestAbortedError;
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error).toMatchObject({
+        method: 'GET',
+        url: 'https://api.example.com/users',
+        reason: 'typeahead changed',
+      });
+    });
+
+    it('never sends a request whose signal already aborted', async () => {
+      const fetchMock = stubAbortableFetch();
+      const http = new HttpService('https://api.example.com');
+
+      await expect(http.get('/users', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+        RequestAbortedError
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('keeps reporting timeouts as timeouts while a signal is attached', async () => {
+      stubAbortableFetch();
+      const http = new HttpService('https://api.example.com', 20);
+
+      await expect(http.get('/users', { signal: new AbortController().signal })).rejects.toThrow(
+        'Request timeout after 20ms'
+      );
+    });
+
+    it('is forwarded by the domain services', async () => {
+      const fetchMock = stubAbortableFetch();
+      const users = new UserApiService(new HttpService('https://api.example.com'));
+      const controller = new AbortController();
+
+      const result = users.getUsers({ page: 2 }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/users/?page=2');
+    });
+  });
+
+  describe('bodies, queries and response types', () => {
+    function stubResponse(response: Response) {
+      const fetchMock = vi.fn().mockResolvedValue(response);
+      globalThis.fetch = fetchMock as typeof fetch;
+      return fetchMock;
+    }
+
+    it('PATCH serializes data as JSON', async () => {
+      const fetchMock = mockFetchOnce({ body: {} });
+      const http = new HttpService('https://api.example.com');
+
+      await http.patch('/users/1', { name: 'Ana' });
+
+      const init = fetchMock.mock.calls[0][1] as RequestInit;
+      expect(init.method).toBe('PATCH');
+      expect(init.body).toBe(JSON.stringify({ name: 'Ana' }));
+    });
+
+    it('appends the query, skipping empty values', async () => {
+      const fetchMock = mockFetchOnce({ body: {} });
+      const http = new HttpService('https://api.example.com');
+
+      await http.get('/users', { query: { page: 2, sortBy: undefined, search: '' } });
+      await http.get('/export?format=csv', { query: { tenantId: 't-1', all: true } });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/users?page=2');
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'https://api.example.com/export?format=csv&tenantId=t-1&all=true'
+      );
+    });
+
+    it('sends FormData and Blob bodies as-is, without a JSON Content-Type', async () => {
+      const fetchMock = mockFetchOnce({ body: {} });
+      const http = new HttpService('https://api.example.com');
+      const form = new FormData();
+      form.append('avatar', new Blob(['png'], { type: 'image/png' }), 'me.png');
+      const blob = new Blob(['a,b'], { type: 'text/csv' });
+
+      await http.post('/users/1/avatar', form);
+      await http.put('/imports/1', blob, { headers: { 'X-Import': 'csv' } });
+
+      const [formInit, blobInit] = fetchMock.mock.calls.map(([, init]) => init as RequestInit);
+      expect(formInit.body).toBe(form);
+      expect(formInit.headers).not.toHaveProperty('Content-Type');
+      expect(blobInit.body).toBe(blob);
+      expect(blobInit.headers).toEqual({ 'X-Import': 'csv' });
+    });
+
+    it('reads the response as blob, text or stream on request', async () => {
+      const http = new HttpService('https://api.example.com');
+      const csv = () => new Response('id,name\n1,Ana', { headers: { 'content-type': 'text/csv' } });
+
+      stubResponse(csv());
+      const blob = await http.get<Blob>('/users/export', { responseType: 'blob' });
+      expect(blob.type).toBe('text/csv');
+      expect(await blob.text()).toBe('id,name\n1,Ana');
+
+      stubResponse(csv());
+      await expect(http.get('/users/export', { responseType: 'text' })).resolves.toBe(
+        'id,name\n1,Ana'
+      );
+
+      stubResponse(csv());
+      const stream = await http.get<ReadableStream<Uint8Array>>('/users/export', {
+        responseType: 'stream',
+      });
+      expect(await new Response(stream).text()).toBe('id,name\n1,Ana');
+
+      stubResponse(csv());
+      await expect(http.get('/users/export')).resolves.toEqual({});
+    });
+
+    it('reports upload progress through XMLHttpRequest with the usual auth headers', async () => {
+      const sent: {
+        method?: string;
+        url?: string;
+        headers: Record<string, string>;
+        body?: unknown;
+      } = { headers: {} };
+      class FakeXhr {
+        upload: { onprogress?: (event: Partial<ProgressEvent>) => void } = {};
+        onload?: () => void;
+        onerror?: () => void;
+        onabort?: () => void;
+        responseType = '';
+        withCredentials = false;
+        status = 0;
+        statusText = '';
+        response: Blob | null = null;
+        open(method: string, url: string) {
+          sent.method = method;
+          sent.url = url;
+        }
+        setRequestHeader(name: string, value: string) {
+          sent.headers[name] = value;
+        }
+        getAllResponseHeaders() {
+          return 'content-type: application/json\r\nx-upload-id: up-1\r\n';
+        }
+        abort() {
+          this.onabort?.();
+        }
+        send(body: unknown) {
+          sent.body = body;
+          this.upload.onprogress?.({ loaded: 5, total: 10, lengthComputable: true });
+          this.upload.onprogress?.({ loaded: 10, total: 10, lengthComputable: true });
+          this.status = 201;
+          this.statusText = 'Created';
+          this.response = responseBody;
+          this.onload?.();
+        }
+      }
+      // A Blob from the same realm as Response, as a browser's XHR returns.
+      const responseBody = await new Response(JSON.stringify({ id: 'file-1' })).blob();
+      vi.stubGlobal('XMLHttpRequest', FakeXhr);
+      const fetchMock = vi.fn();
+      globalThis.fetch = fetchMock as typeof fetch;
+      const http = new HttpService('https://api.example.com');
+      http.setSessionManager(createSessionManagerStub('tok'));
+      const form = new FormData();
+      const onUploadProgress = vi.fn();
+
+      try {
+        const result = await http.post('/files', form, { onUploadProgress });
+
+        expect(result).toEqual({ id: 'file-1' });
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(sent).toMatchObject({
+          method: 'POST',
+          url: 'https://api.example.com/files',
+          headers: { Authorization: 'Bearer tok' },
+          body: form,
+        });
+        expect(onUploadProgress.mock.calls).toEqual([
+          [{ loaded: 5, total: 10 }],
+          [{ loaded: 10, total: 10 }],
+        ]);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('paginated lists', () => {
+    const meta = (page: number, totalPages: number) => ({
+      total: totalPages * 2,
+      page,
+      limit: 2,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    });
+
+    function stubPages(pages: Record<number, unknown>) {
+      const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+        const page = Number(new URL(url).searchParams.get('page') ?? 1);
+        return new Response(JSON.stringify(pages[page]), {
+          headers: { 'content-type': 'application/json' },
+        });
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+      return fetchMock;
+    }
+
+    it('unwraps the ApiResponse envelope into items and meta', async () => {
+      stubPages({ 1: { success: true, data: [{ id: 'a' }, { id: 'b' }], meta: meta(1, 3) } });
+      const http = new HttpService('https://api.example.com');
+
+      const result = await http.getPaginated<{ id: string }>('/users');
+
+      expect(result.items).toEqual([{ id: 'a' }, { id: 'b' }]);
+      expect(result.meta).toEqual(meta(1, 3));
+    });
+
+    it('treats a response without meta as a single page', async () => {
+      const fetchMock = stubPages({ 2: [{ id: 'a' }] });
+      const http = new HttpService('https://api.example.com');
+
+      const result = await http.getPaginated('/users', { query: { page: 2 } });
+
+      expect(result.meta).toEqual({
+        total: 1,
+        page: 2,
+        limit: 1,
+        totalPages: 1,
+        hasNext: false,
+        hasPrev: true,
+      });
+      const seen = [];
+      for await (const item of result.iterate()) seen.push(item);
+      expect(seen).toEqual([{ id: 'a' }]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('iterate() walks every later page with the same query and headers', async () => {
+      const fetchMock = stubPages({
+        1: { data: [{ id: 'a' }, { id: 'b' }], meta: meta(1, 3) },
+        2: { data: [{ id: 'c' }, { id: 'd' }], meta: meta(2, 3) },
+        3: { data: [{ id: 'e' }], meta: meta(3, 3) },
+      });
+      const http = new HttpService('https://api.example.com');
+
+      const first = await http.getPaginated<{ id: string }>('/users', {
+        query: { limit: 2, search: 'an' },
+        headers: { 'X-Trace': 't-1' },
+      });
+      const ids = [];
+      for await (const user of first.iterate()) ids.push(user.id);
+
+      expect(ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/users?limit=2&search=an',
+        'https://api.example.com/users?limit=2&search=an&page=2',
+        'https://api.example.com/users?limit=2&search=an&page=3',
+      ]);
+      const headers = fetchMock.mock.calls[2][1]?.headers as Record<string, string>;
+      expect(headers['X-Trace']).toBe('t-1');
+    });
+
+    it('is returned by the domain services', async () => {
+      stubPages({
+        1: { data: [{ id: 'u-1' }], meta: { ...meta(1, 2), limit: 1 } },
+        2: { data: [{ id: 'u-2' }], meta: { ...meta(2, 2), limit: 1 } },
+      });
+      const users = new UserApiService(new HttpService('https://api.example.com'));
+
+      const page = await users.getUsers({ limit: 1 });
+      const ids = [];
+      for await (const user of page.iterate()) ids.push(user.id);
+
+      expect(page.items.map(user => user.id)).toEqual(['u-1']);
+      expect(page.meta.hasNext).toBe(true);
+      expect(ids).toEqual(['u-1', 'u-2']);
+      // The pre-Paginated key is kept as a deprecated alias.
+      expect(page.users).toBe(page.items);
+    });
+
+    it('unwraps single items enveloped or bare', async () => {
+      const bodies = [{ success: true, data: { id: 'u-1' } }, { id: 'u-2' }];
+      globalThis.fetch = vi.fn(
+        async () =>
+          new Response(JSON.stringify(bodies.shift()), {
+            headers: { 'content-type': 'application/json' },
+          })
+      ) as unknown as typeof fetch;
+      const users = new UserApiService(new HttpService('https://api.example.com'));
+
+      expect(await users.getUserById('u-1')).toEqual({ id: 'u-1' });
+      expect(await users.getUserById('u-2')).toEqual({ id: 'u-2' });
+    });
+  });
+
   describe('network error propagation', () => {
     it('rethrows non-abort errors unchanged', async () => {
       const networkError = new Error('Failed to fetch');
@@ -301,6 +952,10 @@ describe('HttpService', () => {
           .mockResolvedValueOnce('old-token')
           .mockResolvedValueOnce('new-token'),
         forceRefresh: vi.fn().mockResolvedValue('new-token'),
+        isDpopEnabled: () => false,
+        isBffMode: () => false,
+        isCsrfEnabled: () => false,
+        acceptCsrfResponse: () => {},
       } as unknown as SessionManager;
 
       const http = new HttpService('https://api.example.com');
@@ -328,6 +983,10 @@ describe('HttpService', () => {
       const sm = {
         getValidAccessToken: vi.fn().mockResolvedValue('old-token'),
         forceRefresh: vi.fn().mockRejectedValue(sessionErr),
+        isDpopEnabled: () => false,
+        isBffMode: () => false,
+        isCsrfEnabled: () => false,
+        acceptCsrfResponse: () => {},
       } as unknown as SessionManager;
 
       const http = new HttpService('https://api.example.com');
@@ -348,6 +1007,10 @@ describe('HttpService', () => {
       const sm = {
         getValidAccessToken: vi.fn().mockResolvedValue('tok'),
         forceRefresh: vi.fn().mockResolvedValue('new-tok'),
+        isDpopEnabled: () => false,
+        isBffMode: () => false,
+        isCsrfEnabled: () => false,
+        acceptCsrfResponse: () => {},
       } as unknown as SessionManager;
 
       const http = new HttpService('https://api.example.com');
@@ -366,6 +1029,10 @@ describe('HttpService', () => {
       const sm = {
         getValidAccessToken: vi.fn(),
         forceRefresh: vi.fn(),
+        isDpopEnabled: () => false,
+        isBffMode: () => false,
+        isCsrfEnabled: () => false,
+        acceptCsrfResponse: () => {},
       } as unknown as SessionManager;
 
       const http = new HttpService('https://api.example.com');
@@ -409,6 +1076,10 @@ describe('HttpService', () => {
       const sm = {
         getValidAccessToken: vi.fn().mockResolvedValue('old-token'),
         forceRefresh,
+        isDpopEnabled: () => false,
+        isBffMode: () => false,
+        isCsrfEnabled: () => false,
+        acceptCsrfResponse: () => {},
       } as unknown as SessionManager;
 
       const http = new HttpService('https://api.example.com');
@@ -0,0 +1,197 @@
+import { render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthProvider } from '../providers/AuthProvider';
+import type { SessionEvent } from '../services/SessionEvents';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'events_test_tokens';
+
+function makeJwt(claims: Record<string, unknown>): string {
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(JSON.stringify({ userId: 'u1', ...claims }));
+  return `${header}.${payload}.sig`;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+describe('session events', () => {
+  const managers: SessionManager[] = [];
+  let events: SessionEvent[];
+
+  function create() {
+    const sm = new SessionManager({
+      storageKey: STORAGE_KEY,
+      baseUrl: BASE_URL,
+      autoRefresh: false,
+    });
+    managers.push(sm);
+    sm.onAny(event => events.push(event));
+    return sm;
+  }
+
+  const types = () => events.map(event => event.type);
+
+  beforeEach(() => {
+    localStorage.clear();
+    events = [];
+  });
+
+  afterEach(() => {
+    for (const sm of managers.splice(0)) sm.destroy();
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('emits login with the method for a new session, not for a rotation', () => {
+    const sm = create();
+    sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresIn: 3600 }, { method: 'password' });
+    sm.setTokens({ accessToken: 'b', refreshToken: 'r', expiresIn: 3600 });
+
+    expect(types()).toEqual(['login']);
+    expect(events[0]).toMatchObject({
+      type: 'login',
+      method: 'password',
+      sessionStartedAt: expect.any(Number),
+    });
+  });
+
+  it('emits refresh:start and refresh:success with timings', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => jsonResponse({ accessToken: 'new', refreshToken: 'r2', expiresIn: 3600 }))
+    );
+    const sm = create();
+    sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() - 1 });
+    events = [];
+
+    await sm.getValidAccessToken();
+
+    expect(types()).toEqual(['refresh:start', 'refresh:success']);
+    expect(events[0]).toMatchObject({ force: false, via: 'network' });
+    const success = events[1] as Extract<SessionEvent, { type: 'refresh:success' }>;
+    expect(success.durationMs).toBe(success.timestamp - success.startedAt);
+    expect(success.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('emits refresh:failure and expired with the reason on a fatal refresh error', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => jsonResponse({ message: 'Refresh token expired' }, 401))
+    );
+    const sm = create();
+    sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() - 1 });
+    events = [];
+
+    await expect(sm.getValidAccessToken()).rejects.toThrow();
+
+    expect(types()).toEqual(['refresh:start', 'refresh:failure', 'expired']);
+    expect(events[1]).toMatchObject({ fatal: true, reason: 'token_expired' });
+    expect(events[2]).toMatchObject({
+      reason: 'token_expired',
+      sessionDurationMs: expect.any(Number),
+    });
+  });
+
+  it('emits logout with the session duration, and nothing when there was no session', () => {
+    const sm = create();
+    sm.clearSession('logout');
+    expect(events).toEqual([]);
+
+    sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresIn: 3600 });
+    sm.clearSession('logout');
+    expect(events[1]).toMatchObject({
+      type: 'logout',
+      reason: 'user',
+      sessionDurationMs: expect.any(Number),
+    });
+  });
+
+  it('emits tenant:switched when the tenantId claim changes', () => {
+    const sm = create();
+    sm.setTokens({ accessToken: makeJwt({ tenantId: null }), refreshToken: 'r', expiresIn: 3600 });
+    sm.setTokens({ accessToken: makeJwt({ tenantId: 't1' }), refreshToken: 'r', expiresIn: 3600 });
+
+    expect(events[1]).toMatchObject({
+      type: 'tenant:switched',
+      tenantId: 't1',
+      previousTenantId: null,
+    });
+  });
+
+  it('emits cross-tab:sync for storage events from other tabs', () => {
+    create();
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ accessToken: 'a', expiresAt: Date.now() + 60_000 })
+    );
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY, newValue: '{}' }));
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY, newValue: null }));
+
+    expect(events).toMatchObject([
+      { type: 'cross-tab:sync', kind: 'tokens', transport: 'storage' },
+      { type: 'cross-tab:sync', kind: 'cleared', transport: 'storage' },
+    ]);
+  });
+
+  it('typed listeners only receive their event and can unsubscribe', () => {
+    const sm = create();
+    const onLogout = vi.fn();
+    const unsubscribe = sm.on('logout', onLogout);
+    sm.setTokens({ accessToken: 'a', expiresIn: 3600 });
+    sm.clearSession('logout');
+    unsubscribe();
+    sm.setTokens({ accessToken: 'a', expiresIn: 3600 });
+    sm.clearSession('logout');
+
+    expect(onLogout).toHaveBeenCalledTimes(1);
+  });
+
+  it('a throwing listener does not break the session or other listeners', () => {
+    const sm = create();
+    sm.on('login', () => {
+      throw new Error('analytics down');
+    });
+    expect(() => sm.setTokens({ accessToken: 'a', expiresIn: 3600 })).not.toThrow();
+    expect(types()).toEqual(['login']);
+    expect(sm.getAccessToken()).toBe('a');
+  });
+
+  it('AuthProvider forwards events to config.onSessionEvent', async () => {
+    localStorage.setItem(
+      'auth_tokens',
+      JSON.stringify({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() - 1 })
+    );
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: RequestInfo | URL) =>
+        String(input).includes('/auth/refresh')
+          ? jsonResponse({ accessToken: 'new', refreshToken: 'r2', expiresIn: 3600 })
+          : jsonResponse({ success: true, data: { id: 'u1' } })
+      )
+    );
+    const onSessionEvent = vi.fn();
+
+    render(
+      <AuthProvider config={{ baseUrl: BASE_URL, initialRoles: [], onSessionEvent }}>
+        <div />
+      </AuthProvider>
+    );
+
+    await waitFor(() =>
+      expect(onSessionEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'refresh:success' })
+      )
+    );
+  });
+});
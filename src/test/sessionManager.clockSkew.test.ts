@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type SessionConfig, SessionManager } from '../services/SessionManager';
+
+const STORAGE_KEY = 'clock_skew_test_tokens';
+const BASE_URL = 'https://api.example.com';
+const MINUTE = 60_000;
+const TOKEN_TTL = 15 * MINUTE;
+
+/** A token issued "now" by a server whose clock is `skewMs` ahead of ours. */
+function serverJwt(skewMs: number, ttlMs = TOKEN_TTL): string {
+  const serverNow = Date.now() + skewMs;
+  const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = btoa(
+    JSON.stringify({
+      userId: 'u1',
+      iat: Math.floor(serverNow / 1000),
+      exp: Math.floor((serverNow + ttlMs) / 1000),
+    })
+  );
+  return `${header}.${payload}.sig`;
+}
+
+describe('SessionManager — clock skew', () => {
+  const managers: SessionManager[] = [];
+
+  function create(config: SessionConfig = {}) {
+    const sm = new SessionManager({
+      storageKey: STORAGE_KEY,
+      baseUrl: BASE_URL,
+      autoRefresh: false,
+      ...config,
+    });
+    managers.push(sm);
+    return sm;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    for (const sm of managers.splice(0)) sm.destroy();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('reports no skew before any server time has been seen', () => {
+    const sm = create();
+    sm.setTokens({ accessToken: serverJwt(10 * MINUTE) });
+    expect(sm.getRefreshStats().clockSkewMs).toBe(0);
+  });
+
+  it('estimates the skew from the iat claim on login', () => {
+    const sm = create();
+    sm.setTokens({ accessToken: serverJwt(10 * MINUTE) }, { method: 'password' });
+    expect(sm.getRefreshStats().clockSkewMs).toBeCloseTo(10 * MINUTE, -4);
+  });
+
+  it('ignores sub-second noise', () => {
+    const sm = create();
+    sm.setTokens({ accessToken: serverJwt(-400) }, { method: 'password' });
+    expect(sm.getRefreshStats().clockSkewMs).toBe(0);
+  });
+
+  it('does not treat a fresh token as expired when the client clock runs ahead', () => {
+    const sm = create();
+    // Client is 20 minutes ahead: by its own clock the token expired 5 minutes ago.
+    sm.setTokens({ accessToken: serverJwt(-20 * MINUTE) }, { method: 'password' });
+
+    expect(sm.isTokenExpired()).toBe(false);
+    expect(sm.hasValidSession()).toBe(true);
+    vi.advanceTimersByTime(TOKEN_TTL);
+    expect(sm.isTokenExpired()).toBe(true);
+  });
+
+  it('refreshes on time when the client clock runs behind', () => {
+    const sm = create({ autoRefresh: true, refreshThreshold: MINUTE });
+    // Client is 10 minutes behind: by its own clock the token has 25 minutes left.
+    sm.setTokens({ accessToken: serverJwt(10 * MINUTE) }, { method: 'password' });
+
+    vi.setSystemTime(Date.now() + TOKEN_TTL - MINUTE);
+    expect(sm.shouldRefreshToken()).toBe(true);
+  });
+
+  it('applies the skew to expiresIn and to the expiry watchdog', async () => {
+    const onSessionExpired = vi.fn();
+    const sm = create({ autoRefresh: true, onSessionExpired });
+    sm.setTokens({ accessToken: serverJwt(-20 * MINUTE) }, { method: 'password' });
+    // No refresh token: only the watchdog governs this session.
+    sm.setTokens({ accessToken: serverJwt(-20 * MINUTE), expiresIn: TOKEN_TTL / 1000 });
+
+    await vi.advanceTimersByTimeAsync(TOKEN_TTL - 1000);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('prefers the Date header of the refresh response over iat', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        headers: new Headers({ Date: new Date(Date.now() + 5 * MINUTE).toUTCString() }),
+        json: async () => ({ accessToken: serverJwt(0), refreshToken: 'r2', expiresIn: 900 }),
+      }))
+    );
+    const sm = create();
+    sm.setTokens({ accessToken: serverJwt(0, -1), refreshToken: 'r' });
+
+    await sm.getValidAccessToken();
+
+    expect(sm.getRefreshStats().clockSkewMs).toBeCloseTo(5 * MINUTE, -4);
+  });
+
+  it('persists the estimate for reloads and other tabs', () => {
+    const first = create();
+    first.setTokens({ accessToken: serverJwt(-20 * MINUTE) }, { method: 'password' });
+    first.destroy();
+
+    const reloaded = create();
+    expect(reloaded.getRefreshStats().clockSkewMs).toBeCloseTo(-20 * MINUTE, -4);
+    expect(reloaded.isTokenExpired()).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError, SessionExpiredError } from '../errors/SessionErrors';
+import { type SessionConfig, SessionManager } from '../services/SessionManager';
+
+const STORAGE_KEY = 'idle_test_tokens';
+const ACTIVITY_KEY = `${STORAGE_KEY}:activity`;
+const IDLE_TIMEOUT = 10 * 60_000;
+const WARNING_TIME = 60_000;
+
+describe('SessionManager — idle timeout', () => {
+  const managers: SessionManager[] = [];
+
+  function create(config: SessionConfig = {}) {
+    const sm = new SessionManager({
+      storageKey: STORAGE_KEY,
+      autoRefresh: false,
+      idleTimeout: IDLE_TIMEOUT,
+      idleWarningTime: WARNING_TIME,
+      ...config,
+    });
+    managers.push(sm);
+    return sm;
+  }
+
+  function login(sm: SessionManager) {
+    sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresIn: 24 * 3600 });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    for (const sm of managers.splice(0)) sm.destroy();
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('is disabled by default', () => {
+    const sm = create({ idleTimeout: undefined });
+    login(sm);
+    expect(sm.getIdleStatus()).toBeNull();
+    vi.advanceTimersByTime(24 * 3600_000);
+    expect(sm.getAccessToken()).toBe('a');
+  });
+
+  it('reports no status without a session', () => {
+    const sm = create();
+    expect(sm.getIdleStatus()).toBeNull();
+  });
+
+  it('enters the warning window and then clears the session with idle_timeout', () => {
+    const onSessionExpired = vi.fn();
+    const sm = create({ onSessionExpired });
+    login(sm);
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT - WARNING_TIME - 1);
+    expect(sm.getIdleStatus()?.isWarning).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(sm.getIdleStatus()).toMatchObject({ isWarning: true, remainingMs: WARNING_TIME });
+
+    vi.advanceTimersByTime(WARNING_TIME);
+    expect(sm.getTokens()).toBeNull();
+    expect(sm.getState()).toBe('expired');
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    const error = onSessionExpired.mock.calls[0][0];
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.reason).toBe('idle_timeout');
+  });
+
+  it('user activity pushes the deadline out', () => {
+    const sm = create();
+    login(sm);
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT - WARNING_TIME - 1000);
+    window.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(IDLE_TIMEOUT - WARNING_TIME - 1000);
+
+    expect(sm.getAccessToken()).toBe('a');
+    expect(sm.getIdleStatus()?.isWarning).toBe(false);
+  });
+
+  it('ignores passive activity during the warning; recordActivity() dismisses it', () => {
+    const sm = create();
+    login(sm);
+    vi.advanceTimersByTime(IDLE_TIMEOUT - WARNING_TIME + 1000);
+    expect(sm.getIdleStatus()?.isWarning).toBe(true);
+
+    window.dispatchEvent(new Event('mousemove'));
+    expect(sm.getIdleStatus()?.isWarning).toBe(true);
+
+    const listener = vi.fn();
+    sm.subscribe(listener);
+    sm.recordActivity();
+    expect(sm.getIdleStatus()).toMatchObject({ isWarning: false, remainingMs: IDLE_TIMEOUT });
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('token refreshes do not count as activity', () => {
+    const sm = create();
+    login(sm);
+    vi.advanceTimersByTime(IDLE_TIMEOUT - WARNING_TIME);
+    sm.setTokens({ accessToken: 'b', refreshToken: 'r2', expiresIn: 24 * 3600 });
+    expect(sm.getIdleStatus()?.isWarning).toBe(true);
+  });
+
+  it('activity persisted by another tab keeps this tab alive', () => {
+    const sm = create();
+    login(sm);
+    vi.advanceTimersByTime(IDLE_TIMEOUT - WARNING_TIME + 1000);
+    expect(sm.getIdleStatus()?.isWarning).toBe(true);
+
+    const now = String(Date.now());
+    localStorage.setItem(ACTIVITY_KEY, now);
+    window.dispatchEvent(new StorageEvent('storage', { key: ACTIVITY_KEY, newValue: now }));
+
+    expect(sm.getIdleStatus()?.isWarning).toBe(false);
+    vi.advanceTimersByTime(WARNING_TIME);
+    expect(sm.getAccessToken()).toBe('a');
+  });
+
+  it('does not restore a persisted session whose idle deadline has passed', async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3600_000 })
+    );
+    localStorage.setItem(ACTIVITY_KEY, String(Date.now() - IDLE_TIMEOUT - 1));
+    const onSessionExpired = vi.fn();
+    const sm = create({ onSessionExpired });
+
+    // Never from the constructor — that would run during a React render.
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    await expect(sm.ensureValidSession()).resolves.toBe('expired');
+    expect(sm.getTokens()).toBeNull();
+    expect(onSessionExpired.mock.calls[0][0].reason).toBe('idle_timeout');
+  });
+
+  it('a config update from a render leaves an expired session for the next tick', () => {
+    const onSessionExpired = vi.fn();
+    const sm = SessionManager.getInstance({
+      storageKey: STORAGE_KEY,
+      autoRefresh: false,
+      idleTimeout: IDLE_TIMEOUT,
+      idleWarningTime: WARNING_TIME,
+      onSessionExpired,
+    });
+    managers.push(sm);
+    login(sm);
+    // A throttled background tab: the deadline passes without the timer firing.
+    vi.setSystemTime(Date.now() + IDLE_TIMEOUT + 1);
+
+    SessionManager.getInstance({ storageKey: STORAGE_KEY, idleWarningTime: 2 * WARNING_TIME });
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    expect(sm.getAccessToken()).toBe('a');
+
+    vi.advanceTimersByTime(0);
+    expect(onSessionExpired.mock.calls[0][0].reason).toBe('idle_timeout');
+    expect(sm.getTokens()).toBeNull();
+  });
+
+  it('getValidAccessToken rejects once the deadline has passed', async () => {
+    const sm = create();
+    login(sm);
+    // Simulate a throttled background timer: the clock moves, timers do not.
+    vi.setSystemTime(Date.now() + IDLE_TIMEOUT + 1);
+    await expect(sm.getValidAccessToken()).rejects.toMatchObject({ reason: 'idle_timeout' });
+  });
+
+  it('rejects a negative idleTimeout', () => {
+    expect(() => create({ idleTimeout: -1 })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError } from '../errors/SessionErrors';
+import { SessionManager } from '../services/SessionManager';
+import { createMemoryTokenStorage } from '../utils/tokenStorage';
+
+// In-memory BroadcastChannel: delivers to every OTHER channel with the same
+// name on a microtask, mirroring the browser's "never to yourself" rule.
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel === this || channel.name !== this.name) continue;
+      const payload = structuredClone(data);
+      queueMicrotask(() => channel.onmessage?.({ data: payload } as MessageEvent));
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.open.delete(this);
+  }
+}
+
+// Exclusive Web Locks with FIFO hand-off and AbortSignal support.
+function createLockManager() {
+  const held = new Set<string>();
+  const waiters = new Map<string, Array<() => void>>();
+
+  const release = (name: string) => {
+    held.delete(name);
+    const next = waiters.get(name)?.shift();
+    next?.();
+  };
+
+  return {
+    request(name: string, optionsOrCallback: any, maybeCallback?: any): Promise<unknown> {
+      const callback = typeof optionsOrCallback === 'function' ? optionsOrCallback : maybeCallback;
+      const signal: AbortSignal | undefined =
+        typeof optionsOrCallback === 'function' ? undefined : optionsOrCallback?.signal;
+
+      return new Promise((resolve, reject) => {
+        const grant = () => {
+          held.add(name);
+          Promise.resolve()
+            .then(() => callback())
+            .then(resolve, reject)
+            .finally(() => release(name));
+        };
+        if (!held.has(name)) {
+          grant();
+          return;
+        }
+        const queue = waiters.get(name) ?? [];
+        queue.push(grant);
+        waiters.set(name, queue);
+        signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(grant);
+          if (index !== -1) queue.splice(index, 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    },
+  };
+}
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+function expiredTokens(refreshToken = 'rt-0') {
+  return { accessToken: 'stale', refreshToken, expiresAt: Date.now() - 1000 };
+}
+
+describe('SessionManager — leader-elected cross-tab refresh', () => {
+  let originalLocks: unknown;
+  let refreshCalls: number;
+
+  beforeEach(() => {
+    originalLocks = (navigator as any).locks;
+    (navigator as any).locks = createLockManager();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    refreshCalls = 0;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        refreshCalls++;
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({
+            accessToken: `access-${refreshCalls}`,
+            refreshToken: `rt-${refreshCalls}`,
+            expiresIn: 3600,
+          }),
+        };
+      })
+    );
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    FakeBroadcastChannel.open.clear();
+    vi.unstubAllGlobals();
+    if (originalLocks === undefined) delete (navigator as any).locks;
+    else (navigator as any).locks = originalLocks;
+  });
+
+  // Each "tab" gets its own SessionManager and its own non-shared storage, so
+  // every token a follower sees must have come over the channel.
+  function openTab(initial: object | null = null) {
+    const tokenStorage = createMemoryTokenStorage();
+    if (initial) tokenStorage.set(initial);
+    return new SessionManager({
+      baseUrl: 'https://api.example.com',
+      tokenStorage,
+      autoRefresh: false,
+      crossTabCoordination: 'leader',
+    });
+  }
+
+  it('elects the first tab as leader and the rest as followers', async () => {
+    const tab1 = openTab();
+    const tab2 = openTab();
+    await flush();
+
+    expect(tab1.getRefreshStats().crossTabRole).toBe('leader');
+    expect(tab2.getRefreshStats().crossTabRole).toBe('follower');
+  });
+
+  it('a follower asks the leader instead of calling /auth/refresh itself', async () => {
+    const leader = openTab(expiredTokens());
+    const follower = openTab(expiredTokens());
+    await flush();
+
+    const token = await follower.getValidAccessToken();
+
+    expect(token).toBe('access-1');
+    expect(refreshCalls).toBe(1);
+    expect(leader.getAccessToken()).toBe('access-1');
+    expect(follower.getTokens()?.refreshToken).toBe('rt-1');
+  });
+
+  it('syncs the asking follower once per refresh', async () => {
+    openTab(expiredTokens());
+    const follower = openTab(expiredTokens());
+    await flush();
+    const syncs = vi.fn();
+    follower.on('cross-tab:sync', syncs);
+
+    await follower.getValidAccessToken();
+    await flush();
+
+    expect(syncs).toHaveBeenCalledTimes(1);
+    expect(syncs.mock.calls[0][0].kind).toBe('tokens');
+  });
+
+  it('a leader without a session answers only the asking follower', async () => {
+    openTab();
+    const asking = openTab(expiredTokens());
+    const other = openTab({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 60000 });
+    await flush();
+    const otherSyncs = vi.fn();
+    other.on('cross-tab:sync', otherSyncs);
+
+    // Refreshed with its own token instead of waiting for the leader timeout.
+    await expect(asking.getValidAccessToken()).resolves.toBe('access-1');
+    await flush();
+
+    expect(refreshCalls).toBe(1);
+    expect(otherSyncs.mock.calls.map(([event]) => event.kind)).not.toContain('cleared');
+    expect(other.getState()).toBe('authenticated');
+  });
+
+  it("a failed refresh for one follower does not fail another follower's request", async () => {
+    const leader = openTab(expiredTokens());
+    const first = openTab(expiredTokens());
+    const second = openTab(expiredTokens());
+    await flush();
+    const serve = leader.getValidAccessToken.bind(leader);
+    vi.spyOn(leader, 'getValidAccessToken')
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockImplementation(serve);
+
+    const results = await Promise.allSettled([
+      first.getValidAccessToken(),
+      second.getValidAccessToken(),
+    ]);
+
+    expect(results[0]).toMatchObject({ status: 'rejected', reason: { message: 'network down' } });
+    expect(results[1]).toEqual({ status: 'fulfilled', value: 'access-1' });
+  });
+
+  it('three tabs waking up together produce exactly one refresh flight', async () => {
+    const tabs = [openTab(expiredTokens()), openTab(expiredTokens()), openTab(expiredTokens())];
+    await flush();
+
+    const tokens = await Promise.all(tabs.map(tab => tab.getValidAccessToken()));
+
+    expect(refreshCalls).toBe(1);
+    expect(new Set(tokens)).toEqual(new Set(['access-1']));
+  });
+
+  it('broadcasts tokens written by the leader (e.g. login) to followers', async () => {
+    const leader = openTab();
+    const follower = openTab();
+    await flush();
+
+    leader.setTokens({ accessToken: 'fresh', refreshToken: 'rt', expiresIn: 3600 });
+    await flush();
+
+    expect(follower.getAccessToken()).toBe('fresh');
+    expect(follower.getState()).toBe('authenticated');
+  });
+
+  it('hands leadership to a waiting tab when the leader closes', async () => {
+    const leader = openTab();
+    const follower = openTab();
+    await flush();
+
+    leader.destroy();
+    await flush();
+
+    expect(follower.getRefreshStats().crossTabRole).toBe('leader');
+  });
+
+  it('a logout in one tab clears the session in the others', async () => {
+    const leader = openTab({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 60000 });
+    const follower = openTab({
+      accessToken: 'a',
+      refreshToken: 'r',
+      expiresAt: Date.now() + 60000,
+    });
+    await flush();
+
+    follower.clearSession('logout');
+    await flush();
+
+    expect(leader.getTokens()).toBeNull();
+    expect(leader.getState()).toBe('idle');
+  });
+
+  it('falls back to storage coordination when BroadcastChannel is unavailable', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const tab = openTab();
+    expect(tab.getRefreshStats().crossTabRole).toBeNull();
+  });
+
+  it('rejects an unknown crossTabCoordination value', () => {
+    expect(() => new SessionManager({ crossTabCoordination: 'mesh' as any })).toThrow(
+      ConfigurationError
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError, SessionExpiredError } from '../errors/SessionErrors';
+import { type SessionConfig, SessionManager } from '../services/SessionManager';
+
+const STORAGE_KEY = 'lifetime_test_tokens';
+const BASE_URL = 'https://api.example.com';
+const LIFETIME = 8 * 3600_000;
+const TOKEN_TTL_S = 3600;
+
+describe('SessionManager — absolute session lifetime', () => {
+  const managers: SessionManager[] = [];
+  let refreshCalls: number;
+
+  function create(config: SessionConfig = {}) {
+    const sm = new SessionManager({
+      storageKey: STORAGE_KEY,
+      baseUrl: BASE_URL,
+      absoluteSessionLifetime: LIFETIME,
+      ...config,
+    });
+    managers.push(sm);
+    return sm;
+  }
+
+  function login(sm: SessionManager) {
+    sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresIn: TOKEN_TTL_S });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    refreshCalls = 0;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        refreshCalls++;
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({
+            accessToken: `access-${refreshCalls}`,
+            refreshToken: `rt-${refreshCalls}`,
+            expiresIn: TOKEN_TTL_S,
+          }),
+        };
+      })
+    );
+  });
+
+  afterEach(() => {
+    for (const sm of managers.splice(0)) sm.destroy();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('stamps the login time and keeps it across refreshes', async () => {
+    const sm = create();
+    const loginAt = Date.now();
+    login(sm);
+    expect(sm.getSessionStartedAt()).toBe(loginAt);
+
+    await vi.advanceTimersByTimeAsync(TOKEN_TTL_S * 1000);
+    expect(refreshCalls).toBeGreaterThan(0);
+    expect(sm.getAccessToken()).not.toBe('a');
+    expect(sm.getSessionStartedAt()).toBe(loginAt);
+  });
+
+  it('expires the session at the deadline even though refresh keeps succeeding', async () => {
+    const onSessionExpired = vi.fn();
+    const sm = create({ onSessionExpired });
+    login(sm);
+
+    await vi.advanceTimersByTimeAsync(LIFETIME - 1);
+    expect(sm.getTokens()).not.toBeNull();
+    expect(onSessionExpired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sm.getTokens()).toBeNull();
+    expect(sm.getState()).toBe('expired');
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    const error = onSessionExpired.mock.calls[0][0];
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.reason).toBe('absolute_lifetime_exceeded');
+  });
+
+  it('persists the login time so a reload keeps the original deadline', async () => {
+    const first = create();
+    login(first);
+    const loginAt = first.getSessionStartedAt();
+    first.destroy();
+
+    await vi.advanceTimersByTimeAsync(LIFETIME / 2);
+    const reloaded = create({ autoRefresh: false });
+    expect(reloaded.getSessionStartedAt()).toBe(loginAt);
+  });
+
+  it('does not restore a persisted session past its lifetime', async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        accessToken: 'a',
+        refreshToken: 'r',
+        expiresAt: Date.now() + 3600_000,
+        sessionStartedAt: Date.now() - LIFETIME - 1,
+      })
+    );
+    const onSessionExpired = vi.fn();
+    const sm = create({ onSessionExpired, autoRefresh: false });
+
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    await expect(sm.ensureValidSession()).resolves.toBe('expired');
+    expect(onSessionExpired.mock.calls[0][0].reason).toBe('absolute_lifetime_exceeded');
+  });
+
+  it('getValidAccessToken refuses to refresh a session past its lifetime', async () => {
+    const sm = create({ autoRefresh: false });
+    login(sm);
+    // Clock jumps (laptop sleep) without timers firing.
+    vi.setSystemTime(Date.now() + LIFETIME);
+    await expect(sm.getValidAccessToken()).rejects.toMatchObject({
+      reason: 'absolute_lifetime_exceeded',
+    });
+    expect(refreshCalls).toBe(0);
+  });
+
+  it('a new login after logout starts a new lifetime', async () => {
+    const sm = create({ autoRefresh: false });
+    login(sm);
+    await vi.advanceTimersByTimeAsync(1000);
+    sm.clearSession('logout');
+    login(sm);
+    expect(sm.getSessionStartedAt()).toBe(Date.now());
+  });
+
+  it('handles lifetimes longer than the maximum setTimeout delay', async () => {
+    const sm = create({ autoRefresh: false, absoluteSessionLifetime: 30 * 24 * 3600_000 });
+    login(sm);
+    await vi.advanceTimersByTimeAsync(25 * 24 * 3600_000);
+    expect(sm.getTokens()).not.toBeNull();
+  });
+
+  it('rejects a negative absoluteSessionLifetime', () => {
+    expect(() => create({ absoluteSessionLifetime: -1 })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConfigurationError,
+  SessionExpiredError,
+  TokenRefreshError,
+} from '../errors/SessionErrors';
+import { SessionManager, type TokenStorage } from '../services/SessionManager';
+import { defaultClassifyRefreshError } from '../utils/refreshErrors';
+
+function createMemoryStorage(): TokenStorage {
+  let data: any = null;
+  return {
+    get: () => data,
+    set: d => {
+      data = d;
+    },
+    clear: () => {
+      data = null;
+    },
+  };
+}
+
+function refreshFailure(status: number, body: unknown) {
+  return vi.fn().mockResolvedValue({
+    ok: false,
+    status,
+    statusText: 'Error',
+    json: () => (body === undefined ? Promise.reject(new SyntaxError()) : Promise.resolve(body)),
+  });
+}
+
+function apiError(code: string, message: string, type?: string) {
+  return { success: false, error: { code }, message, ...(type && { type }) };
+}
+
+describe('defaultClassifyRefreshError', () => {
+  it('reads the reason from ApiError.error.code regardless of the message', () => {
+    expect(
+      defaultClassifyRefreshError(400, apiError('AUTH_TOKEN_EXPIRED', 'Please sign in again'))
+    ).toEqual({ fatal: true, reason: 'token_expired', message: 'Please sign in again' });
+    expect(
+      defaultClassifyRefreshError(400, apiError('REFRESH_TOKEN_REUSED', 'Nope'))
+    ).toMatchObject({ fatal: true, reason: 'token_invalid' });
+    expect(defaultClassifyRefreshError(403, apiError('user-inactive', 'Nope'))).toMatchObject({
+      fatal: true,
+      reason: 'user_inactive',
+    });
+  });
+
+  it('does not read codes as substrings', () => {
+    // "INVALIDATED" is not "INVALID"; falls through to the (transient) message path.
+    expect(defaultClassifyRefreshError(400, apiError('CACHE_INVALIDATED', 'Try again'))).toEqual({
+      fatal: false,
+      message: 'try again',
+    });
+  });
+
+  it('uses ApiError.type when the code is not recognised', () => {
+    expect(defaultClassifyRefreshError(400, apiError('X1', 'whatever', 'AUTH'))).toMatchObject({
+      fatal: true,
+      reason: 'token_invalid',
+    });
+    // A SYSTEM error mentioning "invalid" is still transient.
+    expect(
+      defaultClassifyRefreshError(400, apiError('X2', 'Invalid upstream response', 'SYSTEM'))
+    ).toMatchObject({ fatal: false });
+  });
+
+  it('treats every 401 as fatal, even a SYSTEM one', () => {
+    expect(defaultClassifyRefreshError(401, apiError('X3', 'oops', 'SYSTEM'))).toMatchObject({
+      fatal: true,
+      reason: 'token_invalid',
+    });
+  });
+
+  it('falls back to message heuristics for unstructured bodies', () => {
+    expect(defaultClassifyRefreshError(401, { message: 'Refresh token expired' })).toMatchObject({
+      fatal: true,
+      reason: 'token_expired',
+    });
+    expect(defaultClassifyRefreshError(400, { error: 'Token reuse detected' })).toMatchObject({
+      fatal: true,
+      reason: 'token_invalid',
+    });
+    expect(defaultClassifyRefreshError(400, { message: 'User not found' })).toMatchObject({
+      fatal: false,
+    });
+    expect(defaultClassifyRefreshError(502, null)).toEqual({ fatal: false, message: '' });
+  });
+});
+
+describe('SessionManager — classifyRefreshError', () => {
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+  });
+
+  function makeManager(classifyRefreshError?: (status: number, body: unknown) => any) {
+    const storage = createMemoryStorage();
+    storage.set({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 10_000 });
+    return new SessionManager({
+      tokenStorage: storage,
+      autoRefresh: false,
+      baseUrl: 'http://api',
+      maxRefreshRetries: 0,
+      classifyRefreshError,
+    });
+  }
+
+  it('ends the session on a structured code the old heuristics would have retried', async () => {
+    vi.stubGlobal(
+      'fetch',
+      refreshFailure(400, apiError('AUTH_TOKEN_REVOKED', 'Your session was closed'))
+    );
+    const sm = makeManager();
+
+    const error = await sm.forceRefresh().catch(e => e);
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.reason).toBe('token_invalid');
+    sm.destroy();
+  });
+
+  it('passes status and parsed body to the custom classifier', async () => {
+    const body = { errorCode: 'SESSION_GONE' };
+    vi.stubGlobal('fetch', refreshFailure(409, body));
+    const classify = vi.fn(() => ({ fatal: true as const, reason: 'token_expired' as const }));
+    const sm = makeManager(classify);
+
+    const error = await sm.forceRefresh().catch(e => e);
+    expect(classify).toHaveBeenCalledWith(409, body);
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.reason).toBe('token_expired');
+    sm.destroy();
+  });
+
+  it('can turn a default-fatal response into a retry', async () => {
+    vi.stubGlobal('fetch', refreshFailure(401, { message: 'Invalid refresh token' }));
+    const sm = makeManager(() => ({ fatal: false, message: 'gateway hiccup' }));
+
+    const error = await sm.forceRefresh().catch(e => e);
+    expect(error).toBeInstanceOf(TokenRefreshError);
+    expect(sm.getTokens()?.refreshToken).toBe('r');
+    sm.destroy();
+  });
+
+  it('defers to the default when the classifier returns undefined', async () => {
+    vi.stubGlobal('fetch', refreshFailure(401, undefined));
+    const classify = vi.fn(() => undefined);
+    const sm = makeManager(classify);
+
+    const error = await sm.forceRefresh().catch(e => e);
+    expect(classify).toHaveBeenCalledWith(401, null);
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    sm.destroy();
+  });
+
+  it('rejects a non-function classifier', () => {
+    expect(
+      () => new SessionManager({ storageKey: 'x', classifyRefreshError: 'strict' as any })
+    ).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError, TokenRefreshError } from '../errors/SessionErrors';
+import {
+  type RefreshTransport,
+  SessionManager,
+  type TokenStorage,
+} from '../services/SessionManager';
+
+function createMemoryStorage(): TokenStorage {
+  let data: any = null;
+  return {
+    get: () => data,
+    set: d => {
+      data = d;
+    },
+    clear: () => {
+      data = null;
+    },
+  };
+}
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => null },
+    json: async () => body,
+  } as unknown as Response;
+}
+
+interface OAuthTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_at: number;
+}
+
+const OAUTH_TRANSPORT: RefreshTransport = {
+  path: '/oauth/token',
+  headers: { 'X-Client': 'web' },
+  mapRequest: ({ refreshToken }) =>
+    new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken ?? '' }),
+  mapResponse: body => {
+    const token = body as OAuthTokenResponse;
+    return token.access_token
+      ? {
+          accessToken: token.access_token,
+          refreshToken: token.refresh_token,
+          expiresAt: token.expires_at * 1000,
+        }
+      : null;
+  },
+};
+
+describe('SessionManager — refreshTransport', () => {
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+  });
+
+  function makeManager(refreshTransport?: RefreshTransport) {
+    const storage = createMemoryStorage();
+    storage.set({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 10_000 });
+    return new SessionManager({
+      tokenStorage: storage,
+      autoRefresh: false,
+      baseUrl: 'http://api',
+      maxRefreshRetries: 0,
+      refreshTransport,
+    });
+  }
+
+  it('keeps the default /auth/refresh JSON contract', async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({ accessToken: 'a2', refreshToken: 'r2', expiresIn: 900 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const sm = makeManager();
+
+    await sm.forceRefresh();
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://api/auth/refresh');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(String(init.body))).toEqual({ refreshToken: 'r' });
+    expect(sm.getTokens()).toMatchObject({ accessToken: 'a2', refreshToken: 'r2' });
+    sm.destroy();
+  });
+
+  it('talks to an OAuth token endpoint with form encoding and expires_at', async () => {
+    const expiresAtSec = Math.floor(Date.now() / 1000) + 1800;
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({ access_token: 'oa', refresh_token: 'or', expires_at: expiresAtSec })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const sm = makeManager(OAUTH_TRANSPORT);
+
+    await sm.forceRefresh();
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://api/oauth/token');
+    expect(init.headers).toEqual({ 'X-Client': 'web' });
+    expect(String(init.body)).toBe('grant_type=refresh_token&refresh_token=r');
+    expect(sm.getTokens()).toMatchObject({
+      accessToken: 'oa',
+      refreshToken: 'or',
+      expiresAt: expiresAtSec * 1000,
+    });
+    sm.destroy();
+  });
+
+  it('accepts an absolute URL as the path', async () => {
+    const fetchMock = vi.fn(async (_url: string) =>
+      jsonResponse({ accessToken: 'a2', expiresIn: 900 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const sm = makeManager({ path: 'https://idp.example.com/token' });
+
+    await sm.forceRefresh();
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://idp.example.com/token');
+    // No rotation in the response: the current refresh token is kept.
+    expect(sm.getTokens()?.refreshToken).toBe('r');
+    sm.destroy();
+  });
+
+  it('retries when a 2xx response maps to no tokens', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => jsonResponse({ error: 'pending' }))
+    );
+    const sm = makeManager(OAUTH_TRANSPORT);
+
+    await expect(sm.forceRefresh()).rejects.toBeInstanceOf(TokenRefreshError);
+    expect(sm.getTokens()?.accessToken).toBe('a');
+    sm.destroy();
+  });
+
+  it('uses the transport for the cookie session restore', async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({ access_token: 'ca', expires_at: Math.floor(Date.now() / 1000) + 600 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const mapRequest = vi.fn(() => new URLSearchParams({ grant_type: 'refresh_token' }));
+    const sm = new SessionManager({
+      tokenStorage: createMemoryStorage(),
+      autoRefresh: false,
+      baseUrl: 'http://api',
+      enableCookieSession: true,
+      refreshTransport: { ...OAUTH_TRANSPORT, mapRequest },
+    });
+
+    await expect(sm.attemptCookieSessionRestore()).resolves.toBe(true);
+
+    expect(mapRequest).toHaveBeenCalledWith({ refreshToken: null });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://api/oauth/token');
+    expect(init.credentials).toBe('include');
+    expect(sm.getTokens()?.accessToken).toBe('ca');
+    sm.destroy();
+  });
+
+  it('rejects an invalid transport', () => {
+    expect(() => new SessionManager({ storageKey: 't1', refreshTransport: { path: '' } })).toThrow(
+      ConfigurationError
+    );
+    expect(
+      () =>
+        new SessionManager({
+          storageKey: 't2',
+          refreshTransport: { mapResponse: 'access_token' as any },
+        })
+    ).toThrow(ConfigurationError);
+  });
+});
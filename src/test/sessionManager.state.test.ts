@@ -199,6 +199,25 @@ describe('SessionManager — state machine + subscribe', () => {
       expect(a).toBe(b);
     });
 
+    it('warns once in development when a construction-time option changes', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        const config = { storageKey: 'rebind', baseUrl: 'http://api', autoRefresh: false };
+        SessionManager.getInstance({ ...config, bff: { sessionPath: '/me' } });
+        SessionManager.getInstance({ ...config, bff: { sessionPath: '/me' } });
+        expect(warn).not.toHaveBeenCalled();
+
+        SessionManager.getInstance({ ...config, bff: { sessionPath: '/session' } });
+        SessionManager.getInstance({ ...config, bff: { sessionPath: '/session' } });
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain('bff changed');
+      } finally {
+        warn.mockRestore();
+        vi.unstubAllEnvs();
+      }
+    });
+
     it('exposes the registry on globalThis (defensive against duplicated bundles)', () => {
       SessionManager.getInstance({ storageKey: 'global-probe', baseUrl: 'http://api' });
       const g = globalThis as Record<string, unknown>;
@@ -0,0 +1,238 @@
+import { webcrypto } from 'node:crypto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConfigurationError,
+  SessionExpiredError,
+  TokenVerificationError,
+} from '../errors/SessionErrors';
+import { type SessionConfig, SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'verification_test_tokens';
+const APP_ID = 'app-1';
+
+type Alg = 'RS256' | 'ES256';
+
+const KEY_PARAMS = {
+  RS256: {
+    name: 'RSASSA-PKCS1-v1_5',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256',
+  },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+} as const;
+
+const SIGN_PARAMS = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5' },
+  ES256: { name: 'ECDSA', hash: 'SHA-256' },
+} as const;
+
+function base64Url(bytes: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(bytes as ArrayBuffer).toString('base64url');
+}
+
+async function generateKeys(alg: Alg) {
+  const pair = (await webcrypto.subtle.generateKey(KEY_PARAMS[alg], true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair;
+  const spki = await webcrypto.subtle.exportKey('spki', pair.publicKey);
+  const pem = `-----BEGIN PUBLIC KEY-----\n${Buffer.from(spki).toString('base64')}\n-----END PUBLIC KEY-----`;
+  return { privateKey: pair.privateKey, pem };
+}
+
+async function signJwt(alg: Alg, privateKey: CryptoKey, claims: Record<string, unknown>) {
+  const header = base64Url(Buffer.from(JSON.stringify({ alg, typ: 'JWT' })));
+  const payload = base64Url(
+    Buffer.from(
+      JSON.stringify({ userId: 'u1', exp: Math.floor(Date.now() / 1000) + 3600, ...claims })
+    )
+  );
+  const signature = await webcrypto.subtle.sign(
+    SIGN_PARAMS[alg],
+    privateKey,
+    Buffer.from(`${header}.${payload}`)
+  );
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+  } as unknown as Response;
+}
+
+describe('SessionManager — token signature verification', () => {
+  const managers: SessionManager[] = [];
+  let keys: Record<Alg, Awaited<ReturnType<typeof generateKeys>>>;
+  let publishedKeys: Record<string, { publicKey: string; keyAlgorithm: Alg }>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  function create(config: SessionConfig = {}) {
+    const sm = new SessionManager({
+      storageKey: STORAGE_KEY,
+      baseUrl: BASE_URL,
+      autoRefresh: false,
+      verifyTokenSignatures: true,
+      ...config,
+    });
+    managers.push(sm);
+    return sm;
+  }
+
+  beforeAll(async () => {
+    keys = { RS256: await generateKeys('RS256'), ES256: await generateKeys('ES256') };
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    publishedKeys = {
+      [`${BASE_URL}/apps/${APP_ID}/public-key`]: {
+        publicKey: keys.RS256.pem,
+        keyAlgorithm: 'RS256',
+      },
+      [`${BASE_URL}/auth/system/public-key`]: { publicKey: keys.ES256.pem, keyAlgorithm: 'ES256' },
+    };
+    fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const published = publishedKeys[String(input)];
+      return published
+        ? jsonResponse({ success: true, data: { ...published, keyCreatedAt: '2024-01-01' } })
+        : jsonResponse({ message: 'Not found' }, 404);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    for (const sm of managers.splice(0)) sm.destroy();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('stores an RS256 token verified against the app public key', async () => {
+    const sm = create();
+    const token = await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID });
+
+    await sm.setVerifiedTokens({ accessToken: token, refreshToken: 'r' });
+
+    expect(sm.getAccessToken()).toBe(token);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${BASE_URL}/apps/${APP_ID}/public-key`,
+      expect.anything()
+    );
+  });
+
+  it('verifies ES256 tokens without an appId against the system key', async () => {
+    const sm = create();
+    const token = await signJwt('ES256', keys.ES256.privateKey, { appId: null });
+
+    await sm.setVerifiedTokens({ accessToken: token, refreshToken: 'r' });
+
+    expect(sm.getAccessToken()).toBe(token);
+  });
+
+  it('rejects a tampered token and leaves the current session untouched', async () => {
+    const sm = create();
+    const original = await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID });
+    await sm.setVerifiedTokens({ accessToken: original, refreshToken: 'r' });
+
+    const [header, , signature] = original.split('.');
+    const forgedPayload = base64Url(
+      Buffer.from(JSON.stringify({ userId: 'admin', appId: APP_ID, userType: 'SUPERUSER' }))
+    );
+    const forged = `${header}.${forgedPayload}.${signature}`;
+
+    const error = await sm.setVerifiedTokens({ accessToken: forged }).catch(e => e);
+    expect(error).toBeInstanceOf(TokenVerificationError);
+    expect(error.reason).toBe('invalid_signature');
+    expect(sm.getAccessToken()).toBe(original);
+  });
+
+  it('rejects alg=none tokens without fetching a key', async () => {
+    const sm = create();
+    const none = `${base64Url(Buffer.from('{"alg":"none"}'))}.${base64Url(Buffer.from('{}'))}.x`;
+
+    await expect(sm.setVerifiedTokens({ accessToken: none })).rejects.toMatchObject({
+      reason: 'unsupported_algorithm',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(sm.getTokens()).toBeNull();
+  });
+
+  it('caches keys and refetches once when the key has been rotated', async () => {
+    const sm = create();
+    await sm.setVerifiedTokens({
+      accessToken: await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID }),
+    });
+    await sm.setVerifiedTokens({
+      accessToken: await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID, n: 2 }),
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const rotated = await generateKeys('RS256');
+    publishedKeys[`${BASE_URL}/apps/${APP_ID}/public-key`].publicKey = rotated.pem;
+    const token = await signJwt('RS256', rotated.privateKey, { appId: APP_ID });
+    await sm.setVerifiedTokens({ accessToken: token });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sm.getAccessToken()).toBe(token);
+  });
+
+  it('fails closed when the key endpoint is unreachable', async () => {
+    const sm = create();
+    delete publishedKeys[`${BASE_URL}/apps/${APP_ID}/public-key`];
+    const token = await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID });
+
+    await expect(sm.setVerifiedTokens({ accessToken: token })).rejects.toMatchObject({
+      reason: 'key_unavailable',
+    });
+    expect(sm.getTokens()).toBeNull();
+  });
+
+  it('ends the session when a refresh returns a token that fails verification', async () => {
+    const onSessionExpired = vi.fn();
+    const sm = create({ onSessionExpired });
+    await sm.setVerifiedTokens({
+      accessToken: await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID }),
+      refreshToken: 'r',
+      expiresAt: Date.now() - 1,
+    });
+    const other = await generateKeys('RS256');
+    const badToken = await signJwt('RS256', other.privateKey, { appId: APP_ID });
+    fetchMock.mockImplementation(async (input: RequestInfo | URL) => {
+      if (String(input).endsWith('/auth/refresh')) {
+        return jsonResponse({ accessToken: badToken, refreshToken: 'r2', expiresIn: 3600 });
+      }
+      const published = publishedKeys[String(input)];
+      return jsonResponse({ success: true, data: published });
+    });
+
+    await expect(sm.getValidAccessToken()).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(sm.getTokens()).toBeNull();
+    expect(onSessionExpired.mock.calls[0][0].message).toBe('Token signature is invalid');
+  });
+
+  it('stores synchronously and unchecked when disabled', () => {
+    const sm = create({ verifyTokenSignatures: false });
+    const result = sm.setVerifiedTokens({ accessToken: 'opaque-token', expiresIn: 3600 });
+
+    expect(sm.getAccessToken()).toBe('opaque-token');
+    expect(result).toBeInstanceOf(Promise);
+
+    sm.setTokens({ accessToken: 'opaque-token-2', expiresIn: 3600 });
+    expect(sm.getAccessToken()).toBe('opaque-token-2');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses unchecked setTokens while verification is on', async () => {
+    const sm = create();
+    const token = await signJwt('RS256', keys.RS256.privateKey, { appId: APP_ID });
+
+    expect(() => sm.setTokens({ accessToken: token })).toThrow(ConfigurationError);
+    expect(sm.getTokens()).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionTimeoutWarning } from '../components/SessionTimeoutWarning';
+import { AuthProvider } from '../providers/AuthProvider';
+import { SessionManager } from '../services/SessionManager';
+
+const BASE_URL = 'https://api.example.com';
+const STORAGE_KEY = 'auth_tokens';
+
+const SAMPLE_USER = {
+  id: 'u1',
+  name: 'Test',
+  isActive: true,
+  userType: 'USER',
+  tenantId: null,
+  roleId: null,
+  createdAt: '',
+  updatedAt: '',
+};
+
+function jsonResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as Response;
+}
+
+describe('<SessionTimeoutWarning>', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        accessToken: 'valid-access',
+        refreshToken: 'valid-refresh',
+        expiresAt: Date.now() + 3_600_000,
+        user: SAMPLE_USER,
+      })
+    );
+    // Last activity was long enough ago that the session is already inside
+    // the warning window, but not past the deadline.
+    localStorage.setItem(`${STORAGE_KEY}:activity`, String(Date.now() - 50_000));
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => jsonResponse({ success: true, data: SAMPLE_USER }))
+    );
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  function renderWarning(props: Parameters<typeof SessionTimeoutWarning>[0] = {}) {
+    return render(
+      <AuthProvider
+        config={{
+          baseUrl: BASE_URL,
+          initialRoles: [],
+          idleTimeout: 60_000,
+          idleWarningTime: 30_000,
+        }}
+      >
+        <SessionTimeoutWarning {...props} />
+      </AuthProvider>
+    );
+  }
+
+  it('shows the countdown while inside the warning window', async () => {
+    renderWarning();
+    expect(await screen.findByRole('alertdialog')).toBeInTheDocument();
+    expect(screen.getByText(/signed out in 0:\d\d due to inactivity/)).toBeInTheDocument();
+  });
+
+  it('"Stay signed in" resets the countdown and hides the dialog', async () => {
+    const onStay = vi.fn();
+    renderWarning({ onStay });
+    fireEvent.click(await screen.findByRole('button', { name: 'Stay signed in' }));
+
+    await waitFor(() => expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument());
+    expect(onStay).toHaveBeenCalledTimes(1);
+    expect(SessionManager.getInstance({ baseUrl: BASE_URL }).getIdleStatus()?.isWarning).toBe(
+      false
+    );
+  });
+
+  it('"Sign out" calls onLogout when provided', async () => {
+    const onLogout = vi.fn();
+    renderWarning({ onLogout, copy: { logoutButton: 'Log me out' } });
+    fireEvent.click(await screen.findByRole('button', { name: 'Log me out' }));
+    expect(onLogout).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,379 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionManager } from '../services/SessionManager';
+import {
+  createCookieTokenStorage,
+  createEncryptedTokenStorage,
+  createIndexedDbTokenStorage,
+  createMemoryTokenStorage,
+  createSessionStorageTokenStorage,
+} from '../utils/tokenStorage';
+
+// Minimal async IndexedDB double: every request settles on a microtask, which
+// is enough to exercise the adapter's hydration and write-through ordering.
+function installFakeIndexedDb(initial: Record<string, unknown> = {}) {
+  const data = new Map<string, unknown>(Object.entries(initial));
+  const request = (fn: () => unknown) => {
+    const req: any = {};
+    queueMicrotask(() => {
+      req.result = fn();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+  const store = {
+    get: (key: string) => request(() => data.get(key)),
+    put: (value: unknown, key: string) => request(() => data.set(key, value)),
+    add: (value: unknown, key: string) => request(() => data.set(key, value)),
+    delete: (key: string) => request(() => data.delete(key)),
+  };
+  const db = {
+    createObjectStore: vi.fn(),
+    transaction: () => ({ objectStore: () => store }),
+  };
+  vi.stubGlobal('indexedDB', {
+    open: () => {
+      const req: any = { result: db };
+      queueMicrotask(() => req.onsuccess?.());
+      return req;
+    },
+  });
+  return data;
+}
+
+// In-memory BroadcastChannel: delivers to every OTHER channel with the same
+// name on a microtask, like the browser's "never to yourself" rule.
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel === this || channel.name !== this.name) continue;
+      const payload = structuredClone(data);
+      queueMicrotask(() => channel.onmessage?.({ data: payload } as MessageEvent));
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.open.delete(this);
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Web Crypto settles off the microtask queue, so poll instead of flushing once.
+async function waitForStored(key: string) {
+  await vi.waitFor(() => expect(window.localStorage.getItem(key)).not.toBeNull());
+  return window.localStorage.getItem(key) as string;
+}
+
+describe('token storage adapters', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    FakeBroadcastChannel.open.clear();
+  });
+
+  afterEach(() => {
+    SessionManager.resetAllInstances();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    for (const cookie of document.cookie.split('; ')) {
+      const name = cookie.split('=')[0];
+      if (name) document.cookie = `${name}=; path=/; max-age=0`;
+    }
+  });
+
+  describe('createMemoryTokenStorage', () => {
+    it('stores, returns and clears data without touching web storage', () => {
+      const storage = createMemoryTokenStorage();
+      storage.set({ accessToken: 'a' });
+      expect(storage.get()).toEqual({ accessToken: 'a' });
+      expect(window.localStorage.length).toBe(0);
+      storage.clear();
+      expect(storage.get()).toBeNull();
+    });
+  });
+
+  describe('createSessionStorageTokenStorage', () => {
+    it('persists to sessionStorage under the given key', () => {
+      const storage = createSessionStorageTokenStorage('bank_tokens');
+      storage.set({ accessToken: 'a', refreshToken: 'r' });
+      expect(JSON.parse(window.sessionStorage.getItem('bank_tokens') as string)).toEqual({
+        accessToken: 'a',
+        refreshToken: 'r',
+      });
+      expect(window.localStorage.getItem('bank_tokens')).toBeNull();
+      storage.clear();
+      expect(window.sessionStorage.getItem('bank_tokens')).toBeNull();
+    });
+
+    it('falls back to memory when sessionStorage rejects a write', () => {
+      const storage = createSessionStorageTokenStorage();
+      vi.spyOn(window.sessionStorage, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+      storage.set({ accessToken: 'a' });
+      expect(storage.get()).toEqual({ accessToken: 'a' });
+    });
+  });
+
+  describe('createCookieTokenStorage', () => {
+    it('round-trips JSON through document.cookie', () => {
+      const storage = createCookieTokenStorage({ key: 'sess' });
+      storage.set({ accessToken: 'a', user: { id: 'u1' } });
+      expect(document.cookie).toContain('sess=');
+      expect(storage.get()).toEqual({ accessToken: 'a', user: { id: 'u1' } });
+      storage.clear();
+      expect(storage.get()).toBeNull();
+    });
+
+    it('returns null for a cookie that is not valid JSON', () => {
+      document.cookie = 'sess=not-json; path=/';
+      expect(createCookieTokenStorage({ key: 'sess' }).get()).toBeNull();
+    });
+  });
+
+  describe('createIndexedDbTokenStorage', () => {
+    it('hydrates persisted data on ready()', async () => {
+      installFakeIndexedDb({ auth_tokens: { accessToken: 'persisted' } });
+      const storage = createIndexedDbTokenStorage();
+      expect(storage.get()).toBeNull();
+      await storage.ready?.();
+      expect(storage.get()).toEqual({ accessToken: 'persisted' });
+    });
+
+    it('writes through to the database in order', async () => {
+      const data = installFakeIndexedDb();
+      const storage = createIndexedDbTokenStorage();
+      storage.set({ accessToken: 'a' });
+      storage.set({ accessToken: 'b' });
+      await flush();
+      expect(data.get('auth_tokens')).toEqual({ accessToken: 'b' });
+      storage.clear();
+      await flush();
+      expect(data.has('auth_tokens')).toBe(false);
+    });
+
+    it('does not let hydration overwrite a newer in-memory write', async () => {
+      installFakeIndexedDb({ auth_tokens: { accessToken: 'stale' } });
+      const storage = createIndexedDbTokenStorage();
+      const ready = storage.ready?.();
+      storage.set({ accessToken: 'fresh' });
+      await ready;
+      expect(storage.get()).toEqual({ accessToken: 'fresh' });
+    });
+
+    it('mirrors writes and clears from other tabs through subscribe()', async () => {
+      const data = installFakeIndexedDb();
+      const tabA = createIndexedDbTokenStorage();
+      const tabB = createIndexedDbTokenStorage();
+      await Promise.all([tabA.ready?.(), tabB.ready?.()]);
+      const onChange = vi.fn();
+      tabB.subscribe?.(onChange);
+
+      tabA.set({ accessToken: 'a', refreshToken: 'rt-2' });
+      await flush();
+      expect(tabB.get()).toEqual({ accessToken: 'a', refreshToken: 'rt-2' });
+      expect(onChange).toHaveBeenCalledTimes(1);
+
+      tabA.clear();
+      await flush();
+      expect(tabB.get()).toBeNull();
+      expect(data.has('auth_tokens')).toBe(false);
+    });
+
+    it('works memory-only when IndexedDB is unavailable', async () => {
+      const storage = createIndexedDbTokenStorage();
+      await storage.ready?.();
+      storage.set({ accessToken: 'a' });
+      expect(storage.get()).toEqual({ accessToken: 'a' });
+    });
+  });
+
+  describe('createEncryptedTokenStorage', () => {
+    it('persists only ciphertext and keeps a non-extractable key in IndexedDB', async () => {
+      const keys = installFakeIndexedDb();
+      const storage = createEncryptedTokenStorage();
+      await storage.ready?.();
+      storage.set({ accessToken: 'a', refreshToken: 'secret-refresh' });
+
+      const stored = await waitForStored('auth_tokens');
+      expect(stored).toMatch(/^v1\.[\w-]+\.[\w-]+$/);
+      expect(stored).not.toContain('secret-refresh');
+      const key = keys.get('auth_tokens') as CryptoKey;
+      expect(key.extractable).toBe(false);
+      expect(key.algorithm.name).toBe('AES-GCM');
+    });
+
+    it('decrypts the persisted session on ready()', async () => {
+      installFakeIndexedDb();
+      const writer = createEncryptedTokenStorage();
+      await writer.ready?.();
+      writer.set({ accessToken: 'persisted' });
+      await waitForStored('auth_tokens');
+
+      const reader = createEncryptedTokenStorage();
+      expect(reader.get()).toBeNull();
+      await reader.ready?.();
+      expect(reader.get()).toEqual({ accessToken: 'persisted' });
+    });
+
+    it('drops ciphertext it cannot decrypt', async () => {
+      installFakeIndexedDb();
+      window.localStorage.setItem('auth_tokens', 'v1.AAAA.AAAA');
+      const storage = createEncryptedTokenStorage();
+      await storage.ready?.();
+      expect(storage.get()).toBeNull();
+      expect(window.localStorage.getItem('auth_tokens')).toBeNull();
+    });
+
+    it('adopts and re-encrypts a plaintext session under the same key', async () => {
+      installFakeIndexedDb();
+      window.localStorage.setItem('auth_tokens', JSON.stringify({ accessToken: 'legacy' }));
+      const storage = createEncryptedTokenStorage();
+      await storage.ready?.();
+      expect(storage.get()).toEqual({ accessToken: 'legacy' });
+      await vi.waitFor(() =>
+        expect(window.localStorage.getItem('auth_tokens')?.startsWith('v1.')).toBe(true)
+      );
+    });
+
+    it('reports another tab’s write after decrypting it', async () => {
+      installFakeIndexedDb();
+      const other = createEncryptedTokenStorage();
+      await other.ready?.();
+      other.set({ accessToken: 'from-other-tab' });
+      const ciphertext = await waitForStored('auth_tokens');
+
+      const storage = createEncryptedTokenStorage();
+      await storage.ready?.();
+      const onChange = vi.fn();
+      storage.subscribe?.(onChange);
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'auth_tokens', newValue: ciphertext })
+      );
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+      expect(storage.get()).toEqual({ accessToken: 'from-other-tab' });
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth_tokens', newValue: null }));
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(storage.get()).toBeNull();
+    });
+
+    it('stays memory-only without IndexedDB instead of writing plaintext', async () => {
+      const storage = createEncryptedTokenStorage();
+      await storage.ready?.();
+      storage.set({ accessToken: 'a' });
+      await flush();
+      expect(storage.get()).toEqual({ accessToken: 'a' });
+      expect(window.localStorage.getItem('auth_tokens')).toBeNull();
+    });
+  });
+
+  describe('SessionManager integration', () => {
+    it('never writes to localStorage when given a sessionStorage adapter', () => {
+      const sm = new SessionManager({
+        tokenStorage: createSessionStorageTokenStorage(),
+        autoRefresh: false,
+      });
+      sm.setTokens({ accessToken: 'a', refreshToken: 'r', expiresIn: 3600 });
+      expect(sm.getTokens()?.refreshToken).toBe('r');
+      expect(window.localStorage.getItem('auth_tokens')).toBeNull();
+      expect(window.sessionStorage.getItem('auth_tokens')).not.toBeNull();
+    });
+
+    it('ensureValidSession waits for async storage hydration', async () => {
+      installFakeIndexedDb({
+        auth_tokens: { accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3600_000 },
+      });
+      const sm = new SessionManager({
+        tokenStorage: createIndexedDbTokenStorage(),
+        autoRefresh: false,
+      });
+      expect(sm.getTokens()).toBeNull();
+      await expect(sm.ensureValidSession()).resolves.toBe('authenticated');
+      expect(sm.getAccessToken()).toBe('a');
+    });
+
+    it('notifies subscribers once async storage hydrates a session', async () => {
+      installFakeIndexedDb({
+        auth_tokens: { accessToken: 'a', expiresAt: Date.now() + 3600_000 },
+      });
+      const sm = new SessionManager({
+        tokenStorage: createIndexedDbTokenStorage(),
+        autoRefresh: false,
+      });
+      const listener = vi.fn();
+      sm.subscribe(listener);
+      await sm.whenStorageReady();
+      expect(listener).toHaveBeenCalled();
+      expect(sm.getState()).toBe('restoring');
+    });
+
+    it('keeps a logout from another tab out of the IndexedDB session', async () => {
+      const data = installFakeIndexedDb();
+      const session = { accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3600_000 };
+      const tabA = new SessionManager({
+        storageKey: 'tab-a',
+        tokenStorage: createIndexedDbTokenStorage(),
+        autoRefresh: false,
+      });
+      const tabB = new SessionManager({
+        storageKey: 'tab-b',
+        tokenStorage: createIndexedDbTokenStorage(),
+        autoRefresh: false,
+      });
+      await Promise.all([tabA.whenStorageReady(), tabB.whenStorageReady()]);
+
+      tabA.setTokens(session);
+      await flush();
+      expect(tabB.getAccessToken()).toBe('a');
+
+      tabA.clearSession('logout');
+      await flush();
+      expect(tabB.getState()).toBe('idle');
+      tabB.setUser({ id: 'u-1' });
+      await flush();
+      expect(
+        (data.get('auth_tokens') as { accessToken?: string } | undefined)?.accessToken
+      ).toBeUndefined();
+      tabA.destroy();
+      tabB.destroy();
+    });
+
+    it('syncs an encrypted session from another tab through subscribe()', async () => {
+      installFakeIndexedDb();
+      const other = createEncryptedTokenStorage();
+      await other.ready?.();
+      other.set({ accessToken: 'a', refreshToken: 'r', expiresAt: Date.now() + 3600_000 });
+      const ciphertext = await waitForStored('auth_tokens');
+      window.localStorage.clear();
+
+      const sm = new SessionManager({
+        tokenStorage: createEncryptedTokenStorage(),
+        autoRefresh: false,
+      });
+      await sm.whenStorageReady();
+      const onSync = vi.fn();
+      sm.on('cross-tab:sync', onSync);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'auth_tokens', newValue: ciphertext })
+      );
+      await vi.waitFor(() => expect(sm.getState()).toBe('authenticated'));
+      expect(sm.getAccessToken()).toBe('a');
+      expect(onSync).toHaveBeenCalledTimes(1);
+      expect(onSync.mock.calls[0][0]).toMatchObject({ kind: 'tokens' });
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth_tokens', newValue: null }));
+      expect(sm.getState()).toBe('idle');
+      expect(onSync.mock.calls[1][0]).toMatchObject({ kind: 'cleared' });
+    });
+  });
+});
@@ -27,13 +27,24 @@ export interface ApiResponse<T> {
   meta?: PaginationMeta;
 }
 
+export type ApiErrorType = 'AUTH' | 'VALIDATION' | 'BUSINESS' | 'SYSTEM';
+
 export interface ApiError {
   success: false;
   error: {
     code: string;
+    /** Per-field failures of a VALIDATION error. */
+    details?: ApiFieldError[];
   };
   message: string;
-  type?: 'AUTH' | 'VALIDATION' | 'BUSINESS' | 'SYSTEM';
+  type?: ApiErrorType;
+}
+
+export interface ApiFieldError {
+  /** Request field the failure refers to; nested fields are dot-separated. */
+  field: string;
+  message: string;
+  code?: string;
 }
 
 export interface PaginationMeta {
@@ -45,6 +56,54 @@ export interface PaginationMeta {
   hasPrev: boolean;
 }
 
+/**
+ * One page of a list endpoint, unwrapped from its ApiResponse envelope.
+ * `iterate()` yields every item from this page on, requesting the next page
+ * while `meta.hasNext`.
+ */
+export interface Paginated<T> {
+  items: T[];
+  meta: PaginationMeta;
+  iterate(): AsyncGenerator<T, void, undefined>;
+}
+
+// List results before Paginated kept the page under a per-entity key. The keys
+// stay as aliases of `items` until the next major.
+export interface UserPage extends Paginated<User> {
+  /** @deprecated Use `items`. */
+  users: User[];
+}
+
+export interface TenantPage extends Paginated<Tenant> {
+  /** @deprecated Use `items`. */
+  tenants: Tenant[];
+}
+
+export interface AppPage extends Paginated<App> {
+  /** @deprecated Use `items`. */
+  apps: App[];
+}
+
+export interface RolePage extends Paginated<Role> {
+  /** @deprecated Use `items`. */
+  roles: Role[];
+}
+
+export interface PermissionPage extends Paginated<Permission> {
+  /** @deprecated Use `items`. */
+  permissions: Permission[];
+}
+
+export interface FeatureFlagPage extends Paginated<FeatureFlag> {
+  /** @deprecated Use `items`. */
+  featureFlags: FeatureFlag[];
+}
+
+export interface SubscriptionPlanPage extends Paginated<SubscriptionPlan> {
+  /** @deprecated Use `items`. */
+  plans: SubscriptionPlan[];
+}
+
 // User Types
 export enum UserType {
   SUPERUSER = 'SUPERUSER',
@@ -114,6 +173,22 @@ export interface SwitchTenantResponse {
   user: User; // User WITH tenantId and role
 }
 
+export interface ImpersonateRequest {
+  userId: string;
+  appId?: string;
+}
+
+export interface ImpersonateResponse {
+  accessToken: string; // Token for acting as the target user
+  refreshToken?: string;
+  expiresIn: number;
+  user?: User; // The impersonated user
+}
+
+export interface LogoutRequest {
+  refreshToken?: string; // Omitted with cookie sessions; the server reads the cookie
+}
+
 export interface SignupRequest {
   email?: string;
   phoneNumber?: string;
@@ -139,6 +214,25 @@ export interface RefreshTokenResponse {
   expiresIn: number;
 }
 
+// Active Session Types
+export interface ActiveSession {
+  deviceId: string; // Same value as the refresh token's deviceId claim
+  deviceName?: string | null; // Set by the user via renameSession
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  location?: string | null;
+  createdAt: string;
+  lastActiveAt?: string | null;
+}
+
+export interface RenameSessionRequest {
+  deviceName: string;
+}
+
+export interface RevokeOtherSessionsRequest {
+  currentDeviceId: string; // The session to keep
+}
+
 // Magic Link Types
 export interface MagicLinkRequest {
   email: string;
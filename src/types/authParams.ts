@@ -52,6 +52,11 @@ export interface ConfirmPasswordResetParams {
   newPassword: string;
 }
 
+export interface ReauthenticateParams {
+  password: string;
+  username?: string; // Defaults to the current user's email or phone number
+}
+
 export interface ChangePasswordParams {
   currentPassword: string;
   newPassword: string;
@@ -57,6 +57,26 @@ export function validateBoolean(field: string, value: unknown): void {
   }
 }
 
+/**
+ * Validate a string-union config option against its allowed values.
+ */
+export function validateOneOf(field: string, value: unknown, allowed: readonly string[]): void {
+  if (value === undefined) return;
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new ConfigurationError(field, value, `must be one of ${allowed.join(', ')}`);
+  }
+}
+
+/**
+ * Validate a callback config option (hooks such as classifyRefreshError).
+ */
+export function validateFunction(field: string, value: unknown): void {
+  if (value === undefined) return;
+  if (typeof value !== 'function') {
+    throw new ConfigurationError(field, value, 'must be a function');
+  }
+}
+
 /**
  * Validate an access token's structural shape. Tokens with dots are treated
  * as JWTs and must decode cleanly; tokens without dots are treated as opaque
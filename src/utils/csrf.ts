@@ -0,0 +1,38 @@
+/**
+ * Double-submit CSRF helpers: the server sets a JS-readable cookie and
+ * expects its value echoed in a header on every state-changing request.
+ */
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
+
+/** True for methods that can change server state and so need a CSRF token. */
+export function isStateChangingMethod(method: string): boolean {
+  return !SAFE_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * True when a response rejected the request's CSRF token: a 403 whose
+ * ApiError `code`/`type`/`message` (or a bare `error`/`message`) mentions
+ * CSRF. Other 403s are permission failures and are not retried.
+ */
+export function isCsrfFailure(status: number, body: unknown): boolean {
+  if (status !== 403 || !body || typeof body !== 'object') return false;
+  const { code, error, message } = body as Record<string, unknown>;
+  const nested = error && typeof error === 'object' ? (error as Record<string, unknown>) : {};
+  return [code, error, message, nested.code, nested.type, nested.message].some(
+    value => typeof value === 'string' && /csrf|xsrf/i.test(value)
+  );
+}
+
+/** Value of the cookie `name`, or null when it is not set. */
+export function readCookie(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const prefix = `${encodeURIComponent(name)}=`;
+  const entry = document.cookie.split('; ').find(part => part.startsWith(prefix));
+  if (!entry) return null;
+  try {
+    return decodeURIComponent(entry.slice(prefix.length));
+  } catch {
+    return entry.slice(prefix.length);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Small IndexedDB helpers shared by the persistent adapters and key stores.
+ * Callers check `typeof indexedDB` before using them.
+ */
+
+export type ObjectStoreRunner = <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+) => Promise<T>;
+
+/** Lazily opens `dbName` and runs one request per transaction against `storeName`. */
+export function createObjectStoreRunner(dbName: string, storeName: string): ObjectStoreRunner {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  return <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest) =>
+    openDb().then(
+      db =>
+        new Promise<T>((resolve, reject) => {
+          const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+          request.onsuccess = () => resolve(request.result as T);
+          request.onerror = () => reject(request.error);
+        })
+    );
+}
+
+/**
+ * Read the record at `id`, or store the value from `create()` there. Two tabs
+ * racing on first use both end up with whichever record was stored first,
+ * which is what keys shared across tabs need.
+ */
+export async function getOrCreateRecord<T>(
+  run: ObjectStoreRunner,
+  id: string,
+  create: () => Promise<T>
+): Promise<T> {
+  const existing = await run<T | undefined>('readonly', store => store.get(id));
+  if (existing) return existing;
+  const created = await create();
+  try {
+    await run('readwrite', store => store.add(created, id));
+    return created;
+  } catch {
+    // Another tab stored its record first — use that one.
+    const stored = await run<T | undefined>('readonly', store => store.get(id));
+    if (!stored) throw new Error(`IndexedDB record "${id}" could not be stored`);
+    return stored;
+  }
+}
@@ -12,6 +12,22 @@ function decodeSegment(segment: string): Record<string, unknown> {
   return JSON.parse(atob(segment.replace(/-/g, '+').replace(/_/g, '/')));
 }
 
+/** Decode a base64url (or plain base64) string into raw bytes. */
+export function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Encode raw bytes as unpadded base64url. */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
 /**
  * Decode a JWT into its header and payload objects. Returns null for anything
  * that is not a structurally valid 3-segment JWT with parseable base64url
@@ -0,0 +1,101 @@
+/**
+ * Classification of failed `/auth/refresh` responses. SessionManager asks the
+ * configured classifier whether a failure ends the session (fatal) or is worth
+ * retrying (transient); see SessionConfig.classifyRefreshError.
+ */
+
+import type { SessionExpiredReason } from '../errors/SessionErrors';
+import type { ApiError } from '../types/api';
+
+export type RefreshErrorClassification =
+  /** The refresh token is no good — clear the session with this reason. */
+  | { fatal: true; reason: SessionExpiredReason; message?: string }
+  /** Retry with backoff; counts toward maxRefreshRetries and the circuit breaker. */
+  | { fatal: false; message?: string };
+
+/**
+ * Decides how a non-2xx refresh response is handled. `body` is the parsed
+ * JSON body, or null when it was empty or not JSON. Return undefined to fall
+ * back to defaultClassifyRefreshError.
+ */
+export type RefreshErrorClassifier = (
+  status: number,
+  body: unknown
+) => RefreshErrorClassification | undefined;
+
+// Matched against the `_`/`-`-separated words of ApiError.error.code, so both
+// `AUTH_TOKEN_EXPIRED` and `refresh-token-expired` are recognised.
+const EXPIRED_CODE_WORDS = ['EXPIRED'];
+const INVALID_CODE_WORDS = ['INVALID', 'REUSE', 'REUSED', 'REVOKED', 'MALFORMED'];
+const INACTIVE_CODE_WORDS = ['INACTIVE', 'DISABLED', 'DEACTIVATED', 'LOCKED'];
+
+function reasonForCode(code: string): SessionExpiredReason | null {
+  const words = code.toUpperCase().split(/[_\-.\s]+/);
+  const has = (list: string[]) => list.some(word => words.includes(word));
+  if (has(INACTIVE_CODE_WORDS)) return 'user_inactive';
+  if (has(EXPIRED_CODE_WORDS)) return 'token_expired';
+  if (has(INVALID_CODE_WORDS)) return 'token_invalid';
+  return null;
+}
+
+/** Pull the ApiError fields out of an arbitrary body without trusting its shape. */
+function readApiError(body: unknown): {
+  code?: string;
+  type?: ApiError['type'];
+  message: string;
+} {
+  if (!body || typeof body !== 'object') return { message: '' };
+  const record = body as Record<string, unknown>;
+  const error = record.error;
+  const code =
+    error && typeof error === 'object' && typeof (error as ApiError['error']).code === 'string'
+      ? (error as ApiError['error']).code
+      : undefined;
+  const type = typeof record.type === 'string' ? (record.type as ApiError['type']) : undefined;
+  // Older backends put the message in `error` as a plain string.
+  const message =
+    typeof record.message === 'string' ? record.message : typeof error === 'string' ? error : '';
+  return { code, type, message };
+}
+
+/**
+ * Default refresh error classifier. Structured fields win: a recognised
+ * `error.code` decides the reason, then `type` ('AUTH' is fatal, 'SYSTEM' is
+ * transient). Only when neither settles it does it fall back to matching the
+ * message text. Every 401 is fatal.
+ */
+export function defaultClassifyRefreshError(
+  status: number,
+  body: unknown
+): RefreshErrorClassification {
+  const { code, type, message } = readApiError(body);
+
+  const codeReason = code ? reasonForCode(code) : null;
+  if (codeReason) return { fatal: true, reason: codeReason, message: message || undefined };
+
+  if (type === 'AUTH')
+    return { fatal: true, reason: 'token_invalid', message: message || undefined };
+  if (type === 'SYSTEM' && status !== 401) return { fatal: false, message };
+
+  // Fallback: message heuristics for backends without structured errors.
+  const text = message.toLowerCase();
+
+  if (status === 401) {
+    if (text.includes('expired')) return { fatal: true, reason: 'token_expired' };
+    if (text.includes('invalid')) return { fatal: true, reason: 'token_invalid' };
+    // Unknown 401 — treat as fatal
+    return { fatal: true, reason: 'token_invalid', message: `Unauthorized: ${text}` };
+  }
+
+  if (status === 400) {
+    if (text.includes('inactive')) return { fatal: true, reason: 'user_inactive' };
+    // Expired/invalid tokens returned as 400, and token reuse/revocation
+    // (server revoked all sessions) — also fatal
+    if (['expired', 'invalid', 'reuse', 'revoked'].some(word => text.includes(word))) {
+      return { fatal: true, reason: 'token_invalid', message: text };
+    }
+  }
+
+  // Other 400s ("User not found", "Token refresh failed: ..."), 5xx — transient
+  return { fatal: false, message: text };
+}
@@ -0,0 +1,43 @@
+/**
+ * Timing helpers for HttpService request retries.
+ */
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseDelay * 2^(retry - 1)`, capped at `maxDelay`. `retry` counts from 1.
+ */
+export function backoffDelay(retry: number, baseDelay: number, maxDelay: number): number {
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** (retry - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Delay in ms asked for by a `Retry-After` header, in either delta-seconds
+ * or HTTP-date form. Null when the header is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Resolve after `ms`, or reject with the signal's reason once it aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,419 @@
+/**
+ * Built-in TokenStorage adapters for SessionManager.
+ *
+ * SessionManager defaults to localStorage (with an in-memory fallback). These
+ * factories cover deployments that must keep tokens elsewhere — e.g. tenants
+ * whose policy forbids refresh tokens in localStorage. Pass the result as
+ * `SessionConfig.tokenStorage` / `AuthConfig.tokenStorage`.
+ */
+
+import type { TokenStorage } from '../services/SessionManager';
+import { createObjectStoreRunner, getOrCreateRecord } from './indexedDb';
+import { base64UrlToBytes, bytesToBase64Url } from './jwt';
+
+const DEFAULT_KEY = 'auth_tokens';
+
+/**
+ * Tokens live only in this JS realm. Nothing survives a reload and other tabs
+ * never see the session — use it for kiosk/shared-device flows or as a
+ * building block for custom adapters.
+ */
+export function createMemoryTokenStorage(): TokenStorage {
+  let data: unknown = null;
+  return {
+    get: () => data,
+    set: (next: unknown) => {
+      data = next;
+    },
+    clear: () => {
+      data = null;
+    },
+  };
+}
+
+/**
+ * Tokens live in `sessionStorage`: they survive reloads of the same tab but
+ * are dropped when the tab closes and are never shared with other tabs.
+ * Falls back to memory when sessionStorage is unavailable or rejects a write.
+ */
+export function createSessionStorageTokenStorage(key = DEFAULT_KEY): TokenStorage {
+  const fallback = createMemoryTokenStorage();
+  let useFallback = typeof sessionStorage === 'undefined';
+
+  return {
+    get: () => {
+      if (useFallback) return fallback.get();
+      try {
+        const stored = sessionStorage.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+      } catch {
+        return null;
+      }
+    },
+    set: (data: unknown) => {
+      if (!useFallback) {
+        try {
+          sessionStorage.setItem(key, JSON.stringify(data));
+          return;
+        } catch {
+          // Quota or policy failure — keep the session alive in memory.
+          useFallback = true;
+        }
+      }
+      fallback.set(data);
+    },
+    clear: () => {
+      fallback.clear();
+      if (useFallback) return;
+      try {
+        sessionStorage.removeItem(key);
+      } catch {
+        // Best-effort.
+      }
+    },
+  };
+}
+
+export interface CookieTokenStorageOptions {
+  /** Cookie name. Default: 'auth_tokens'. */
+  key?: string;
+  /** Default: '/'. */
+  path?: string;
+  /** Parent domain to share the cookie across subdomains (e.g. '.example.com'). */
+  domain?: string;
+  /** Cookie lifetime in seconds. Omit for a browser-session cookie. */
+  maxAge?: number;
+  /** Default: 'Strict'. */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Default: true on https: origins. Forced on when sameSite is 'None'. */
+  secure?: boolean;
+}
+
+/**
+ * Tokens live in a JS-readable cookie. Useful to share a session across
+ * subdomains without a backend-managed HttpOnly cookie. Browsers cap a cookie
+ * at ~4KB, so keep stored user data small; writes that exceed the limit are
+ * silently dropped by the browser.
+ */
+export function createCookieTokenStorage(options: CookieTokenStorageOptions = {}): TokenStorage {
+  const { key = DEFAULT_KEY, path = '/', domain, maxAge, sameSite = 'Strict' } = options;
+  const secure =
+    sameSite === 'None' ||
+    (options.secure ?? (typeof location !== 'undefined' && location.protocol === 'https:'));
+
+  // Null outside the browser (SSR), where there is no cookie to read or write.
+  const doc = typeof document === 'undefined' ? null : document;
+
+  const write = (value: string, expire: boolean) => {
+    if (!doc) return;
+    const attributes = [`path=${path}`, `SameSite=${sameSite}`];
+    if (domain) attributes.push(`domain=${domain}`);
+    if (expire) attributes.push('max-age=0');
+    else if (maxAge !== undefined) attributes.push(`max-age=${maxAge}`);
+    if (secure) attributes.push('Secure');
+    doc.cookie = `${encodeURIComponent(key)}=${value}; ${attributes.join('; ')}`;
+  };
+
+  return {
+    get: () => {
+      if (!doc) return null;
+      const prefix = `${encodeURIComponent(key)}=`;
+      const entry = doc.cookie.split('; ').find(part => part.startsWith(prefix));
+      if (!entry) return null;
+      try {
+        return JSON.parse(decodeURIComponent(entry.slice(prefix.length)));
+      } catch {
+        return null;
+      }
+    },
+    set: (data: unknown) => write(encodeURIComponent(JSON.stringify(data)), false),
+    clear: () => write('', true),
+  };
+}
+
+export interface IndexedDbTokenStorageOptions {
+  /** Record key inside the object store. Default: 'auth_tokens'. */
+  key?: string;
+  /** Default: 'ria-session'. */
+  dbName?: string;
+  /** Default: 'tokens'. */
+  storeName?: string;
+}
+
+/**
+ * Tokens live in IndexedDB. The TokenStorage contract is synchronous, so the
+ * adapter serves reads from an in-memory mirror and writes through to the
+ * database in order. `ready()` hydrates the mirror; SessionManager awaits it
+ * before its bootstrap decision so a persisted session is not mistaken for
+ * "no session". Each write is also sent to the other tabs' mirrors over a
+ * BroadcastChannel and reported through `subscribe()`, so a rotated refresh
+ * token or a logout reaches them before their next refresh or write. Falls
+ * back to memory-only when IndexedDB is unavailable.
+ */
+export function createIndexedDbTokenStorage(
+  options: IndexedDbTokenStorageOptions = {}
+): TokenStorage {
+  const { key = DEFAULT_KEY, dbName = 'ria-session', storeName = 'tokens' } = options;
+  const available = typeof indexedDB !== 'undefined';
+
+  let cache: unknown = null;
+  // A write before hydration finishes is newer than whatever is on disk.
+  let writtenBeforeHydration = false;
+  let hydration: Promise<void> | null = null;
+  let writeChain: Promise<unknown> = Promise.resolve();
+  const listeners = new Set<() => void>();
+  const run = createObjectStoreRunner(dbName, storeName);
+
+  // Carries the data itself: the sender's database write may not have landed
+  // yet when the receiving tab next reads.
+  const channel =
+    available && typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(`ria-session:${dbName}/${storeName}/${key}`)
+      : null;
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<{ data: unknown }>) => {
+      cache = event.data?.data ?? null;
+      writtenBeforeHydration = true;
+      for (const listener of listeners) listener();
+    };
+  }
+
+  const announce = (data: unknown) => {
+    try {
+      channel?.postMessage({ data });
+    } catch {
+      // Not cloneable — other tabs pick it up from the database on reload.
+    }
+  };
+
+  const persist = (operation: (store: IDBObjectStore) => IDBRequest) => {
+    if (!available) return;
+    writeChain = writeChain
+      .then(() => run('readwrite', operation))
+      .catch(error => {
+        if (process.env.NODE_ENV === 'development') {
+          console.warn('[TokenStorage] IndexedDB write failed — session kept in memory:', error);
+        }
+      });
+  };
+
+  return {
+    get: () => cache,
+    set: (data: unknown) => {
+      cache = data;
+      writtenBeforeHydration = true;
+      persist(store => store.put(data, key));
+      announce(data);
+    },
+    clear: () => {
+      cache = null;
+      writtenBeforeHydration = true;
+      persist(store => store.delete(key));
+      announce(null);
+    },
+    ready: () => {
+      if (!hydration) {
+        hydration = available
+          ? run<unknown>('readonly', store => store.get(key))
+              .then(value => {
+                if (!writtenBeforeHydration) cache = value ?? null;
+              })
+              .catch(() => {
+                // Unreadable database — start empty, writes still go to memory.
+              })
+          : Promise.resolve();
+      }
+      return hydration;
+    },
+    subscribe: (onChange: () => void) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
+
+export interface EncryptedTokenStorageOptions {
+  /** localStorage key holding the ciphertext. Default: 'auth_tokens'. */
+  key?: string;
+  /** Database holding the encryption key. Default: 'ria-keys'. */
+  dbName?: string;
+  /** Default: 'keys'. */
+  storeName?: string;
+}
+
+const CIPHERTEXT_VERSION = 'v1';
+
+/**
+ * Tokens live in localStorage encrypted with AES-GCM. The key is a
+ * non-extractable CryptoKey kept in IndexedDB, so a dump of localStorage or a
+ * copied browser profile yields ciphertext only — script running in the page
+ * can still use the key, so this does not replace XSS hardening.
+ *
+ * Like the IndexedDB adapter, reads come from an in-memory mirror that
+ * `ready()` hydrates, and writes are encrypted in the background. Other tabs
+ * are picked up through `subscribe()` once their write has been decrypted. A
+ * plaintext session left under the same key (e.g. by the default storage) is
+ * adopted and re-encrypted. Without Web Crypto or IndexedDB the adapter keeps
+ * tokens in memory only — it never falls back to plaintext.
+ */
+export function createEncryptedTokenStorage(
+  options: EncryptedTokenStorageOptions = {}
+): TokenStorage {
+  const { key = DEFAULT_KEY, dbName = 'ria-keys', storeName = 'keys' } = options;
+  const available =
+    typeof indexedDB !== 'undefined' &&
+    typeof localStorage !== 'undefined' &&
+    typeof crypto !== 'undefined' &&
+    !!crypto.subtle;
+
+  if (!available && process.env.NODE_ENV === 'development') {
+    console.warn('[TokenStorage] Web Crypto or IndexedDB unavailable — session kept in memory');
+  }
+
+  let cache: unknown = null;
+  // Bumped by every local write and every change from another tab; async work
+  // started under an older revision must not overwrite newer state.
+  let revision = 0;
+  let hydration: Promise<void> | null = null;
+  let keyPromise: Promise<CryptoKey> | null = null;
+  const listeners = new Set<() => void>();
+  const additionalData = new TextEncoder().encode(key);
+  const run = createObjectStoreRunner(dbName, storeName);
+
+  const loadKey = (): Promise<CryptoKey> => {
+    if (!keyPromise) {
+      keyPromise = getOrCreateRecord(run, key, () =>
+        crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+      );
+    }
+    return keyPromise;
+  };
+
+  const encrypt = async (data: unknown): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData },
+      await loadKey(),
+      new TextEncoder().encode(JSON.stringify(data))
+    );
+    return [
+      CIPHERTEXT_VERSION,
+      bytesToBase64Url(iv),
+      bytesToBase64Url(new Uint8Array(ciphertext)),
+    ].join('.');
+  };
+
+  const decrypt = async (value: string): Promise<unknown> => {
+    const [version, iv, ciphertext] = value.split('.');
+    if (version !== CIPHERTEXT_VERSION || !iv || !ciphertext) {
+      throw new Error('Unrecognized ciphertext format');
+    }
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64UrlToBytes(iv), additionalData },
+      await loadKey(),
+      base64UrlToBytes(ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  };
+
+  const warn = (message: string, error: unknown) => {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn(`[TokenStorage] ${message}:`, error);
+    }
+  };
+
+  const set = (data: unknown) => {
+    cache = data;
+    const current = ++revision;
+    if (!available) return;
+    encrypt(data)
+      .then(value => {
+        if (current === revision) localStorage.setItem(key, value);
+      })
+      .catch(error => warn('Encrypted write failed — session kept in memory', error));
+  };
+
+  const clear = () => {
+    cache = null;
+    revision++;
+    if (!available) return;
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Best-effort.
+    }
+  };
+
+  const adopt = (stored: string, current: number): Promise<void> =>
+    decrypt(stored)
+      .then(value => {
+        if (current === revision) cache = value;
+      })
+      .catch(() => {
+        if (current !== revision) return;
+        let legacy: { accessToken?: unknown } | null = null;
+        try {
+          legacy = JSON.parse(stored);
+        } catch {
+          // Neither ours nor plaintext JSON.
+        }
+        if (legacy?.accessToken) {
+          set(legacy);
+        } else {
+          // Encrypted under a key that no longer exists — unusable.
+          clear();
+        }
+      });
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== key) return;
+    if (e.storageArea && e.storageArea !== localStorage) return;
+    const current = ++revision;
+    if (e.newValue === null) {
+      cache = null;
+      for (const listener of listeners) listener();
+      return;
+    }
+    decrypt(e.newValue)
+      .then(value => {
+        if (current !== revision) return;
+        cache = value;
+        for (const listener of listeners) listener();
+      })
+      .catch(error => warn('Could not decrypt a session written by another tab', error));
+  };
+
+  return {
+    get: () => cache,
+    set,
+    clear,
+    ready: () => {
+      if (!hydration) {
+        const current = revision;
+        hydration = available
+          ? loadKey()
+              .then(() => {
+                const stored = localStorage.getItem(key);
+                if (stored && current === revision) return adopt(stored, current);
+              })
+              .catch(error => warn('Encryption key unavailable — session kept in memory', error))
+          : Promise.resolve();
+      }
+      return hydration;
+    },
+    subscribe: (onChange: () => void) => {
+      if (listeners.size === 0 && available && typeof window !== 'undefined') {
+        window.addEventListener('storage', onStorage);
+      }
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0 && typeof window !== 'undefined') {
+          window.removeEventListener('storage', onStorage);
+        }
+      };
+    },
+  };
+}